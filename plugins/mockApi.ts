@@ -0,0 +1,109 @@
+/* ==========================================================================
+ * Vite Plugin — Mock API
+ * ==========================================================================
+ * Stand-ins for the site's backends on the dev and preview servers:
+ *
+ *   GET  /__mock__/projects.json — `mock/projects.json`, for the HTTP
+ *        project source (`VITE_PROJECTS_URL=/__mock__/projects.json`)
+ *   POST /__mock__/contact       — accepts contact form submissions,
+ *        validating them with the same rules as the form (422 + field
+ *        errors when invalid) and logging them to the terminal
+ *
+ * Query parameters simulate a slow or broken backend on any endpoint:
+ *   ?delay=1500  — wait 1.5s before answering (default 400ms)
+ *   ?status=503  — answer with that status and an error body instead
+ *
+ * The fixture is bundled with the config, so restart the dev server after
+ * editing it.
+ * ========================================================================== */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Connect, Plugin } from "vite";
+import fixture from "../mock/projects.json";
+import { validateContactSubmission } from "../src/data/contactSchema";
+
+/** URL prefix the mock endpoints live under */
+const MOCK_PREFIX = "/__mock__/";
+
+/** Default simulated network latency (ms) */
+const DEFAULT_DELAY_MS = 400;
+
+/** A mock response: status code + JSON body */
+type MockResponse = { status: number; body: unknown };
+
+/** Collect and JSON-parse a request body (`undefined` if it isn't JSON) */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } catch {
+        return undefined;
+    }
+}
+
+/** POST /__mock__/contact — validate, log, acknowledge */
+async function handleContact(req: IncomingMessage): Promise<MockResponse> {
+    if (req.method !== "POST") return { status: 405, body: { error: "Use POST" } };
+
+    const payload = await readJsonBody(req);
+    if (typeof payload !== "object" || payload === null) {
+        return { status: 400, body: { error: "Expected a JSON object" } };
+    }
+
+    const errors = validateContactSubmission(payload);
+    if (Object.keys(errors).length > 0) return { status: 422, body: { errors } };
+
+    console.info("\n[mock] contact submission:", payload);
+    return { status: 200, body: { ok: true } };
+}
+
+/** Endpoint path → handler */
+const ROUTES: Record<string, (req: IncomingMessage) => MockResponse | Promise<MockResponse>> = {
+    "/__mock__/projects.json": () => ({ status: 200, body: fixture }),
+    "/__mock__/contact": handleContact,
+};
+
+function sendJson(res: ServerResponse, { status, body }: MockResponse) {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+}
+
+const handleMockRequest: Connect.NextHandleFunction = (req, res, next) => {
+    if (!req.url?.startsWith(MOCK_PREFIX)) return next();
+
+    const url = new URL(req.url, "http://localhost");
+    const route = ROUTES[url.pathname];
+    const delay = Number(url.searchParams.get("delay") ?? DEFAULT_DELAY_MS);
+    const forcedStatus = url.searchParams.get("status");
+
+    const respond = async (): Promise<MockResponse> => {
+        if (forcedStatus) return { status: Number(forcedStatus), body: { error: `Mock responded with ${forcedStatus}` } };
+        if (!route) return { status: 404, body: { error: `No mock at ${url.pathname}` } };
+        return route(req);
+    };
+
+    setTimeout(() => {
+        respond()
+            .then((response) => sendJson(res, response))
+            .catch((error: unknown) => sendJson(res, { status: 500, body: { error: String(error) } }));
+    }, Number.isFinite(delay) ? delay : DEFAULT_DELAY_MS);
+};
+
+/**
+ * mockApi — Vite plugin that mounts the mock endpoints on dev + preview.
+ */
+export function mockApi(): Plugin {
+    return {
+        name: "khaotic:mock-api",
+
+        configureServer(server) {
+            server.middlewares.use(handleMockRequest);
+        },
+
+        configurePreviewServer(server) {
+            server.middlewares.use(handleMockRequest);
+        },
+    };
+}
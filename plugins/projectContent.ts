@@ -0,0 +1,142 @@
+/* ==========================================================================
+ * Vite Plugin — Project Content Collection
+ * ==========================================================================
+ * Turns every Markdown file in `src/content/projects/` into a JavaScript
+ * module whose default export is a validated `Project`.
+ *
+ * File format:
+ *   ---
+ *   slug: the-de-deur-protocol
+ *   title: The De Deur Protocol
+ *   rotation: -2deg
+ *   credits:
+ *     - role: Director
+ *       name: Harry Mofoka
+ *   …any other `Project` field except `description` / `bodyHtml`
+ *   ---
+ *
+ *   The story, in Markdown. Headings, links, *emphasis*, ![images](…)
+ *   and > pull quotes are all supported.
+ *
+ * Build-time guarantees:
+ *   • Frontmatter is checked with `validateProject`; missing fields, bad
+ *     `rotation` values and unknown keys fail the build (or show the Vite
+ *     error overlay in dev) with the file path and every problem listed.
+ *   • The body is rendered once, at build time, into `bodyHtml`. A plain
+ *     text copy becomes `description` for search and meta tags.
+ * ========================================================================== */
+
+import type { Plugin } from "vite";
+import { parse as parseYaml } from "yaml";
+import { Marked } from "marked";
+import { validateProject, ProjectValidationError } from "../src/data/projectSchema";
+
+/** Only Markdown inside this directory is treated as project content */
+const CONTENT_DIR = "/src/content/projects/";
+
+/** `---` fenced YAML block at the very top of the file, then the body */
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/;
+
+/** Fields that are derived from the body and must not be authored by hand */
+const DERIVED_FIELDS = ["description", "bodyHtml"];
+
+/**
+ * storyMarkdown — Marked instance with the KHAOTIC story conventions:
+ *   • Blockquotes become pull quotes
+ *   • Images lazy-load
+ *   • External links open in a new tab
+ */
+const storyMarkdown = new Marked({
+    gfm: true,
+    renderer: {
+        blockquote({ tokens }) {
+            return `<blockquote class="pull-quote">${this.parser.parse(tokens)}</blockquote>\n`;
+        },
+        image({ href, title, text }) {
+            const titleAttr = title ? ` title="${escapeAttribute(title)}"` : "";
+            return `<img src="${escapeAttribute(href)}" alt="${escapeAttribute(text)}"${titleAttr} loading="lazy" decoding="async" />`;
+        },
+        link({ href, title, tokens }) {
+            const titleAttr = title ? ` title="${escapeAttribute(title)}"` : "";
+            const isExternal = /^https?:\/\//.test(href);
+            const targetAttr = isExternal ? ` target="_blank" rel="noopener noreferrer"` : "";
+            return `<a href="${escapeAttribute(href)}"${titleAttr}${targetAttr}>${this.parser.parseInline(tokens)}</a>`;
+        },
+    },
+});
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+/**
+ * htmlToPlainText — Flatten rendered HTML into paragraphs separated by a
+ * blank line (the same shape the hand-written `description` strings use).
+ */
+function htmlToPlainText(html: string): string {
+    return html
+        .replace(/<\/(p|h[1-6]|blockquote|li)>/g, "\n\n")
+        .replace(/<[^>]+>/g, "")
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&amp;/g, "&")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
+
+/**
+ * parseProjectFile — Markdown source → validated `Project`.
+ *
+ * @throws ProjectValidationError for schema problems.
+ */
+function parseProjectFile(source: string, file: string) {
+    const match = FRONTMATTER_PATTERN.exec(source);
+    if (!match) {
+        throw new ProjectValidationError(file, ["file must start with a `---` frontmatter block"]);
+    }
+
+    const [, rawFrontmatter, body] = match;
+    const frontmatter: unknown = parseYaml(rawFrontmatter);
+    if (typeof frontmatter !== "object" || frontmatter === null || Array.isArray(frontmatter)) {
+        throw new ProjectValidationError(file, ["frontmatter must be a YAML mapping of project fields"]);
+    }
+
+    const authored = DERIVED_FIELDS.filter((field) => field in frontmatter);
+    if (authored.length > 0) {
+        throw new ProjectValidationError(
+            file,
+            authored.map((field) => `\`${field}\` is generated from the Markdown body — remove it from the frontmatter`)
+        );
+    }
+
+    const bodyHtml = storyMarkdown.parse(body.trim(), { async: false });
+    const description = htmlToPlainText(bodyHtml);
+
+    return validateProject({ ...frontmatter, description, bodyHtml }, file);
+}
+
+/**
+ * projectContent — Vite plugin that compiles project Markdown files.
+ */
+export function projectContent(): Plugin {
+    return {
+        name: "khaotic:project-content",
+        enforce: "pre",
+
+        transform(source, id) {
+            const [file] = id.split("?");
+            if (!file.endsWith(".md") || !file.includes(CONTENT_DIR)) return null;
+
+            try {
+                const project = parseProjectFile(source, file);
+                return { code: `export default ${JSON.stringify(project)};`, map: null };
+            } catch (error) {
+                if (error instanceof ProjectValidationError) this.error(error.message);
+                if (error instanceof Error) this.error(`Could not parse ${file}: ${error.message}`);
+                throw error;
+            }
+        },
+    };
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
-import { Routes, Route, useLocation } from "react-router-dom";
+import { Routes, Route, Navigate, useLocation, useNavigate, useParams } from "react-router-dom";
+import type { Location } from "react-router-dom";
 import Lenis from "lenis";
 import gsap from "gsap";
 
@@ -12,21 +13,41 @@ import ProjectModal from "./components/ProjectModal";
 import AmbientSound from "./components/AmbientSound";
 import Footer from "./components/Footer";
 import Loader from "./components/Loader";
+import LoopMonitor from "./components/LoopMonitor";
 
 /* Views */
 import HomeView from "./views/HomeView";
 import WorkPage from "./views/WorkPage";
 import LabPage from "./views/LabPage";
+import ExperimentPage from "./views/ExperimentPage";
 import AboutPage from "./views/AboutPage";
 import ContactPage from "./views/ContactPage";
+import StoryPage from "./views/StoryPage";
+import NotFoundPage from "./views/NotFoundPage";
+import CvPage from "./views/CvPage";
+
+/* Data */
+import { getProjectBySlug } from "./data/projects";
+import { useProjects } from "./context/ProjectsContext";
+import { reportScroll } from "./lib/moodSignals";
+import { registerLoop } from "./lib/scheduler";
+import type { Project } from "./types";
+
+/**
+ * StoryLocationState — Navigation state pushed when a story is opened from
+ * inside the app. `backgroundLocation` is the page the modal sits on top of.
+ */
+interface StoryLocationState {
+    backgroundLocation?: Location;
+}
 
 /**
  * ScrollToTop Component — Resets window scroll position on every route change.
  * Essential for the 'multi-page' feel in an SPA.
+ * `pathname` is the path of the page being displayed, so opening or closing
+ * a story modal (which only changes the URL) keeps the background in place.
  */
-const ScrollToTop = ({ lenis }: { lenis: Lenis | null }) => {
-    const { pathname } = useLocation();
-
+const ScrollToTop = ({ lenis, pathname }: { lenis: Lenis | null; pathname: string }) => {
     useEffect(() => {
         // Disable browser's automatic scroll restoration on reload
         if ('scrollRestoration' in window.history) {
@@ -42,21 +63,69 @@ const ScrollToTop = ({ lenis }: { lenis: Lenis | null }) => {
     return null;
 };
 
+/**
+ * StoryModalRoute — Resolves `:slug` and mounts the ProjectModal over the
+ * background page. Unknown slugs are re-routed (without the background)
+ * so the standalone not-found view handles them.
+ *
+ * Moving to an adjacent story *replaces* the history entry and carries the
+ * same `backgroundLocation`, so closing always returns to the page the
+ * modal was opened from.
+ */
+const StoryModalRoute = ({ onClose }: { onClose: () => void }) => {
+    const { slug = "" } = useParams();
+    const location = useLocation();
+    const navigate = useNavigate();
+    const { projects } = useProjects();
+    const project = getProjectBySlug(projects, slug);
+
+    const handleNavigate = useCallback((target: Project) => {
+        navigate(`/stories/${target.slug}`, { replace: true, state: location.state });
+    }, [navigate, location.state]);
+
+    if (!project) {
+        return <Navigate to={`/stories/${slug}`} replace />;
+    }
+
+    return <ProjectModal project={project} onNavigate={handleNavigate} onClose={onClose} />;
+};
+
 const App: React.FC = () => {
     /* -------------------------------------------------------------------------
      * State
      * ----------------------------------------------------------------------- */
     const [isMenuOpen, setIsMenuOpen] = useState(false);
-    const [selectedProjectIndex, setSelectedProjectIndex] = useState<number | null>(null);
-    const [isModalVisible, setIsModalVisible] = useState(false);
     const [isLoaded, setIsLoaded] = useState(false);
 
+    /* -------------------------------------------------------------------------
+     * Routing — Background-location pattern
+     *
+     * When a story is opened from a card we push `/stories/:slug` with the
+     * current location stored as `backgroundLocation`. The main <Routes>
+     * keeps rendering that background page while a second <Routes> mounts
+     * the modal on top. Loading the URL cold has no background, so the
+     * main <Routes> renders the standalone StoryPage instead.
+     * ----------------------------------------------------------------------- */
+    const location = useLocation();
+    const navigate = useNavigate();
+    const backgroundLocation = (location.state as StoryLocationState | null)?.backgroundLocation;
+    const isModalVisible = Boolean(backgroundLocation);
+
+    /* The CV is a bare printable document. The site chrome stays mounted but
+     * hidden behind it, so heading back doesn't replay the intro or drop the
+     * ambient sound */
+    const isCvRoute = location.pathname === "/cv";
+    const chromeClass = isCvRoute ? "hidden" : "contents";
+
     /* -------------------------------------------------------------------------
      * Smooth Scroll (Lenis)
      * ----------------------------------------------------------------------- */
     const lenisRef = useRef<Lenis | null>(null);
 
     useEffect(() => {
+        /* Native scrolling on the CV so the page prints predictably */
+        if (isCvRoute) return;
+
         lenisRef.current = new Lenis({
             duration: 1.2,
             easing: (t: number) => Math.min(1, 1.001 - Math.pow(2, -10 * t)),
@@ -68,19 +137,21 @@ const App: React.FC = () => {
             infinite: false,
         });
 
-        let rafId: number;
-        function raf(time: number) {
-            lenisRef.current?.raf(time);
-            rafId = requestAnimationFrame(raf);
-        }
+        /* Scroll depth feeds the auto mood */
+        lenisRef.current.on("scroll", (lenis: Lenis) => reportScroll(lenis.progress));
 
-        rafId = requestAnimationFrame(raf);
+        /* Lenis eases on the loop's clock, which stands still while the tab is hidden */
+        const loop = registerLoop({
+            name: "Smooth scroll",
+            tick: (_delta, time) => lenisRef.current?.raf(time),
+        });
 
         return () => {
+            loop.dispose();
             lenisRef.current?.destroy();
-            cancelAnimationFrame(rafId);
+            lenisRef.current = null;
         };
-    }, []);
+    }, [isCvRoute]);
 
     // Stop/Start scroll based on overlay states
     useEffect(() => {
@@ -106,15 +177,16 @@ const App: React.FC = () => {
         });
     }, []);
 
-    const handleProjectOpen = useCallback((index: number) => {
-        setSelectedProjectIndex(index);
-        setIsModalVisible(true);
-    }, []);
+    const handleProjectOpen = useCallback((slug: string) => {
+        navigate(`/stories/${slug}`, {
+            state: { backgroundLocation: location } satisfies StoryLocationState,
+        });
+    }, [navigate, location]);
 
+    /* The modal was pushed on top of its background, so "close" is just "back" */
     const handleModalClose = useCallback(() => {
-        setIsModalVisible(false);
-        setTimeout(() => setSelectedProjectIndex(null), 800);
-    }, []);
+        navigate(-1);
+    }, [navigate]);
 
     const handleMenuToggle = useCallback(() => {
         setIsMenuOpen((prev) => !prev);
@@ -128,50 +200,67 @@ const App: React.FC = () => {
      * Render
      * ----------------------------------------------------------------------- */
     return (
-        <div className="w-full min-h-screen cursor-none font-sans antialiased selection:bg-[var(--color-accent)] selection:text-white bg-[var(--color-bg)] text-[var(--color-text)] overflow-x-hidden">
-            <ScrollToTop lenis={lenisRef.current} />
+        <div className={`w-full min-h-screen ${isCvRoute ? "" : "cursor-none"} font-sans antialiased selection:bg-[var(--color-accent)] selection:text-white bg-[var(--color-bg)] text-[var(--color-text)] overflow-x-hidden`}>
+            <ScrollToTop
+                lenis={lenisRef.current}
+                pathname={(backgroundLocation ?? location).pathname}
+            />
 
-            {/* Global Distortion Overlay — static noise layer */}
-            <NoiseOverlay />
+            {/* Animation loop readout (?debug=loops) */}
+            <LoopMonitor />
 
-            {/* Custom Interactive Cursor */}
-            <CustomCursor />
+            <div className={chromeClass}>
+                {/* Global Distortion Overlay — static noise layer */}
+                <NoiseOverlay />
 
-            {/* Ambient Soundscape Controller */}
-            <AmbientSound />
+                {/* Custom Interactive Cursor */}
+                <CustomCursor />
 
-            {/* Navigation Bar */}
-            <Navbar isMenuOpen={isMenuOpen} onMenuToggle={handleMenuToggle} />
+                {/* Ambient Soundscape Controller */}
+                <AmbientSound />
 
-            {/* Fullscreen Menu Overlay */}
-            <MenuOverlay
-                isOpen={isMenuOpen}
-                onClose={handleMenuClose}
-            />
+                {/* Navigation Bar */}
+                <Navbar isMenuOpen={isMenuOpen} onMenuToggle={handleMenuToggle} />
 
-            {/* Intro Loader */}
-            <Loader onComplete={handleLoaderComplete} />
+                {/* Fullscreen Menu Overlay */}
+                <MenuOverlay
+                    isOpen={isMenuOpen}
+                    onClose={handleMenuClose}
+                />
 
-            {/* Page Transitions & Content — only show if loaded */}
-            <div className={`transition-opacity duration-1000 ${isLoaded ? 'opacity-100' : 'opacity-0'}`}>
-                <Routes>
+                {/* Intro Loader */}
+                <Loader onComplete={handleLoaderComplete} />
+            </div>
+
+            {/* Page Transitions & Content — only show if loaded (the CV doesn't wait) */}
+            <div className={`transition-opacity duration-1000 ${isLoaded || isCvRoute ? 'opacity-100' : 'opacity-0'}`}>
+                <Routes location={backgroundLocation ?? location}>
+                    <Route path="/cv" element={<CvPage />} />
                     <Route path="/" element={<HomeView onProjectOpen={handleProjectOpen} />} />
                     <Route path="/work" element={<WorkPage />} />
                     <Route path="/lab" element={<LabPage />} />
+                    <Route path="/lab/:slug" element={<ExperimentPage />} />
                     <Route path="/about" element={<AboutPage />} />
                     <Route path="/contact" element={<ContactPage />} />
+                    <Route path="/stories/:slug" element={<StoryPage />} />
+                    <Route path="*" element={<NotFoundPage />} />
                 </Routes>
             </div>
 
-            {/* Global Project Detail Modal — renders over any page */}
-            <ProjectModal
-                isVisible={isModalVisible}
-                projectIndex={selectedProjectIndex}
-                onClose={handleModalClose}
-            />
+            {/* Project Detail Modal — only mounted over a background page */}
+            {backgroundLocation && (
+                <Routes>
+                    <Route
+                        path="/stories/:slug"
+                        element={<StoryModalRoute onClose={handleModalClose} />}
+                    />
+                </Routes>
+            )}
 
             {/* Global Footer */}
-            <Footer />
+            <div className={chromeClass}>
+                <Footer />
+            </div>
         </div>
     );
 };
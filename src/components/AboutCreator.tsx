@@ -25,25 +25,10 @@ import gsap from "gsap";
 import { ScrollTrigger } from "gsap/ScrollTrigger";
 
 import portraitImg from "../assets/harry_portrait.jpg";
+import { SKILLS } from "../data/skills";
 
 gsap.registerPlugin(ScrollTrigger);
 
-/** Skills / tools for the infinite marquee */
-const SKILLS = [
-    "React",
-    "TypeScript",
-    "GSAP",
-    "Figma",
-    "Three.js",
-    "Blender",
-    "After Effects",
-    "Photography",
-    "UI/UX",
-    "Creative Direction",
-    "Webflow",
-    "Node.js",
-];
-
 /**
  * AboutCreator — Personal about section.
  */
@@ -0,0 +1,430 @@
+/* ==========================================================================
+ * ContactForm Component
+ * ==========================================================================
+ * The "Send a Signal" form on the Contact page.
+ *
+ * Fields:
+ *   name, email, project type (chips), budget (chips), message — rules in
+ *   `data/contactSchema.ts`, shared with the dev stub endpoint.
+ *
+ * Behaviour:
+ *   • Errors appear once a field has been left (blur) or on submit, and
+ *     clear as soon as the value becomes valid
+ *   • Honeypot — a visually hidden "website" field real people never see.
+ *     If it's filled in, the form fakes a success without sending anything
+ *   • Delivery goes through a `ContactSubmitter` (HTTP endpoint, dev stub
+ *     or mailto — see `services/contactSubmitter.ts`); server-side field
+ *     errors (422) are shown inline like local ones
+ *
+ * Animations (GSAP):
+ *   • Invalid submit / failed send → the submit button shakes
+ *   • Success → fields fall away in a stagger, the "signal received" card
+ *     stamps in at a tilt (or, after a mailto hand-off, a card asking the
+ *     visitor to hit send in their mail app)
+ *
+ * Props:
+ *   @prop submitter — Override the delivery adapter (defaults to the one
+ *                     configured for this build).
+ * ========================================================================== */
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import gsap from "gsap";
+import { Icon } from "@iconify/react";
+import {
+    BUDGET_RANGES,
+    MESSAGE_MAX_LENGTH,
+    PROJECT_TYPES,
+    validateContactSubmission,
+    type ContactFieldErrors,
+    type ContactSubmission,
+} from "../data/contactSchema";
+import { CONTACT_EMAIL } from "../data/contact";
+import {
+    ContactSubmitError,
+    resolveContactSubmitter,
+    type ContactDelivery,
+    type ContactSubmitter,
+} from "../services/contactSubmitter";
+
+interface ContactFormProps {
+    /** Delivery adapter; defaults to the build's configured one */
+    submitter?: ContactSubmitter;
+}
+
+type FormValues = Record<keyof ContactSubmission, string>;
+type FormStatus = "idle" | "submitting" | "success" | "error";
+
+const EMPTY_VALUES: FormValues = { name: "", email: "", projectType: "", budget: "", message: "" };
+
+/** Created once per page load */
+const defaultSubmitter = resolveContactSubmitter(CONTACT_EMAIL);
+
+/* --------------------------------------------------------------------------
+ * Small presentational pieces
+ * -------------------------------------------------------------------------- */
+
+/** Mono caption above a field, with the error (if any) on the right */
+const FieldLabel: React.FC<{ htmlFor?: string; label: string; error?: string; errorId: string }> = ({
+    htmlFor,
+    label,
+    error,
+    errorId,
+}) => (
+    <div className="flex items-baseline justify-between gap-4 mb-2">
+        <label htmlFor={htmlFor} className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]">
+            {label}
+        </label>
+        {error && (
+            <span id={errorId} className="font-display text-xs text-[var(--color-accent)] -rotate-1">
+                {error}
+            </span>
+        )}
+    </div>
+);
+
+const INPUT_CLASS =
+    "w-full bg-transparent border-b border-[var(--color-border)] focus:border-[var(--color-accent)] outline-none py-3 font-sans text-lg text-[var(--color-text)] placeholder:text-[var(--color-text-dim)]/40 transition-colors";
+
+/** A single-choice row of chips backed by real radio inputs */
+const ChipGroup: React.FC<{
+    name: keyof ContactSubmission;
+    label: string;
+    options: readonly string[];
+    value: string;
+    error?: string;
+    onChange: (value: string) => void;
+}> = ({ name, label, options, value, error, onChange }) => (
+    <fieldset aria-invalid={Boolean(error)} aria-describedby={error ? `${name}-error` : undefined}>
+        <legend className="sr-only">{label}</legend>
+        <FieldLabel label={label} error={error} errorId={`${name}-error`} />
+        <div className="flex flex-wrap gap-2">
+            {options.map((option) => {
+                const checked = value === option;
+                return (
+                    <label
+                        key={option}
+                        className={`px-4 py-1.5 rounded-full border font-sans text-[10px] uppercase tracking-[0.2em] cursor-pointer transition-colors duration-300 nav-link has-[:focus-visible]:outline has-[:focus-visible]:outline-1 has-[:focus-visible]:outline-[var(--color-accent)] ${checked
+                            ? "border-[var(--color-accent)] bg-[var(--color-accent)] text-[var(--color-bg)]"
+                            : "border-[var(--color-border)] text-[var(--color-text-dim)] hover:border-[var(--color-accent)] hover:text-[var(--color-accent)]"
+                            }`}
+                    >
+                        <input
+                            type="radio"
+                            name={name}
+                            value={option}
+                            checked={checked}
+                            onChange={() => onChange(option)}
+                            className="sr-only"
+                        />
+                        {option}
+                    </label>
+                );
+            })}
+        </div>
+    </fieldset>
+);
+
+/* --------------------------------------------------------------------------
+ * ContactForm
+ * -------------------------------------------------------------------------- */
+
+/**
+ * ContactForm — Validated contact form with a pluggable backend.
+ */
+const ContactForm: React.FC<ContactFormProps> = ({ submitter = defaultSubmitter }) => {
+    const [values, setValues] = useState<FormValues>(EMPTY_VALUES);
+    const [touched, setTouched] = useState<Partial<Record<keyof ContactSubmission, boolean>>>({});
+    const [serverErrors, setServerErrors] = useState<ContactFieldErrors>({});
+    const [status, setStatus] = useState<FormStatus>("idle");
+    /** How the last successful submission left — decides the success card */
+    const [delivery, setDelivery] = useState<ContactDelivery>("sent");
+    const [honeypot, setHoneypot] = useState("");
+
+    const formRef = useRef<HTMLFormElement>(null);
+    const submitRef = useRef<HTMLButtonElement>(null);
+    const successRef = useRef<HTMLDivElement>(null);
+
+    /* Local rules re-run on every change; server errors show until the field is edited */
+    const localErrors = validateContactSubmission(values);
+    const visibleError = (field: keyof ContactSubmission) =>
+        serverErrors[field] ?? (touched[field] ? localErrors[field] : undefined);
+
+    const setField = useCallback((field: keyof ContactSubmission, value: string) => {
+        setValues((prev) => ({ ...prev, [field]: value }));
+        setServerErrors((prev) => ({ ...prev, [field]: undefined }));
+    }, []);
+
+    const touch = useCallback((field: keyof ContactSubmission) => {
+        setTouched((prev) => ({ ...prev, [field]: true }));
+    }, []);
+
+    /** Horizontal "nope" shake on the submit button */
+    const shake = useCallback(() => {
+        if (!submitRef.current) return;
+        gsap.fromTo(submitRef.current, { x: -10 }, { x: 0, duration: 0.6, ease: "elastic.out(1, 0.3)" });
+    }, []);
+
+    /** Fields drop away (slightly scattered) before the success card swaps in */
+    const playExit = useCallback(() => new Promise<void>((resolve) => {
+        const rows = formRef.current?.querySelectorAll(".form-row");
+        if (!rows || rows.length === 0) return resolve();
+
+        gsap.to(rows, {
+            opacity: 0,
+            y: 30,
+            rotate: (i: number) => (i % 2 === 0 ? -2 : 2),
+            stagger: 0.05,
+            duration: 0.35,
+            ease: "power2.in",
+            onComplete: resolve,
+        });
+    }), []);
+
+    /* -------------------------------------------------------------------------
+     * Submit
+     * ----------------------------------------------------------------------- */
+    const handleSubmit = useCallback(async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (status === "submitting") return;
+
+        /* Bots fill every field they find — pretend it worked and move on */
+        if (honeypot) {
+            await playExit();
+            setDelivery("sent");
+            setStatus("success");
+            return;
+        }
+
+        if (Object.keys(localErrors).length > 0) {
+            setTouched({ name: true, email: true, projectType: true, budget: true, message: true });
+            shake();
+            return;
+        }
+
+        setStatus("submitting");
+        try {
+            const result = await submitter.submit({
+                ...values,
+                name: values.name.trim(),
+                email: values.email.trim(),
+                message: values.message.trim(),
+            } as ContactSubmission);
+            await playExit();
+            setDelivery(result);
+            setStatus("success");
+        } catch (error) {
+            if (error instanceof ContactSubmitError && error.fieldErrors) {
+                setServerErrors(error.fieldErrors);
+            }
+            setStatus("error");
+            shake();
+        }
+    }, [status, honeypot, localErrors, values, submitter, shake, playExit]);
+
+    const handleReset = useCallback(() => {
+        setValues(EMPTY_VALUES);
+        setTouched({});
+        setServerErrors({});
+        setStatus("idle");
+    }, []);
+
+    /* -------------------------------------------------------------------------
+     * Success transition — fields fall away, the card stamps in
+     * ----------------------------------------------------------------------- */
+    useEffect(() => {
+        if (status !== "success" || !successRef.current) return;
+
+        const tl = gsap.timeline();
+        tl.fromTo(
+            successRef.current,
+            { opacity: 0, scale: 1.15, rotate: -8 },
+            { opacity: 1, scale: 1, rotate: -2, duration: 0.6, ease: "back.out(1.7)" }
+        ).fromTo(
+            successRef.current.querySelectorAll(".success-line"),
+            { opacity: 0, y: 10 },
+            { opacity: 1, y: 0, stagger: 0.1, duration: 0.4, ease: "power2.out" },
+            "-=0.2"
+        );
+
+        return () => {
+            tl.kill();
+        };
+    }, [status]);
+
+    if (status === "success") {
+        return (
+            <div
+                ref={successRef}
+                role="status"
+                className="film-card bg-[var(--color-surface)] p-10 md:p-16 rounded-sm max-w-xl mx-auto text-center"
+            >
+                {delivery === "handed-off" ? (
+                    <>
+                        <Icon icon="lucide:mail" width={40} className="success-line mx-auto text-[var(--color-accent)]" />
+                        <h3 className="success-line font-display text-4xl md:text-5xl text-[var(--color-text)] mt-6">
+                            Almost there.
+                        </h3>
+                        <p className="success-line font-sans text-base text-[var(--color-text-dim)] leading-relaxed mt-6">
+                            Your mail app should have opened with the message ready — hit send there. Nothing
+                            opened? Write to{" "}
+                            <a href={`mailto:${CONTACT_EMAIL}`} className="text-[var(--color-text)] underline underline-offset-4">
+                                {CONTACT_EMAIL}
+                            </a>{" "}
+                            directly.
+                        </p>
+                    </>
+                ) : (
+                    <>
+                        <Icon icon="lucide:radio-tower" width={40} className="success-line mx-auto text-[var(--color-accent)]" />
+                        <h3 className="success-line font-display text-4xl md:text-5xl text-[var(--color-text)] mt-6">
+                            Signal received.
+                        </h3>
+                        <p className="success-line font-sans text-base text-[var(--color-text-dim)] leading-relaxed mt-6">
+                            Your message made it through the noise. I'll write back from{" "}
+                            <span className="text-[var(--color-text)]">{CONTACT_EMAIL}</span> — usually within a few days.
+                        </p>
+                    </>
+                )}
+                <button
+                    type="button"
+                    onClick={handleReset}
+                    className="success-line group mt-10 inline-flex items-center gap-3 font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors duration-300 nav-link"
+                >
+                    <Icon icon="lucide:rotate-ccw" className="group-hover:-rotate-180 transition-transform duration-500" />
+                    <span>Send another</span>
+                </button>
+            </div>
+        );
+    }
+
+    const nameError = visibleError("name");
+    const emailError = visibleError("email");
+    const messageError = visibleError("message");
+
+    return (
+        <form ref={formRef} onSubmit={handleSubmit} noValidate className="grid grid-cols-1 md:grid-cols-2 gap-x-12 gap-y-10">
+            {/* ---- Name / Email ---- */}
+            <div className="form-row">
+                <FieldLabel htmlFor="contact-name" label="Who's asking" error={nameError} errorId="name-error" />
+                <input
+                    id="contact-name"
+                    name="name"
+                    type="text"
+                    autoComplete="name"
+                    value={values.name}
+                    onChange={(e) => setField("name", e.target.value)}
+                    onBlur={() => touch("name")}
+                    aria-invalid={Boolean(nameError)}
+                    aria-describedby={nameError ? "name-error" : undefined}
+                    placeholder="Your name"
+                    className={INPUT_CLASS}
+                />
+            </div>
+            <div className="form-row">
+                <FieldLabel htmlFor="contact-email" label="Where to reply" error={emailError} errorId="email-error" />
+                <input
+                    id="contact-email"
+                    name="email"
+                    type="email"
+                    autoComplete="email"
+                    value={values.email}
+                    onChange={(e) => setField("email", e.target.value)}
+                    onBlur={() => touch("email")}
+                    aria-invalid={Boolean(emailError)}
+                    aria-describedby={emailError ? "email-error" : undefined}
+                    placeholder="you@somewhere.com"
+                    className={INPUT_CLASS}
+                />
+            </div>
+
+            {/* ---- Project type / Budget ---- */}
+            <div className="form-row md:col-span-2">
+                <ChipGroup
+                    name="projectType"
+                    label="What are we making"
+                    options={PROJECT_TYPES}
+                    value={values.projectType}
+                    error={visibleError("projectType")}
+                    onChange={(value) => {
+                        setField("projectType", value);
+                        touch("projectType");
+                    }}
+                />
+            </div>
+            <div className="form-row md:col-span-2">
+                <ChipGroup
+                    name="budget"
+                    label="Ballpark budget"
+                    options={BUDGET_RANGES}
+                    value={values.budget}
+                    error={visibleError("budget")}
+                    onChange={(value) => {
+                        setField("budget", value);
+                        touch("budget");
+                    }}
+                />
+            </div>
+
+            {/* ---- Message ---- */}
+            <div className="form-row md:col-span-2">
+                <FieldLabel htmlFor="contact-message" label="The idea, however raw" error={messageError} errorId="message-error" />
+                <textarea
+                    id="contact-message"
+                    name="message"
+                    rows={5}
+                    maxLength={MESSAGE_MAX_LENGTH}
+                    value={values.message}
+                    onChange={(e) => setField("message", e.target.value)}
+                    onBlur={() => touch("message")}
+                    aria-invalid={Boolean(messageError)}
+                    aria-describedby={messageError ? "message-error" : undefined}
+                    placeholder="Tell me what's keeping you up at night…"
+                    className={`${INPUT_CLASS} resize-none leading-relaxed`}
+                />
+            </div>
+
+            {/* ---- Honeypot — hidden from people and screen readers, bait for bots ---- */}
+            <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+                <label htmlFor="contact-website">Website</label>
+                <input
+                    id="contact-website"
+                    name="website"
+                    type="text"
+                    tabIndex={-1}
+                    autoComplete="off"
+                    value={honeypot}
+                    onChange={(e) => setHoneypot(e.target.value)}
+                />
+            </div>
+
+            {/* ---- Submit + status ---- */}
+            <div className="form-row md:col-span-2 flex flex-col md:flex-row md:items-center gap-6">
+                <button
+                    ref={submitRef}
+                    type="submit"
+                    disabled={status === "submitting"}
+                    className="group inline-flex items-center justify-center gap-3 px-8 py-4 rounded-full border border-[var(--color-accent)] font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:bg-[var(--color-accent)] hover:text-[var(--color-bg)] disabled:opacity-50 disabled:pointer-events-none transition-colors duration-300 nav-link"
+                >
+                    <span>{status === "submitting" ? "Transmitting…" : "Send the signal"}</span>
+                    <Icon
+                        icon={status === "submitting" ? "lucide:loader-circle" : "lucide:arrow-up-right"}
+                        className={status === "submitting" ? "animate-spin" : "group-hover:translate-x-1 group-hover:-translate-y-1 transition-transform"}
+                    />
+                </button>
+
+                {status === "error" && (
+                    <p role="alert" className="font-sans text-sm text-[var(--color-text-dim)] leading-relaxed">
+                        <span className="font-display text-[var(--color-accent)]">Static on the line.</span>{" "}
+                        The message didn't make it — try again, or write to{" "}
+                        <a href={`mailto:${CONTACT_EMAIL}`} className="text-[var(--color-text)] underline underline-offset-4">
+                            {CONTACT_EMAIL}
+                        </a>
+                        .
+                    </p>
+                )}
+            </div>
+        </form>
+    );
+};
+
+export default ContactForm;
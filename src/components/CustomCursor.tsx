@@ -18,10 +18,13 @@
  *
  * Architecture:
  *   All animation is performed outside React's render cycle using refs
- *   and requestAnimationFrame for maximum performance.
+ *   and the shared frame loop (`lib/scheduler`) for maximum performance.
  * ========================================================================== */
 
 import React, { useEffect, useRef, useCallback } from "react";
+import { TICK_MS as MOOD_TICK_MS } from "../lib/autoMood";
+import { reportCursorSpeed } from "../lib/moodSignals";
+import { registerLoop } from "../lib/scheduler";
 
 /**
  * CustomCursor — Context-aware cursor with ink trail.
@@ -35,7 +38,6 @@ const CustomCursor: React.FC = () => {
     const trailCanvasRef = useRef<HTMLCanvasElement>(null);
     const mousePos = useRef({ x: 0, y: 0 });
     const cursorPos = useRef({ x: 0, y: 0 });
-    const rafId = useRef<number>(0);
     const isTouch = useRef(false);
     const currentState = useRef<string>("default");
 
@@ -124,6 +126,12 @@ const CustomCursor: React.FC = () => {
         };
         updateAccentColor();
 
+        /* Theme changes only mark the colour stale; the frame loop re-reads it
+         * at most once per auto-mood step, so a blending palette doesn't cost
+         * a style recalc on every write */
+        let isColorStale = false;
+        let sinceColorRead = 0;
+
         const resizeTrailCanvas = () => {
             if (!trailCanvas) return;
             trailCanvas.width = window.innerWidth;
@@ -141,13 +149,24 @@ const CustomCursor: React.FC = () => {
 
         /* ---- Animation loop ---- */
         let frameCount = 0;
-        const animate = () => {
+        const animate = (delta: number) => {
+            sinceColorRead += delta;
+            if (isColorStale && sinceColorRead >= MOOD_TICK_MS) {
+                isColorStale = false;
+                sinceColorRead = 0;
+                updateAccentColor();
+            }
+
             const dx = mousePos.current.x - cursorPos.current.x;
             const dy = mousePos.current.y - cursorPos.current.y;
 
             cursorPos.current.x += dx * 0.15;
             cursorPos.current.y += dy * 0.15;
 
+            /* How far the cursor still has to travel — a cheap velocity */
+            const speed = Math.sqrt(dx * dx + dy * dy);
+            reportCursorSpeed(speed);
+
             if (cursorRef.current) {
                 cursorRef.current.style.transform = `translate(${cursorPos.current.x}px, ${cursorPos.current.y}px) translate(-50%, -50%)`;
             }
@@ -165,7 +184,6 @@ const CustomCursor: React.FC = () => {
                 trailCtx.fillRect(0, 0, trailCanvas.width, trailCanvas.height);
 
                 /* Draw ink dot at cursor position */
-                const speed = Math.sqrt(dx * dx + dy * dy);
                 const radius = Math.min(3 + speed * 0.08, 8);
 
                 trailCtx.beginPath();
@@ -181,35 +199,34 @@ const CustomCursor: React.FC = () => {
             }
 
             frameCount++;
-            rafId.current = requestAnimationFrame(animate);
         };
 
-        rafId.current = requestAnimationFrame(animate);
+        /* Always on screen, so it only rests while the tab is hidden */
+        const loop = registerLoop({ name: "Cursor trail", tick: animate });
 
         /* Set up hover detection */
         updateHoverTargets();
 
-        /* MutationObserver for dynamic content + theme updates */
-        const observer = new MutationObserver((mutations) => {
-            let shouldUpdateTargets = false;
-            let shouldUpdateColor = false;
-
-            mutations.forEach(m => {
-                if (m.type === "childList") shouldUpdateTargets = true;
-                if (m.type === "attributes" && m.attributeName === "data-mood") shouldUpdateColor = true;
-            });
+        /* MutationObservers for dynamic content + theme updates. The theme
+         * lives on <html> and <body> only (`style` carries the auto mood's
+         * inline palette), so that one doesn't watch the subtree, where GSAP
+         * writes inline styles every frame */
+        const contentObserver = new MutationObserver(() => updateHoverTargets());
+        contentObserver.observe(document.body, { childList: true, subtree: true });
 
-            if (shouldUpdateTargets) updateHoverTargets();
-            if (shouldUpdateColor) updateAccentColor();
+        const themeObserver = new MutationObserver(() => {
+            isColorStale = true;
         });
-        observer.observe(document.body, { childList: true, subtree: true, attributes: true, attributeFilter: ["data-mood"] });
-        observer.observe(document.documentElement, { attributes: true, attributeFilter: ["data-mood"] });
+        const themeAttributes = ["data-mood", "data-scheme", "style"];
+        themeObserver.observe(document.documentElement, { attributes: true, attributeFilter: themeAttributes });
+        themeObserver.observe(document.body, { attributes: true, attributeFilter: themeAttributes });
 
         return () => {
             document.removeEventListener("mousemove", handleMouseMove);
             window.removeEventListener("resize", resizeTrailCanvas);
-            cancelAnimationFrame(rafId.current);
-            observer.disconnect();
+            loop.dispose();
+            contentObserver.disconnect();
+            themeObserver.disconnect();
         };
     }, [updateHoverTargets]);
 
@@ -0,0 +1,70 @@
+/* ==========================================================================
+ * DemoErrorBoundary Component
+ * ==========================================================================
+ * Catches a Lab demo that fails — most often its lazy chunk not loading
+ * (offline, or a deploy that replaced it) — and shows an inline "failed
+ * to load" card with a retry, instead of letting the error take down the
+ * whole app.
+ *
+ * Props:
+ *   @prop onRetry  — Called before the demo is rendered again (e.g. to
+ *                    start a fresh download).
+ *   @prop children — The demo, usually inside a <Suspense>.
+ * ========================================================================== */
+
+import React from "react";
+import { Icon } from "@iconify/react";
+
+interface DemoErrorBoundaryProps {
+    onRetry: () => void;
+    children: React.ReactNode;
+}
+
+interface DemoErrorBoundaryState {
+    error: Error | null;
+}
+
+/**
+ * DemoErrorBoundary — Error boundary for one live demo.
+ */
+class DemoErrorBoundary extends React.Component<DemoErrorBoundaryProps, DemoErrorBoundaryState> {
+    state: DemoErrorBoundaryState = { error: null };
+
+    static getDerivedStateFromError(error: Error): DemoErrorBoundaryState {
+        return { error };
+    }
+
+    handleRetry = () => {
+        this.props.onRetry();
+        this.setState({ error: null });
+    };
+
+    render() {
+        const { error } = this.state;
+        if (!error) return this.props.children;
+
+        return (
+            <div
+                role="alert"
+                className="w-full aspect-[16/9] flex flex-col items-center justify-center gap-4 px-6 text-center border border-dashed border-[var(--color-border)] rounded-sm"
+            >
+                <p className="font-display text-2xl text-[var(--color-text)] -rotate-1">
+                    The demo failed to load.
+                </p>
+                <p className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)] max-w-md">
+                    {error.message}
+                </p>
+                <button
+                    type="button"
+                    onClick={this.handleRetry}
+                    className="group mt-2 inline-flex items-center gap-3 font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors duration-300 nav-link"
+                >
+                    <Icon icon="lucide:rotate-ccw" className="group-hover:-rotate-180 transition-transform duration-500" />
+                    <span>Try again</span>
+                </button>
+            </div>
+        );
+    }
+}
+
+export default DemoErrorBoundary;
@@ -0,0 +1,33 @@
+import React from "react";
+
+interface FilterChipProps {
+    /** Chip text */
+    label: string;
+    /** Whether this filter is currently applied */
+    active: boolean;
+    /** Toggle callback */
+    onClick: () => void;
+    /** Optional number of matching items, shown after the label */
+    count?: number;
+}
+
+/**
+ * FilterChip — One toggleable filter pill, shared by the story feed and
+ * Lab filter bars. Chips with a `count` of 0 stay clickable but fade back.
+ */
+const FilterChip: React.FC<FilterChipProps> = ({ label, active, onClick, count }) => (
+    <button
+        type="button"
+        aria-pressed={active}
+        onClick={onClick}
+        className={`inline-flex items-center gap-2 px-4 py-1.5 rounded-full border font-sans text-[10px] uppercase tracking-[0.2em] transition-colors duration-300 nav-link ${active
+            ? "border-[var(--color-accent)] bg-[var(--color-accent)] text-[var(--color-bg)]"
+            : "border-[var(--color-border)] text-[var(--color-text-dim)] hover:border-[var(--color-accent)] hover:text-[var(--color-accent)]"
+            } ${count === 0 && !active ? "opacity-40" : ""}`}
+    >
+        {label}
+        {count !== undefined && <span className="font-mono opacity-60">{count}</span>}
+    </button>
+);
+
+export default FilterChip;
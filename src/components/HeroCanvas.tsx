@@ -11,396 +11,196 @@
  *   the noise field distorts MORE near the cursor — turbulence increases
  *   with proximity, reinforcing the "khaotic" brand.
  *
+ *   The same field can instead be drawn as flow-line strokes, ASCII
+ *   glyphs or drifting particles (`mode`), all in the mood's text and
+ *   accent colours. Pressing F opens a small hidden panel to switch modes
+ *   live (`HeroFieldPanel`).
+ *
  * Performance:
- *   • Uses requestAnimationFrame for smooth 60fps rendering
+ *   • Rendered in a Web Worker on an OffscreenCanvas where supported, so
+ *     GSAP, Lenis and the cursor trail keep the main thread; elsewhere the
+ *     same loop runs in-thread (`lib/heroFieldHost`)
+ *   • Draws with a WebGL fragment shader when it can (`lib/heroFieldGL`),
+ *     falling back to one Canvas 2D arc per dot (`lib/heroField`)
+ *   • A quality governor steps the tier (pixel ratio, turbulence, grid
+ *     density) down when frames drop — `data-renderer`, `data-thread` and
+ *     `data-quality` on the canvas wrapper show what's running
  *   • Dot grid resolution is configurable (lower = better perf)
- *   • Mouse position is tracked via refs (zero re-renders)
- *   • Canvas auto-resizes on window resize via ResizeObserver
+ *   • The field stops drawing while the hero is off-screen or the tab is
+ *     hidden (`lib/scheduler`)
+ *   • Mouse, size, DPR and colour changes are posted to the field (zero
+ *     re-renders)
  *
  * Architecture:
- *   The Simplex noise implementation is embedded directly in this file
- *   to avoid external dependencies. It's a well-known algorithm based
- *   on Stefan Gustavson's optimised implementation.
+ *   The Simplex noise implementation lives in `src/lib/noise.ts` (no
+ *   external dependencies) — a well-known algorithm based on Stefan
+ *   Gustavson's optimised implementation. `createNoise(seed)` gives the
+ *   field its own permutation table, so a seed always draws the same field.
  *
- * Props:
- *   None — this component is self-contained and manages its own animation.
+ * Props (all optional — the defaults are the original hero):
+ *   @prop mode            — "dots", "flow", "ascii" or "particles".
+ *   @prop spacing         — Distance in px between dots.
+ *   @prop scale           — Noise zoom; smaller = larger, smoother blobs.
+ *   @prop speed           — How fast the field flows (noise units per ms).
+ *   @prop influenceRadius — Reach of the cursor's turbulence, in px.
+ *   @prop seed            — Seed for the noise table (omit for the classic one).
  * ========================================================================== */
 
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import gsap from "gsap";
 import { ScrollTrigger } from "gsap/ScrollTrigger";
+import HeroFieldPanel from "./HeroFieldPanel";
 import { useMood } from "../context/MoodContext";
+import { readCssColor, type RGB } from "../lib/color";
+import type { FieldControls, FieldMode, FieldSettings } from "../lib/heroField";
+import { createFieldHost, type FieldStatus } from "../lib/heroFieldHost";
+import { registerLoop } from "../lib/scheduler";
 
 gsap.registerPlugin(ScrollTrigger);
 
-/* ==========================================================================
- * Simplex Noise — Embedded Implementation
- * ==========================================================================
- * A compact 3D simplex noise function. Produces smooth, natural-looking
- * pseudo-random values in the range [-1, 1] for any (x, y, z) input.
- *
- * Based on Stefan Gustavson's paper "Simplex noise demystified".
- * We use 3D noise so the third axis (z) can serve as a "time" dimension,
- * creating flowing animation without needing to regenerate the noise field.
- * ========================================================================== */
-
-/** Gradient vectors for 3D simplex noise — 12 directions */
-const GRAD3: number[][] = [
-    [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
-    [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
-    [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
-];
-
-/** Permutation table — shuffled integers 0-255, doubled for wrapping */
-const PERM: number[] = (() => {
-    const p = [
-        151, 160, 137, 91, 90, 15, 131, 13, 201, 95, 96, 53, 194, 233, 7, 225,
-        140, 36, 103, 30, 69, 142, 8, 99, 37, 240, 21, 10, 23, 190, 6, 148,
-        247, 120, 234, 75, 0, 26, 197, 62, 94, 252, 219, 203, 117, 35, 11, 32,
-        57, 177, 33, 88, 237, 149, 56, 87, 174, 20, 125, 136, 171, 168, 68, 175,
-        74, 165, 71, 134, 139, 48, 27, 166, 77, 146, 158, 231, 83, 111, 229, 122,
-        60, 211, 133, 230, 220, 105, 92, 41, 55, 46, 245, 40, 244, 102, 143, 54,
-        65, 25, 63, 161, 1, 216, 80, 73, 209, 76, 132, 187, 208, 89, 18, 169,
-        200, 196, 135, 130, 116, 188, 159, 86, 164, 100, 109, 198, 173, 186, 3, 64,
-        52, 217, 226, 250, 124, 123, 5, 202, 38, 147, 118, 126, 255, 82, 85, 212,
-        207, 206, 59, 227, 47, 16, 58, 17, 182, 189, 28, 42, 223, 183, 170, 213,
-        119, 248, 152, 2, 44, 154, 163, 70, 221, 153, 101, 155, 167, 43, 172, 9,
-        129, 22, 39, 253, 19, 98, 108, 110, 79, 113, 224, 232, 178, 185, 112, 104,
-        218, 246, 97, 228, 251, 34, 242, 193, 238, 210, 144, 12, 191, 179, 162, 241,
-        81, 51, 145, 235, 249, 14, 239, 107, 49, 192, 214, 31, 181, 199, 106, 157,
-        184, 84, 204, 176, 115, 121, 50, 45, 127, 4, 150, 254, 138, 236, 205, 93,
-        222, 114, 67, 29, 24, 72, 243, 141, 128, 195, 78, 66, 215, 61, 156, 180,
-    ];
-    /* Double the table to avoid modular indexing */
-    return [...p, ...p];
-})();
-
-/**
- * dot3 — Dot product of a gradient vector and a (dx, dy, dz) offset.
- * Used to project the simplex corner contribution onto the gradient.
- */
-function dot3(g: number[], x: number, y: number, z: number): number {
-    return g[0] * x + g[1] * y + g[2] * z;
-}
-
-/**
- * simplex3 — Compute 3D simplex noise at coordinates (xin, yin, zin).
- *
- * @returns A value in the range [-1, 1].
- */
-function simplex3(xin: number, yin: number, zin: number): number {
-    /* Skewing and unskewing factors for 3D */
-    const F3 = 1.0 / 3.0;
-    const G3 = 1.0 / 6.0;
-
-    /* Skew the input space to determine which simplex cell we're in */
-    const s = (xin + yin + zin) * F3;
-    const i = Math.floor(xin + s);
-    const j = Math.floor(yin + s);
-    const k = Math.floor(zin + s);
-
-    const t = (i + j + k) * G3;
-
-    /* Unskew the cell origin back to (x,y,z) space */
-    const X0 = i - t;
-    const Y0 = j - t;
-    const Z0 = k - t;
-
-    /* Distances from cell origin */
-    const x0 = xin - X0;
-    const y0 = yin - Y0;
-    const z0 = zin - Z0;
-
-    /* Determine which simplex we are in (3D has 6 possible simplices) */
-    let i1: number, j1: number, k1: number;
-    let i2: number, j2: number, k2: number;
-
-    if (x0 >= y0) {
-        if (y0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
-        else if (x0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 0; k2 = 1; }
-        else { i1 = 0; j1 = 0; k1 = 1; i2 = 1; j2 = 0; k2 = 1; }
-    } else {
-        if (y0 < z0) { i1 = 0; j1 = 0; k1 = 1; i2 = 0; j2 = 1; k2 = 1; }
-        else if (x0 < z0) { i1 = 0; j1 = 1; k1 = 0; i2 = 0; j2 = 1; k2 = 1; }
-        else { i1 = 0; j1 = 1; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
-    }
-
-    /* Offsets for the remaining corners */
-    const x1 = x0 - i1 + G3;
-    const y1 = y0 - j1 + G3;
-    const z1 = z0 - k1 + G3;
-    const x2 = x0 - i2 + 2.0 * G3;
-    const y2 = y0 - j2 + 2.0 * G3;
-    const z2 = z0 - k2 + 2.0 * G3;
-    const x3 = x0 - 1.0 + 3.0 * G3;
-    const y3 = y0 - 1.0 + 3.0 * G3;
-    const z3 = z0 - 1.0 + 3.0 * G3;
-
-    /* Permutation table indices for hashing */
-    const ii = i & 255;
-    const jj = j & 255;
-    const kk = k & 255;
-
-    /* Calculate contributions from each corner */
-    let n0 = 0, n1 = 0, n2 = 0, n3 = 0;
-
-    let t0 = 0.6 - x0 * x0 - y0 * y0 - z0 * z0;
-    if (t0 >= 0) {
-        t0 *= t0;
-        const gi0 = PERM[ii + PERM[jj + PERM[kk]]] % 12;
-        n0 = t0 * t0 * dot3(GRAD3[gi0], x0, y0, z0);
-    }
-
-    let t1 = 0.6 - x1 * x1 - y1 * y1 - z1 * z1;
-    if (t1 >= 0) {
-        t1 *= t1;
-        const gi1 = PERM[ii + i1 + PERM[jj + j1 + PERM[kk + k1]]] % 12;
-        n1 = t1 * t1 * dot3(GRAD3[gi1], x1, y1, z1);
-    }
-
-    let t2 = 0.6 - x2 * x2 - y2 * y2 - z2 * z2;
-    if (t2 >= 0) {
-        t2 *= t2;
-        const gi2 = PERM[ii + i2 + PERM[jj + j2 + PERM[kk + k2]]] % 12;
-        n2 = t2 * t2 * dot3(GRAD3[gi2], x2, y2, z2);
-    }
-
-    let t3 = 0.6 - x3 * x3 - y3 * y3 - z3 * z3;
-    if (t3 >= 0) {
-        t3 *= t3;
-        const gi3 = PERM[ii + 1 + PERM[jj + 1 + PERM[kk + 1]]] % 12;
-        n3 = t3 * t3 * dot3(GRAD3[gi3], x3, y3, z3);
-    }
-
-    /* Scale result to [-1, 1] */
-    return 32.0 * (n0 + n1 + n2 + n3);
-}
-
 /* ==========================================================================
  * HeroCanvas Component
  * ========================================================================== */
 
 /**
- * DOT_SPACING — Distance in pixels between each dot in the noise grid.
+ * DOT_SPACING — Default distance in pixels between each dot in the noise grid.
  * Lower values = denser grid = more detail but more CPU. 18–24 is a
  * good balance between visual density and performance.
  */
 const DOT_SPACING = 20;
 
 /**
- * BASE_DOT_RADIUS — The default radius of each dot (in pixels).
- */
-const BASE_DOT_RADIUS = 1.2;
-
-/**
- * NOISE_SCALE — Controls how "zoomed in" the noise pattern is.
+ * NOISE_SCALE — Default for how "zoomed in" the noise pattern is.
  * Smaller values = larger, smoother blobs. Larger = more turbulent detail.
  */
 const NOISE_SCALE = 0.004;
 
 /**
- * TIME_SPEED — How fast the noise field animates over time.
+ * TIME_SPEED — Default for how fast the noise field animates over time.
  * Controls the "flow" speed of the organic patterns.
  */
 const TIME_SPEED = 0.0003;
 
 /**
- * MOUSE_INFLUENCE_RADIUS — The radius (in pixels) within which the mouse
+ * MOUSE_INFLUENCE_RADIUS — Default radius (in pixels) within which the mouse
  * affects the noise field. Dots closer than this to the cursor get extra
  * turbulence, larger radii, and brighter intensity.
  */
 const MOUSE_INFLUENCE_RADIUS = 250;
 
+interface HeroCanvasProps {
+    /** What the field is drawn as */
+    mode?: FieldMode;
+    /** Distance in px between dots */
+    spacing?: number;
+    /** Noise zoom — smaller = larger, smoother blobs */
+    scale?: number;
+    /** Flow speed in noise units per ms */
+    speed?: number;
+    /** Reach of the cursor's turbulence, in px */
+    influenceRadius?: number;
+    /** Seed for the noise table; omit for the classic table */
+    seed?: number;
+}
+
 /**
  * HeroCanvas — Fullscreen generative noise field that reacts to the mouse.
  */
-const HeroCanvas: React.FC = () => {
-    const { mood } = useMood();
+const HeroCanvas: React.FC<HeroCanvasProps> = ({
+    mode = "dots",
+    spacing = DOT_SPACING,
+    scale = NOISE_SCALE,
+    speed = TIME_SPEED,
+    influenceRadius = MOUSE_INFLUENCE_RADIUS,
+    seed,
+}) => {
+    const { mood, scheme } = useMood();
+
+    /** The mode on screen — starts from the prop, switchable from the panel */
+    const [fieldMode, setFieldMode] = useState(mode);
+    const [status, setStatus] = useState<FieldStatus | null>(null);
+
+    useEffect(() => {
+        setFieldMode(mode);
+    }, [mode]);
+
     /* -------------------------------------------------------------------------
      * Refs
      * ----------------------------------------------------------------------- */
 
-    /** The <canvas> DOM element */
-    const canvasRef = useRef<HTMLCanvasElement>(null);
+    /** Holds the field's <canvas> (created by the host, so a fresh one can
+     * replace a canvas that was handed to a worker) */
+    const fieldRef = useRef<HTMLDivElement>(null);
 
     /** The container div — used by ResizeObserver to track viewport changes */
     const containerRef = useRef<HTMLDivElement>(null);
 
-    /** The 2D rendering context (cached to avoid re-fetching each frame) */
-    const ctxRef = useRef<CanvasRenderingContext2D | null>(null);
-
-    /** Current mouse position in viewport coordinates */
-    const mouseRef = useRef({ x: -9999, y: -9999 });
-
-    /** requestAnimationFrame ID for cleanup */
-    const rafRef = useRef<number>(0);
-
-    /** Cached theme colors to avoid layout thrashing in the loop */
-    const colorsRef = useRef({
-        tr: 255,
-        tg: 255,
-        tb: 255,
-        ar: 255,
-        ag: 255,
-        ab: 255,
-    });
-
-    /* -------------------------------------------------------------------------
-     * Color Parser — Robust Hex/RGB/RGBA handling
-     * ----------------------------------------------------------------------- */
-    const parseRGBValues = (colorStr: string) => {
-        /* Remove whitespace */
-        const clean = colorStr.trim().toLowerCase();
-
-        /* Handle Hex (#ffffff or #fff) */
-        if (clean.startsWith("#")) {
-            let fullHex = clean;
-            if (clean.length === 4) {
-                fullHex = `#${clean[1]}${clean[1]}${clean[2]}${clean[2]}${clean[3]}${clean[3]}`;
-            }
-            const r = parseInt(fullHex.slice(1, 3), 16);
-            const g = parseInt(fullHex.slice(3, 5), 16);
-            const b = parseInt(fullHex.slice(5, 7), 16);
-            return isNaN(r) || isNaN(g) || isNaN(b) ? [255, 255, 255] : [r, g, b];
-        }
-
-        /* Handle rgb() or rgba() */
-        const match = clean.match(/\d+/g);
-        if (match && match.length >= 3) {
-            return [Number(match[0]), Number(match[1]), Number(match[2])];
-        }
-
-        return [255, 255, 255];
-    };
+    /** The running field — in a worker or on this thread */
+    const hostRef = useRef<FieldControls | null>(null);
 
-    /** Updates the cached colors by reading current theme variables */
-    const updateCachedColors = () => {
-        const style = window.getComputedStyle(document.body);
-        const textColor = style.getPropertyValue("--color-text").trim();
-        const accentColor = style.getPropertyValue("--color-accent").trim();
+    /** Field settings, as of the last render (the host starts from these) */
+    const settingsRef = useRef<FieldSettings>({ mode: fieldMode, spacing, scale, speed, influenceRadius });
+    const seedRef = useRef(seed);
 
-        const [tr, tg, tb] = parseRGBValues(textColor);
-        const [ar, ag, ab] = parseRGBValues(accentColor);
-
-        colorsRef.current = { tr, tg, tb, ar, ag, ab };
-    };
+    /** readColors — The current theme colours the field draws with */
+    const readColors = (): [RGB, RGB] => [
+        readCssColor(document.body, "--color-text"),
+        readCssColor(document.body, "--color-accent"),
+    ];
 
     /* -------------------------------------------------------------------------
-     * Main Effect — Set up canvas, resize handling, mouse tracking, and
-     * the animation loop.
+     * Main Effect — Start the field (worker first, see `lib/heroFieldHost`),
+     * then feed it resizes, DPR changes, mouse movement and colours.
      * ----------------------------------------------------------------------- */
     useEffect(() => {
-        /* ---- Animation Loop ---- */
-        const animate = () => {
-            const ctx = ctxRef.current;
-            const canvas = canvasRef.current;
-            if (!ctx || !canvas) {
-                rafRef.current = 0;
-                return;
-            }
-
-            const dpr = window.devicePixelRatio || 1;
-            const w = canvas.width / dpr;
-            const h = canvas.height / dpr;
-            const time = Date.now() * TIME_SPEED;
-            const mx = mouseRef.current.x;
-            const my = mouseRef.current.y;
-
-            /* Use cached colors to avoid getComputedStyle layout thrashing */
-            const { tr, tg, tb, ar, ag, ab } = colorsRef.current;
-
-            /* Clear the canvas to fully transparent */
-            ctx.clearRect(0, 0, w, h);
-
-            const cols = Math.ceil(w / DOT_SPACING) + 1;
-            const rows = Math.ceil(h / DOT_SPACING) + 1;
-
-            for (let row = 0; row < rows; row++) {
-                for (let col = 0; col < cols; col++) {
-                    const x = col * DOT_SPACING;
-                    const y = row * DOT_SPACING;
-
-                    const dx = x - mx;
-                    const dy = y - my;
-                    const dist = Math.sqrt(dx * dx + dy * dy);
-
-                    const proximity = Math.max(0, 1 - dist / MOUSE_INFLUENCE_RADIUS);
-
-                    const baseNoise = simplex3(
-                        x * NOISE_SCALE,
-                        y * NOISE_SCALE,
-                        time
-                    );
-
-                    const turbulence =
-                        proximity > 0
-                            ? simplex3(
-                                x * NOISE_SCALE * 3,
-                                y * NOISE_SCALE * 3,
-                                time * 2
-                            ) * proximity * 0.6
-                            : 0;
-
-                    const noiseVal = baseNoise + turbulence;
-                    const brightness = (noiseVal + 1) * 0.5;
-
-                    const baseAlpha = 0.08 + brightness * 0.27;
-                    const cursorBoost = proximity * proximity * 0.6;
-                    const alpha = Math.min(1, baseAlpha + cursorBoost);
-
-                    const radius =
-                        BASE_DOT_RADIUS + brightness * 0.8 + proximity * 2.5;
-
-                    /* Colour mixing: Interpolate between Text color and Accent color based on proximity */
-                    const r = Math.round(tr + proximity * (ar - tr));
-                    const g = Math.round(tg + proximity * (ag - tg));
-                    const b = Math.round(tb + proximity * (ab - tb));
-
-                    ctx.beginPath();
-                    ctx.arc(x, y, radius, 0, Math.PI * 2);
-                    ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${alpha})`;
-                    ctx.fill();
-                }
+        const field = fieldRef.current;
+        const container = containerRef.current;
+        if (!field || !container) return;
+
+        const [text, accent] = readColors();
+        const host = createFieldHost(
+            field,
+            { settings: settingsRef.current, seed: seedRef.current, text, accent },
+            (next) => {
+                field.dataset.renderer = next.renderer;
+                field.dataset.thread = next.thread;
+                field.dataset.quality = next.tier;
+                setStatus(next);
             }
+        );
+        hostRef.current = host;
 
-            rafRef.current = requestAnimationFrame(animate);
-        };
-
-        /* ---- Local resize helper ---- */
-        const resizeCanvas = () => {
-            const canvas = canvasRef.current;
-            const container = containerRef.current;
-            if (!canvas || !container) return;
-
-            const dpr = window.devicePixelRatio || 1;
+        /* ---- Size & pixel ratio ---- */
+        const resizeField = () => {
             const rect = container.getBoundingClientRect();
+            host.resize(rect.width, rect.height, window.devicePixelRatio || 1);
+        };
 
-            canvas.width = rect.width * dpr;
-            canvas.height = rect.height * dpr;
-            canvas.style.width = `${rect.width}px`;
-            canvas.style.height = `${rect.height}px`;
-
-            const ctx = canvas.getContext("2d");
-            if (ctx) {
-                ctx.scale(dpr, dpr);
-                ctxRef.current = ctx;
+        const resizeObserver = new ResizeObserver(() => resizeField());
+        resizeObserver.observe(container);
 
-                if (!rafRef.current) {
-                    rafRef.current = requestAnimationFrame(animate);
-                }
-            }
+        /* Dragging the window to another screen changes DPR without a resize;
+         * a `resolution` query for the current ratio notices */
+        let dprQuery: MediaQueryList | null = null;
+        const watchPixelRatio = () => {
+            dprQuery?.removeEventListener("change", handlePixelRatioChange);
+            dprQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+            dprQuery.addEventListener("change", handlePixelRatioChange);
         };
-
-        /* ---- Initial color cache ---- */
-        updateCachedColors();
+        const handlePixelRatioChange = () => {
+            resizeField();
+            watchPixelRatio();
+        };
+        watchPixelRatio();
 
         /* ---- Listen for mood changes ---- */
-        /* Since mood is applied to the body as 'data-mood', we use a MutationObserver
-         * to refresh our color cache whenever the attribute changes. */
+        /* Since mood is applied to the body as 'data-mood' + 'data-scheme' (or, in
+         * auto mode, as an inline palette), we use a MutationObserver to send
+         * fresh colours whenever any of them changes. */
         const moodObserver = new MutationObserver((mutations) => {
             for (const mutation of mutations) {
-                if (mutation.attributeName === "data-mood" || mutation.attributeName === "class") {
-                    updateCachedColors();
+                if (mutation.attributeName === "data-mood" || mutation.attributeName === "data-scheme" || mutation.attributeName === "style") {
+                    host.setColors(...readColors());
                 }
             }
         });
@@ -408,36 +208,51 @@ const HeroCanvas: React.FC = () => {
 
         /* ---- Mouse tracking ---- */
         const handleMouseMove = (e: MouseEvent) => {
-            const rect = canvasRef.current?.getBoundingClientRect();
-            if (rect) {
-                mouseRef.current.x = e.clientX - rect.left;
-                mouseRef.current.y = e.clientY - rect.top;
-            }
+            const rect = container.getBoundingClientRect();
+            host.setMouse(e.clientX - rect.left, e.clientY - rect.top);
         };
 
-        const handleMouseLeave = () => {
-            mouseRef.current.x = -9999;
-            mouseRef.current.y = -9999;
-        };
+        const handleMouseLeave = () => host.setMouse(-9999, -9999);
 
-        const container = containerRef.current;
-        container?.addEventListener("mousemove", handleMouseMove);
-        container?.addEventListener("mouseleave", handleMouseLeave);
+        container.addEventListener("mousemove", handleMouseMove);
+        container.addEventListener("mouseleave", handleMouseLeave);
 
-        const resizeObserver = new ResizeObserver(() => resizeCanvas());
-        if (container) resizeObserver.observe(container);
+        resizeField();
 
-        resizeCanvas();
+        /* ---- Pause while scrolled away or the tab is hidden ---- */
+        const loop = registerLoop({
+            name: "Hero field",
+            element: container,
+            onActiveChange: (active) => host.setActive(active),
+        });
 
         return () => {
-            cancelAnimationFrame(rafRef.current);
-            rafRef.current = 0;
-            container?.removeEventListener("mousemove", handleMouseMove);
-            container?.removeEventListener("mouseleave", handleMouseLeave);
+            loop.dispose();
+            container.removeEventListener("mousemove", handleMouseMove);
+            container.removeEventListener("mouseleave", handleMouseLeave);
             resizeObserver.disconnect();
+            dprQuery?.removeEventListener("change", handlePixelRatioChange);
             moodObserver.disconnect();
+            host.dispose();
+            hostRef.current = null;
         };
-    }, [mood]);
+    }, []);
+
+    /* ---- Props and mood reach the running field as messages ---- */
+    useEffect(() => {
+        settingsRef.current = { mode: fieldMode, spacing, scale, speed, influenceRadius };
+        hostRef.current?.setSettings(settingsRef.current);
+    }, [fieldMode, spacing, scale, speed, influenceRadius]);
+
+    useEffect(() => {
+        seedRef.current = seed;
+        hostRef.current?.setSeed(seed);
+    }, [seed]);
+
+    /* Belt and braces alongside the observer above */
+    useEffect(() => {
+        hostRef.current?.setColors(...readColors());
+    }, [mood, scheme]);
 
     /* -------------------------------------------------------------------------
      * Ref for the letter container — animated by GSAP ScrollTrigger
@@ -522,6 +337,7 @@ const HeroCanvas: React.FC = () => {
      * Structure:
      *   container (60–70vh)
      *     ├─ <canvas>              — generative noise (1A)
+     *     ├─ field panel           — hidden mode switcher (F)
      *     ├─ letter fragments      — "HARRY MOFOKA" (1B)
      *     ├─ tagline               — "curated chaos" with glitch hover (1B)
      *     └─ bottom gradient       — smooth fade into project cards (1C)
@@ -532,11 +348,10 @@ const HeroCanvas: React.FC = () => {
             className="h-[60vh] md:h-[70vh] w-full relative flex flex-col items-center justify-center overflow-hidden"
         >
             {/* The generative noise canvas — absolute fill, behind all text */}
-            <canvas
-                ref={canvasRef}
-                className="absolute inset-0 w-full h-full"
-                style={{ display: "block" }}
-            />
+            <div ref={fieldRef} className="absolute inset-0" aria-hidden="true" />
+
+            {/* Hidden field controls — F toggles */}
+            <HeroFieldPanel mode={fieldMode} onModeChange={setFieldMode} status={status} />
 
             {/* ============================================================
              * Phase 1B — Fragmented Name Reveal
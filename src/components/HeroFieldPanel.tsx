@@ -0,0 +1,79 @@
+/* ==========================================================================
+ * HeroFieldPanel Component
+ * ==========================================================================
+ * A small control panel for the hero's noise field, hidden until F is
+ * pressed (outside form fields) and put away the same way or with Esc.
+ * Keys are left alone while a dialog (story modal, lightbox) covers the
+ * hero, or once something else has handled them.
+ *
+ * Lists the field modes as chips and, underneath, what's drawing them:
+ * renderer, thread and quality tier, as reported by `lib/heroFieldHost`.
+ *
+ * Props:
+ *   @prop mode         — The mode currently drawn.
+ *   @prop onModeChange — Called with the mode the visitor picks.
+ *   @prop status       — Where the field is running, once known.
+ * ========================================================================== */
+
+import React, { useEffect, useState } from "react";
+import FilterChip from "./FilterChip";
+import { FIELD_MODES, type FieldMode } from "../lib/heroField";
+import type { FieldStatus } from "../lib/heroFieldHost";
+import { isShortcut } from "../lib/keyboard";
+
+/** Key that shows and hides the panel */
+const SHORTCUT_KEY = "f";
+
+/** An open overlay that sits over the hero */
+const DIALOG_SELECTOR = "[aria-modal='true']";
+
+interface HeroFieldPanelProps {
+    mode: FieldMode;
+    onModeChange: (mode: FieldMode) => void;
+    status: FieldStatus | null;
+}
+
+/**
+ * HeroFieldPanel — Mode switcher for the hero field, behind a shortcut.
+ */
+const HeroFieldPanel: React.FC<HeroFieldPanelProps> = ({ mode, onModeChange, status }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    /* ---- Keyboard ---- */
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.defaultPrevented || document.querySelector(DIALOG_SELECTOR)) return;
+            if (isShortcut(e, SHORTCUT_KEY)) setIsOpen((prev) => !prev);
+            else if (e.key === "Escape") setIsOpen(false);
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, []);
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            role="group"
+            aria-label="Hero field"
+            className="absolute top-24 right-4 md:right-8 z-30 max-w-[calc(100%-2rem)] p-4 border border-[var(--color-border)] bg-[var(--color-bg)]/80 backdrop-blur-sm"
+        >
+            <p className="mb-3 font-mono text-[10px] uppercase tracking-widest text-[var(--color-text)]">
+                Field · press F to hide
+            </p>
+            <div className="flex flex-wrap gap-2">
+                {FIELD_MODES.map((name) => (
+                    <FilterChip key={name} label={name} active={name === mode} onClick={() => onModeChange(name)} />
+                ))}
+            </div>
+            {status && (
+                <p className="mt-3 font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]">
+                    {status.renderer} · {status.thread} thread · {status.tier} quality
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default HeroFieldPanel;
@@ -0,0 +1,88 @@
+/* ==========================================================================
+ * LabFilterBar Component
+ * ==========================================================================
+ * Status and tag filters for the Lab catalogue. Like `StoryFilterBar` it's
+ * fully controlled — `LabPage` keeps the selection in the URL.
+ *
+ * Counts are "what you'd get": status counts respect the selected tag and
+ * tag counts respect the selected status, so a chip showing 0 means that
+ * combination is empty (the chip fades but stays clickable).
+ *
+ * Props:
+ *   @prop experiments — The full catalogue (counts are computed from it).
+ *   @prop filters     — The current `ExperimentFilters`.
+ *   @prop onChange    — Called with the next filters.
+ * ========================================================================== */
+
+import React, { useMemo } from "react";
+import FilterChip from "./FilterChip";
+import {
+    countExperimentTags,
+    EXPERIMENT_STATUSES,
+    filterExperiments,
+} from "../data/experiments";
+import type { Experiment, ExperimentFilters } from "../types";
+
+interface LabFilterBarProps {
+    /** Every experiment */
+    experiments: Experiment[];
+    /** Current filter selection */
+    filters: ExperimentFilters;
+    /** Callback fired with the updated filters */
+    onChange: (filters: ExperimentFilters) => void;
+}
+
+/**
+ * LabFilterBar — Status + tag chips with live counts.
+ */
+const LabFilterBar: React.FC<LabFilterBarProps> = ({ experiments, filters, onChange }) => {
+    /* Experiments left once the *other* filter is applied */
+    const withTag = useMemo(() => filterExperiments(experiments, { status: null, tag: filters.tag }), [experiments, filters.tag]);
+    const withStatus = useMemo(() => filterExperiments(experiments, { status: filters.status, tag: null }), [experiments, filters.status]);
+
+    /* Tag list comes from the whole catalogue so chips don't jump around */
+    const tagCounts = useMemo(() => {
+        const visible = new Map(countExperimentTags(withStatus).map(({ tag, count }) => [tag, count]));
+        return countExperimentTags(experiments).map(({ tag }) => ({ tag, count: visible.get(tag) ?? 0 }));
+    }, [experiments, withStatus]);
+
+    return (
+        <div className="flex flex-col gap-6 mb-16">
+            {/* ---- Status ---- */}
+            <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Filter by status">
+                <span className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)] w-16">Status</span>
+                <FilterChip
+                    label="All"
+                    count={withTag.length}
+                    active={filters.status === null}
+                    onClick={() => onChange({ ...filters, status: null })}
+                />
+                {EXPERIMENT_STATUSES.map((status) => (
+                    <FilterChip
+                        key={status}
+                        label={status}
+                        count={withTag.filter((experiment) => experiment.status === status).length}
+                        active={filters.status === status}
+                        onClick={() => onChange({ ...filters, status: filters.status === status ? null : status })}
+                    />
+                ))}
+            </div>
+
+            {/* ---- Tags ---- */}
+            <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Filter by tag">
+                <span className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)] w-16">Tags</span>
+                {tagCounts.map(({ tag, count }) => (
+                    <FilterChip
+                        key={tag}
+                        label={tag}
+                        count={count}
+                        active={filters.tag === tag}
+                        onClick={() => onChange({ ...filters, tag: filters.tag === tag ? null : tag })}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default LabFilterBar;
@@ -0,0 +1,194 @@
+/* ==========================================================================
+ * Lightbox Component
+ * ==========================================================================
+ * A fullscreen viewer for project gallery media. Rendered through a portal
+ * on `document.body` so it sits above the project modal regardless of
+ * where the gallery lives in the tree.
+ *
+ * Features:
+ *   • GSAP fade/scale entrance, and a quick cross-fade between items
+ *   • ←/→ keys step through items (wrapping), Escape closes
+ *   • Horizontal swipe on touch devices via `useSwipe`
+ *   • Videos play with native controls; images use object-contain
+ *
+ * Keyboard events are captured on `window` before they bubble, and marked
+ * with `preventDefault()` so the story navigation and modal underneath
+ * ignore them while the lightbox is open.
+ *
+ * Props:
+ *   @prop items      — The gallery entries to browse.
+ *   @prop index      — The index of the entry currently shown.
+ *   @prop onChange   — Callback fired with the next index to show.
+ *   @prop onClose    — Callback fired to close the lightbox.
+ * ========================================================================== */
+
+import React, { useCallback, useEffect, useRef } from "react";
+import { createPortal } from "react-dom";
+import { Icon } from "@iconify/react";
+import gsap from "gsap";
+import { useSwipe } from "../hooks/useSwipe";
+import type { GalleryItem } from "../types";
+
+interface LightboxProps {
+    /** Gallery entries to browse */
+    items: GalleryItem[];
+    /** Index of the entry currently shown */
+    index: number;
+    /** Callback fired with the index to show next */
+    onChange: (index: number) => void;
+    /** Callback fired to close the lightbox */
+    onClose: () => void;
+}
+
+/**
+ * Lightbox — Fullscreen media viewer with keyboard and swipe navigation.
+ */
+const Lightbox: React.FC<LightboxProps> = ({ items, index, onChange, onClose }) => {
+    const rootRef = useRef<HTMLDivElement>(null);
+    const mediaRef = useRef<HTMLDivElement>(null);
+
+    const item = items[index];
+    const count = items.length;
+
+    const showPrevious = useCallback(() => {
+        onChange((index - 1 + count) % count);
+    }, [index, count, onChange]);
+
+    const showNext = useCallback(() => {
+        onChange((index + 1) % count);
+    }, [index, count, onChange]);
+
+    /* ---- Entrance ---- */
+    useEffect(() => {
+        const tween = gsap.fromTo(
+            rootRef.current,
+            { opacity: 0 },
+            { opacity: 1, duration: 0.4, ease: "power2.out" }
+        );
+        return () => {
+            tween.kill();
+        };
+    }, []);
+
+    /* ---- Cross-fade whenever the item changes ---- */
+    useEffect(() => {
+        const tween = gsap.fromTo(
+            mediaRef.current,
+            { opacity: 0, scale: 0.97 },
+            { opacity: 1, scale: 1, duration: 0.45, ease: "power3.out" }
+        );
+        return () => {
+            tween.kill();
+        };
+    }, [index]);
+
+    /* ---- Keyboard (capture phase, so it wins over the story navigation) ---- */
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "Escape") onClose();
+            else if (e.key === "ArrowRight") showNext();
+            else if (e.key === "ArrowLeft") showPrevious();
+            else return;
+
+            e.preventDefault();
+        };
+
+        window.addEventListener("keydown", handleKeyDown, true);
+        return () => window.removeEventListener("keydown", handleKeyDown, true);
+    }, [onClose, showNext, showPrevious]);
+
+    useSwipe(rootRef, { onSwipeLeft: showNext, onSwipeRight: showPrevious });
+
+    if (!item) return null;
+
+    return createPortal(
+        <div
+            ref={rootRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={item.alt}
+            className="fixed inset-0 z-[200] bg-[var(--color-bg)]/95 backdrop-blur-xl flex flex-col"
+            onClick={onClose}
+            data-lenis-prevent
+        >
+            {/* ---- Top bar: counter + close ---- */}
+            <div className="flex justify-between items-center p-6 md:p-8">
+                <span className="font-mono text-[10px] uppercase tracking-[0.4em] text-[var(--color-text-dim)]">
+                    {String(index + 1).padStart(2, "0")} / {String(count).padStart(2, "0")}
+                </span>
+                <button
+                    onClick={onClose}
+                    className="group flex items-center gap-2 text-[var(--color-text-dim)] hover:text-[var(--color-accent)] transition-colors bg-[var(--color-surface)]/80 backdrop-blur-md px-4 py-2 rounded-full border border-[var(--color-border)]"
+                >
+                    <span className="uppercase tracking-widest text-xs font-sans font-semibold">Close</span>
+                    <Icon icon="lucide:x" width={16} className="group-hover:rotate-90 transition-transform duration-300" />
+                </button>
+            </div>
+
+            {/* ---- Media ---- */}
+            <div className="relative flex-1 min-h-0 flex items-center justify-center px-6 md:px-24">
+                <div
+                    ref={mediaRef}
+                    className="relative max-w-full max-h-full flex flex-col items-center gap-6"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    {item.type === "video" ? (
+                        <video
+                            key={item.src}
+                            src={item.src}
+                            poster={item.poster}
+                            controls
+                            autoPlay
+                            playsInline
+                            className="max-w-full max-h-[70vh] film-card"
+                            aria-label={item.alt}
+                        />
+                    ) : (
+                        <img
+                            key={item.src}
+                            src={item.src}
+                            alt={item.alt}
+                            className="max-w-full max-h-[70vh] object-contain film-card"
+                        />
+                    )}
+                    {item.caption && (
+                        <p className="font-display text-sm md:text-base text-[var(--color-text-dim)] -rotate-1 text-center">
+                            {item.caption}
+                        </p>
+                    )}
+                </div>
+
+                {/* ---- Previous / Next ---- */}
+                {count > 1 && (
+                    <>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                showPrevious();
+                            }}
+                            aria-label="Previous image"
+                            className="absolute left-2 md:left-8 top-1/2 -translate-y-1/2 p-3 text-[var(--color-text-dim)] hover:text-[var(--color-accent)] transition-colors"
+                        >
+                            <Icon icon="lucide:chevron-left" width={32} />
+                        </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                showNext();
+                            }}
+                            aria-label="Next image"
+                            className="absolute right-2 md:right-8 top-1/2 -translate-y-1/2 p-3 text-[var(--color-text-dim)] hover:text-[var(--color-accent)] transition-colors"
+                        >
+                            <Icon icon="lucide:chevron-right" width={32} />
+                        </button>
+                    </>
+                )}
+            </div>
+
+            <div className="h-16 md:h-24" />
+        </div>,
+        document.body
+    );
+};
+
+export default Lightbox;
@@ -0,0 +1,58 @@
+/* ==========================================================================
+ * LoopMonitor Component
+ * ==========================================================================
+ * A debug readout of the animation loops registered with `lib/scheduler`:
+ * one row per loop with whether it's running, or why it's resting
+ * (scrolled off-screen, or the tab hidden).
+ *
+ * Hidden unless the page was opened with `?debug=loops`; once on, it
+ * stays for the session so it survives in-app navigation.
+ * ========================================================================== */
+
+import React, { useState, useSyncExternalStore } from "react";
+import { getLoopStates, subscribeLoops, type LoopState } from "../lib/scheduler";
+
+/** Query that switches the readout on */
+const DEBUG_PARAM = "loops";
+
+const STATE_COLOURS: Record<LoopState, string> = {
+    running: "bg-[var(--color-accent)]",
+    "off-screen": "bg-[var(--color-text-dim)]",
+    hidden: "bg-[var(--color-border)]",
+};
+
+/**
+ * LoopMonitor — Fixed corner panel listing each loop's state.
+ */
+const LoopMonitor: React.FC = () => {
+    const [enabled] = useState(() => new URLSearchParams(window.location.search).get("debug") === DEBUG_PARAM);
+    const loops = useSyncExternalStore(subscribeLoops, getLoopStates);
+
+    if (!enabled) return null;
+
+    const running = loops.filter((loop) => loop.state === "running").length;
+
+    return (
+        <div
+            role="status"
+            className="fixed bottom-4 left-4 z-[9999] min-w-[200px] px-4 py-3 border border-[var(--color-border)] bg-[var(--color-bg)] font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]"
+        >
+            <p className="mb-2 text-[var(--color-text)]">
+                Loops · {running}/{loops.length} running
+            </p>
+            <ul className="flex flex-col gap-1">
+                {loops.map((loop, i) => (
+                    <li key={`${loop.name}-${i}`} className="flex items-center justify-between gap-4">
+                        <span className="flex items-center gap-2">
+                            <span className={`w-1.5 h-1.5 rounded-full ${STATE_COLOURS[loop.state]}`} />
+                            {loop.name}
+                        </span>
+                        <span>{loop.state}</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default LoopMonitor;
@@ -1,8 +1,8 @@
 import React, { useEffect, useRef, useCallback } from "react";
 import gsap from "gsap";
 import { Link } from "react-router-dom";
-import { useMood, MOODS } from "../context/MoodContext";
 import { Icon } from "@iconify/react";
+import MoodPicker from "./MoodPicker";
 
 /** Navigation link labels and paths */
 const MENU_ITEMS = [
@@ -19,7 +19,6 @@ interface MenuOverlayProps {
 }
 
 const MenuOverlay: React.FC<MenuOverlayProps> = ({ isOpen, onClose }) => {
-    const { mood, setMood } = useMood();
     const overlayRef = useRef<HTMLDivElement>(null);
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const menuItemsRef = useRef<(HTMLAnchorElement | null)[]>([]);
@@ -160,23 +159,12 @@ const MenuOverlay: React.FC<MenuOverlayProps> = ({ isOpen, onClose }) => {
                         {/* Mood Switcher */}
                         <div className="flex flex-col gap-4">
                             <span className="font-sans text-[10px] uppercase tracking-widest text-[var(--color-accent)]">Vibe Check</span>
-                            <div className="flex flex-wrap md:justify-end gap-3 max-w-sm ml-auto relative z-[120]">
-                                {MOODS.map((m) => (
-                                    <button
-                                        key={m}
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            setMood(m);
-                                        }}
-                                        className={`px-4 py-1.5 border rounded-full text-[10px] uppercase tracking-widest font-mono transition-all pointer-events-auto ${mood === m
-                                            ? "bg-[var(--color-accent)] border-[var(--color-accent)] text-black font-bold"
-                                            : "border-[var(--color-border)] text-[var(--color-text-dim)] hover:border-[var(--color-text)] hover:text-[var(--color-text)]"
-                                            }`}
-                                    >
-                                        {m}
-                                    </button>
-                                ))}
+                            <div className="max-w-sm ml-auto relative z-[120]">
+                                <MoodPicker />
                             </div>
+                            <span className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]">
+                                Hover to preview · press M to cycle
+                            </span>
                         </div>
                     </div>
                 </div>
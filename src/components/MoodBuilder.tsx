@@ -0,0 +1,216 @@
+/* ==========================================================================
+ * MoodBuilder Component
+ * ==========================================================================
+ * A small editor for the custom mood: one colour per palette variable
+ * (plus opacity for the two translucent ones), a live preview card, WCAG
+ * contrast warnings, and a share link.
+ *
+ * Behaviour:
+ *   • Edits stay in a local draft — the preview card is scoped with the
+ *     draft's variables, so the rest of the site doesn't flicker
+ *   • "Apply & save" stores the draft via `setCustomPalette`
+ *     (localStorage, next to `khaotic-mood`) and switches to it
+ *   • "Copy share link" puts `?palette=<56 hex chars>` on the current URL;
+ *     `MoodProvider` shows that palette when the link is opened
+ *   • "Start from" seeds the draft from any preset mood
+ * ========================================================================== */
+
+import React, { useMemo, useState } from "react";
+import { Icon } from "@iconify/react";
+import FilterChip from "./FilterChip";
+import RangeControl from "./RangeControl";
+import { CUSTOM_MOOD, MOODS, useMood } from "../context/MoodContext";
+import { parseRGBA } from "../lib/color";
+import {
+    encodePalette,
+    getContrastWarnings,
+    paletteStyle,
+    readMoodPalette,
+    type MoodPalette,
+    type MoodVar,
+} from "../lib/palette";
+
+/** Editor rows, in display order */
+const FIELDS: { variable: MoodVar; label: string; translucent?: boolean }[] = [
+    { variable: "--bg", label: "Background" },
+    { variable: "--surface", label: "Surface" },
+    { variable: "--accent", label: "Accent" },
+    { variable: "--secondary", label: "Secondary" },
+    { variable: "--text", label: "Text" },
+    { variable: "--text-dim", label: "Dim text", translucent: true },
+    { variable: "--border", label: "Border", translucent: true },
+];
+
+/** `#rrggbb` for a colour input (which has no alpha) */
+function toHex([r, g, b]: MoodPalette[MoodVar]): string {
+    return `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * MoodBuilder — Custom palette editor with preview, contrast checks and sharing.
+ */
+const MoodBuilder: React.FC = () => {
+    const { mood, customPalette, setCustomPalette } = useMood();
+
+    const [draft, setDraft] = useState<MoodPalette>(() =>
+        customPalette ?? readMoodPalette(mood === CUSTOM_MOOD ? "default" : mood)
+    );
+    const [copied, setCopied] = useState(false);
+    /** Set when the clipboard refuses, so the link can be copied by hand */
+    const [manualLink, setManualLink] = useState<string | null>(null);
+
+    const warnings = useMemo(() => getContrastWarnings(draft), [draft]);
+
+    const updateColour = (variable: MoodVar, hex: string) => {
+        const [r, g, b] = parseRGBA(hex);
+        setDraft((prev) => ({ ...prev, [variable]: [r, g, b, prev[variable][3]] }));
+        setCopied(false);
+    };
+
+    const updateAlpha = (variable: MoodVar, alpha: number) => {
+        setDraft((prev) => {
+            const [r, g, b] = prev[variable];
+            return { ...prev, [variable]: [r, g, b, alpha] };
+        });
+        setCopied(false);
+    };
+
+    const share = async () => {
+        const url = `${window.location.origin}${window.location.pathname}?palette=${encodePalette(draft)}`;
+        try {
+            await navigator.clipboard.writeText(url);
+            setCopied(true);
+            setManualLink(null);
+        } catch {
+            /* No clipboard access — show the link instead */
+            setManualLink(url);
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-[1fr_1fr] gap-12">
+            {/* ---- Editor ---- */}
+            <div className="flex flex-col gap-6">
+                <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Start from a preset">
+                    <span className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)] w-24">Start from</span>
+                    {MOODS.map((name) => (
+                        <FilterChip
+                            key={name}
+                            label={name}
+                            active={false}
+                            onClick={() => {
+                                setDraft(readMoodPalette(name));
+                                setCopied(false);
+                            }}
+                        />
+                    ))}
+                </div>
+
+                {FIELDS.map(({ variable, label, translucent }) => (
+                    <div key={variable} className="grid grid-cols-[6rem_auto_1fr] items-center gap-4">
+                        <label
+                            htmlFor={`mood-builder${variable}`}
+                            className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]"
+                        >
+                            {label}
+                        </label>
+                        <input
+                            id={`mood-builder${variable}`}
+                            type="color"
+                            value={toHex(draft[variable])}
+                            onChange={(e) => updateColour(variable, e.target.value)}
+                            className="w-10 h-8 bg-transparent border border-[var(--color-border)] rounded-sm cursor-pointer"
+                        />
+                        {translucent ? (
+                            <RangeControl
+                                label="Opacity"
+                                value={Math.round(draft[variable][3] * 100) / 100}
+                                min={0}
+                                max={1}
+                                step={0.01}
+                                format={(value) => `${Math.round(value * 100)}%`}
+                                onChange={(value) => updateAlpha(variable, value)}
+                            />
+                        ) : (
+                            <span className="font-mono text-[10px] text-[var(--color-text-dim)]">{toHex(draft[variable])}</span>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {/* ---- Preview + checks ---- */}
+            <div className="flex flex-col gap-6">
+                <div
+                    className="flex flex-col gap-4 p-6 rounded-sm border"
+                    style={{ ...paletteStyle(draft), background: "var(--bg)", borderColor: "var(--border)", color: "var(--text)" }}
+                    aria-label="Palette preview"
+                >
+                    <span className="font-display text-2xl -rotate-1">Stories About Harry</span>
+                    <p className="font-sans text-sm leading-relaxed" style={{ color: "var(--text-dim)" }}>
+                        A fragmented diary of controlled chaos, in your colours.
+                    </p>
+                    <div className="p-4 rounded-sm border" style={{ background: "var(--surface)", borderColor: "var(--border)" }}>
+                        <span className="font-mono text-[10px] uppercase tracking-widest" style={{ color: "var(--secondary)" }}>
+                            Surface · secondary
+                        </span>
+                        <p className="font-sans text-sm mt-2">Cards and panels sit on this.</p>
+                    </div>
+                    <span
+                        className="self-start px-4 py-1.5 rounded-full font-sans text-[10px] uppercase tracking-[0.2em]"
+                        style={{ background: "var(--accent)", color: "var(--bg)" }}
+                    >
+                        Accent
+                    </span>
+                </div>
+
+                <div role="status" className="flex flex-col gap-2">
+                    {warnings.length === 0 ? (
+                        <span className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]">
+                            <Icon icon="lucide:check" width={12} className="inline mr-2" />
+                            Every pair clears WCAG AA
+                        </span>
+                    ) : (
+                        warnings.map(({ pair, ratio, minimum }) => (
+                            <span key={pair} className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-accent)]">
+                                <Icon icon="lucide:triangle-alert" width={12} className="inline mr-2" />
+                                {pair}: {ratio.toFixed(2)}:1 — needs {minimum}:1
+                            </span>
+                        ))
+                    )}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4">
+                    <button
+                        type="button"
+                        onClick={() => setCustomPalette(draft)}
+                        className="inline-flex items-center gap-2 px-5 py-2 rounded-full border border-[var(--color-accent)] font-sans text-[10px] uppercase tracking-[0.2em] text-[var(--color-accent)] hover:bg-[var(--color-accent)] hover:text-[var(--color-bg)] transition-colors nav-link"
+                    >
+                        <Icon icon="lucide:save" width={12} />
+                        Apply &amp; save
+                    </button>
+                    <button
+                        type="button"
+                        onClick={share}
+                        className="inline-flex items-center gap-2 font-sans text-[10px] uppercase tracking-[0.2em] text-[var(--color-text-dim)] hover:text-[var(--color-accent)] transition-colors nav-link"
+                    >
+                        <Icon icon={copied ? "lucide:check" : "lucide:link"} width={12} />
+                        {copied ? "Link copied" : "Copy share link"}
+                    </button>
+                </div>
+
+                {manualLink && (
+                    <input
+                        type="text"
+                        readOnly
+                        value={manualLink}
+                        onFocus={(e) => e.target.select()}
+                        aria-label="Share link"
+                        className="w-full bg-transparent border-b border-[var(--color-border)] py-2 font-mono text-[10px] text-[var(--color-text)]"
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default MoodBuilder;
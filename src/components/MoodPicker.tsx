@@ -0,0 +1,132 @@
+/* ==========================================================================
+ * MoodPicker Component
+ * ==========================================================================
+ * The everyday way to change mood: one swatch per preset (plus the custom
+ * mood once one is saved), each drawn in its own palette.
+ *
+ * Behaviour:
+ *   • Hovering a swatch previews its palette across the whole site via
+ *     `setPreviewMood`; leaving restores the current mood
+ *   • Clicking wipes to the new mood (`lib/moodTransition`), growing out
+ *     of the swatch
+ *   • With `shortcut`, pressing M anywhere (outside form fields) steps to
+ *     the next preset — only one mounted picker should take it
+ *
+ * Variants:
+ *   • "compact" — bare dots, for the navbar
+ *   • "full"    — labelled pills, for the menu overlay
+ * ========================================================================== */
+
+import React, { useCallback, useEffect } from "react";
+import { CUSTOM_MOOD, MOODS, useMood, type Mood } from "../context/MoodContext";
+import { paletteStyle, readMoodPalette } from "../lib/palette";
+import { isShortcut } from "../lib/keyboard";
+import { wipeToMood } from "../lib/moodTransition";
+
+/** Key that cycles to the next preset mood */
+const SHORTCUT_KEY = "m";
+
+interface MoodPickerProps {
+    variant?: "compact" | "full";
+    /** Listen for the cycle shortcut */
+    shortcut?: boolean;
+}
+
+/**
+ * MoodPicker — Mood swatches with hover preview and an animated switch.
+ */
+const MoodPicker: React.FC<MoodPickerProps> = ({ variant = "full", shortcut = false }) => {
+    const { mood, setMood, autoMood, customPalette, scheme, setPreviewMood } = useMood();
+
+    const moods: Mood[] = customPalette ? [...MOODS, CUSTOM_MOOD] : [...MOODS];
+
+    /**
+     * switchTo — Drop any preview and wipe to `next` from `origin`.
+     */
+    const switchTo = useCallback(
+        (next: Mood, origin: { x: number; y: number } | null) => {
+            setPreviewMood(null);
+            const palette = next === CUSTOM_MOOD ? customPalette : readMoodPalette(next, scheme);
+            if (!palette) return;
+            wipeToMood(palette["--bg"], origin, () => setMood(next));
+        },
+        [customPalette, scheme, setMood, setPreviewMood]
+    );
+
+    /* ---- Keyboard shortcut ---- */
+    useEffect(() => {
+        if (!shortcut) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!isShortcut(e, SHORTCUT_KEY)) return;
+            const currentIndex = (MOODS as readonly string[]).indexOf(mood);
+            switchTo(MOODS[(currentIndex + 1) % MOODS.length], null);
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [shortcut, mood, switchTo]);
+
+    /* A preview must not outlive the picker (e.g. the menu closing mid-hover) */
+    useEffect(() => () => setPreviewMood(null), [setPreviewMood]);
+
+    const compact = variant === "compact";
+
+    return (
+        <div
+            role="group"
+            aria-label="Mood"
+            title={shortcut ? "Press M to cycle moods" : undefined}
+            className={`flex flex-wrap items-center ${compact ? "gap-1.5" : "gap-3 md:justify-end"}`}
+        >
+            {moods.map((name) => {
+                const active = !autoMood && name === mood;
+                /* Scoped to the swatch's own palette, like the Lab's mood swatches */
+                const scope: React.HTMLAttributes<HTMLButtonElement> & { "data-mood"?: string; "data-scheme"?: string } =
+                    name === CUSTOM_MOOD && customPalette
+                        ? { style: paletteStyle(customPalette) }
+                        : { "data-mood": name, "data-scheme": scheme };
+
+                return (
+                    <button
+                        key={name}
+                        type="button"
+                        aria-pressed={active}
+                        aria-label={compact ? `${name} mood` : undefined}
+                        onPointerEnter={() => {
+                            if (!active) setPreviewMood(name);
+                        }}
+                        onPointerLeave={() => setPreviewMood(null)}
+                        onClick={(e) => {
+                            if (active) return;
+                            const rect = e.currentTarget.getBoundingClientRect();
+                            switchTo(name, { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+                        }}
+                        {...scope}
+                        className={compact
+                            ? `w-3 h-3 rounded-full border transition-transform duration-300 hover:scale-150 nav-link ${active ? "outline outline-1 outline-offset-2 outline-[var(--color-text)]" : ""}`
+                            : `inline-flex items-center gap-2 px-4 py-1.5 border rounded-full text-[10px] uppercase tracking-widest font-mono transition-all nav-link ${active
+                                ? "bg-[var(--color-accent)] border-[var(--color-accent)] text-[var(--color-bg)] font-bold"
+                                : "border-[var(--color-border)] text-[var(--color-text-dim)] hover:border-[var(--color-text)] hover:text-[var(--color-text)]"
+                            }`}
+                        style={compact
+                            ? { ...scope.style, background: "linear-gradient(135deg, var(--bg) 50%, var(--accent) 50%)", borderColor: "var(--border)" }
+                            : scope.style}
+                    >
+                        {!compact && (
+                            <>
+                                <span
+                                    className="w-2.5 h-2.5 rounded-full border border-[var(--color-border)]"
+                                    style={{ background: "linear-gradient(135deg, var(--bg) 50%, var(--accent) 50%)" }}
+                                />
+                                {name}
+                            </>
+                        )}
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
+
+export default MoodPicker;
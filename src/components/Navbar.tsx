@@ -11,16 +11,16 @@
  *     a simpler dark background.
  *   • Clock — Displays current time in South African timezone, updated every
  *     second via `setInterval`.
- *   • Theme toggle — Renders a moon/sun icon button that calls the
- *     parent's `toggleTheme` handler.
+ *   • Mood picker — Compact `MoodPicker` dots (desktop only) that also own
+ *     the M shortcut for cycling moods.
+ *   • Scheme toggle — A moon/sun icon button that flips the current mood
+ *     between its dark and light variants via `useMood().toggleScheme`.
  *   • Menu trigger — Clicking "Menu" / "Close" calls the parent's
  *     `onMenuToggle` handler.
  *
  * Props:
  *   @prop isMenuOpen    — Whether the fullscreen menu overlay is open.
  *   @prop onMenuToggle  — Callback to open/close the menu overlay.
- *   @prop isLight       — Current light/dark theme state (for icon swap).
- *   @prop toggleTheme   — Callback to toggle the colour theme.
  *
  * GSAP Animation Notes:
  *   The intro animation (slide-in from top) is handled by the parent's
@@ -32,6 +32,9 @@ import React, { useEffect, useRef, useCallback } from "react";
 import gsap from "gsap";
 import { ScrollTrigger } from "gsap/ScrollTrigger";
 import { Link } from "react-router-dom";
+import { Icon } from "@iconify/react";
+import { useMood } from "../context/MoodContext";
+import MoodPicker from "./MoodPicker";
 
 /* Ensure ScrollTrigger is registered */
 gsap.registerPlugin(ScrollTrigger);
@@ -50,6 +53,8 @@ const Navbar: React.FC<NavbarProps> = ({
     isMenuOpen,
     onMenuToggle,
 }) => {
+    const { scheme, toggleScheme } = useMood();
+
     /* Ref for the pill container — animated by GSAP */
     const pillRef = useRef<HTMLDivElement>(null);
 
@@ -215,15 +220,31 @@ const Navbar: React.FC<NavbarProps> = ({
                 {/* ---- RIGHT: Meta Info ---- */}
                 <div
                     ref={rightGroupRef}
-                    className="flex items-center justify-end gap-6 z-10 text-[var(--color-text)] w-[160px] h-full origin-right"
+                    className="flex items-center justify-end gap-4 z-10 text-[var(--color-text)] min-w-[160px] h-full origin-right"
                 >
-                    {/* South African clock — hidden on mobile */}
-                    <div className="hidden md:flex items-center gap-2 text-[14px] font-sans font-normal tracking-wide whitespace-nowrap text-[var(--color-text-dim)]">
+                    {/* South African clock — hidden below large screens to leave room for the picker */}
+                    <div className="hidden lg:flex items-center gap-2 text-[14px] font-sans font-normal tracking-wide whitespace-nowrap text-[var(--color-text-dim)]">
                         <span>SAR</span>
                         <span ref={timeRef} className="tabular-nums">
                             --:--
                         </span>
                     </div>
+
+                    {/* Mood dots — hidden on mobile (the menu has the full picker),
+                        but still mounted so the shortcut works everywhere */}
+                    <div className="hidden md:flex">
+                        <MoodPicker variant="compact" shortcut />
+                    </div>
+
+                    {/* Light/dark variant of the current mood */}
+                    <button
+                        type="button"
+                        onClick={toggleScheme}
+                        aria-label={scheme === "dark" ? "Switch to light scheme" : "Switch to dark scheme"}
+                        className="nav-link hover:text-[var(--color-accent)] transition-colors duration-300"
+                    >
+                        <Icon icon={scheme === "dark" ? "lucide:sun" : "lucide:moon"} width={16} />
+                    </button>
                 </div>
             </div>
         </header>
@@ -0,0 +1,286 @@
+/* ==========================================================================
+ * ProjectDetail Component
+ * ==========================================================================
+ * The full story layout for a single portfolio project. Shared by the
+ * `ProjectModal` (opened over the current page) and the standalone
+ * `StoryPage` (rendered when a `/stories/:slug` URL is loaded cold).
+ *
+ * Layout:
+ *   ┌────────────────────────────────────────┐
+ *   │  Hero Image (80vh)                      │
+ *   │    └─ Title + Subtitle overlay          │
+ *   ├────────────────────────────────────────┤
+ *   │  Content Grid (7 col + 5 col)           │
+ *   │    ├─ Left: "The Story" + rich body     │
+ *   │    │         + Gallery (film stills)    │
+ *   │    └─ Right: "Credits" + Tech Specs     │
+ *   ├────────────────────────────────────────┤
+ *   │  Previous / Next Story navigation       │
+ *   └────────────────────────────────────────┘
+ *
+ * Features:
+ *   • Content stagger animation (title, subtitle, body fade in) on mount
+ *   • Cross-fade between stories — when `project` changes, the hero, title
+ *     and credits fade out, the new story is swapped in, and the same
+ *     stagger brings it back
+ *   • Sequential navigation that wraps around the feed, driven by the
+ *     bottom CTA strip, ←/→ arrow keys and horizontal swipes on touch
+ *
+ * Props:
+ *   @prop project     — The `Project` data to display.
+ *   @prop onNavigate  — Callback fired with the adjacent project to open.
+ *   @prop revealDelay — Seconds to wait before the first stagger starts
+ *                       (lets the modal finish sliding in first).
+ * ========================================================================== */
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import gsap from "gsap";
+import DOMPurify from "dompurify";
+import ProjectGallery from "./ProjectGallery";
+import ProjectSpecs from "./ProjectSpecs";
+import StoryNavigation from "./StoryNavigation";
+import { getAdjacentProjects } from "../data/projects";
+import { useProjects } from "../context/ProjectsContext";
+import { useSwipe } from "../hooks/useSwipe";
+import { isTyping } from "../lib/keyboard";
+import type { Project } from "../types";
+
+interface ProjectDetailProps {
+    /** The project to render */
+    project: Project;
+    /** Callback fired with the previous/next project the visitor chose */
+    onNavigate: (project: Project) => void;
+    /** Delay (seconds) before the first content stagger begins */
+    revealDelay?: number;
+}
+
+/* Story links to other sites open in a new tab (see plugins/projectContent.ts).
+ * `target` survives sanitising, but any link that keeps it is given
+ * `noopener` so a remote body can't open a tab with a handle back to this one */
+const SANITIZE_CONFIG = { ADD_ATTR: ["target"] };
+
+DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+    if (node.tagName === "A" && node.hasAttribute("target")) {
+        node.setAttribute("target", "_blank");
+        node.setAttribute("rel", "noopener noreferrer");
+    }
+});
+
+/**
+ * ProjectDetail — Hero, story, credits and story navigation for one project.
+ */
+const ProjectDetail: React.FC<ProjectDetailProps> = ({
+    project,
+    onNavigate,
+    revealDelay = 0.4,
+}) => {
+    /* -------------------------------------------------------------------------
+     * State
+     * ----------------------------------------------------------------------- */
+
+    /**
+     * The project currently on screen. Lags behind `project` for the
+     * duration of the fade-out so the outgoing story stays visible.
+     */
+    const [displayed, setDisplayed] = useState(project);
+
+    /* -------------------------------------------------------------------------
+     * Refs
+     * ----------------------------------------------------------------------- */
+
+    /** Root wrapper — swipe gestures are detected here */
+    const rootRef = useRef<HTMLDivElement>(null);
+
+    /** The hero image wrapper (cross-faded between stories) */
+    const heroRef = useRef<HTMLDivElement>(null);
+
+    /** The title element (animated on content stagger) */
+    const titleRef = useRef<HTMLHeadingElement>(null);
+
+    /** The subtitle badge (animated on content stagger) */
+    const subtitleRef = useRef<HTMLSpanElement>(null);
+
+    /** The content grid container (animated on content stagger) */
+    const contentRef = useRef<HTMLDivElement>(null);
+
+    /** Whether the first reveal has played (later swaps skip `revealDelay`) */
+    const hasRevealedRef = useRef(false);
+
+    /* -------------------------------------------------------------------------
+     * Content Stagger — fade the copy in whenever a story is swapped in
+     * ----------------------------------------------------------------------- */
+    useEffect(() => {
+        const delay = hasRevealedRef.current ? 0 : revealDelay;
+        hasRevealedRef.current = true;
+
+        const tl = gsap.timeline({ delay });
+        tl.fromTo(heroRef.current, { opacity: 0 }, { opacity: 1, duration: 0.6, ease: "power2.out" }, 0);
+        tl.fromTo(
+            [titleRef.current, subtitleRef.current, contentRef.current],
+            { y: 50, opacity: 0 },
+            {
+                y: 0,
+                opacity: 1,
+                duration: 0.8,
+                stagger: 0.1,
+                ease: "power3.out",
+            },
+            0
+        );
+
+        return () => {
+            tl.kill();
+        };
+    }, [displayed, revealDelay]);
+
+    /* -------------------------------------------------------------------------
+     * Cross-fade Out — fade the outgoing story, then swap in the new one
+     * ----------------------------------------------------------------------- */
+    useEffect(() => {
+        if (project === displayed) return;
+
+        const tl = gsap.timeline({ onComplete: () => setDisplayed(project) });
+        tl.to(
+            [titleRef.current, subtitleRef.current, contentRef.current],
+            { y: -30, opacity: 0, duration: 0.35, stagger: 0.05, ease: "power2.in" },
+            0
+        );
+        tl.to(heroRef.current, { opacity: 0, duration: 0.45, ease: "power2.in" }, 0);
+
+        return () => {
+            tl.kill();
+        };
+    }, [project, displayed]);
+
+    /* -------------------------------------------------------------------------
+     * Sequential Navigation — ←/→ keys and horizontal swipes
+     *
+     * Neighbours are resolved from the *target* project (not the one still
+     * fading out) so rapid presses keep advancing through the feed.
+     * ----------------------------------------------------------------------- */
+    const { projects } = useProjects();
+    const adjacent = useMemo(() => getAdjacentProjects(projects, project.slug), [projects, project.slug]);
+
+    /* The body may come from a remote source, so it's never trusted as-is */
+    const bodyHtml = useMemo(
+        () => (displayed.bodyHtml ? DOMPurify.sanitize(displayed.bodyHtml, SANITIZE_CONFIG) : ""),
+        [displayed.bodyHtml]
+    );
+
+    useEffect(() => {
+        if (!adjacent) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            /* Leave arrows alone inside form fields or when already handled */
+            if (e.defaultPrevented || isTyping(e.target)) return;
+
+            if (e.key === "ArrowRight") onNavigate(adjacent.next);
+            if (e.key === "ArrowLeft") onNavigate(adjacent.previous);
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [adjacent, onNavigate]);
+
+    useSwipe(rootRef, {
+        onSwipeLeft: () => adjacent && onNavigate(adjacent.next),
+        onSwipeRight: () => adjacent && onNavigate(adjacent.previous),
+    });
+
+    return (
+        <div ref={rootRef}>
+            {/* ==== Hero Image (80vh) ==== */}
+            <div className="w-full h-[80vh] relative">
+                <div ref={heroRef} className="absolute inset-0">
+                    {displayed.modalImage && (
+                        <img
+                            src={displayed.modalImage}
+                            alt={displayed.title}
+                            className="w-full h-full object-cover"
+                        />
+                    )}
+                </div>
+                <div className="absolute inset-0 bg-gradient-to-t from-[var(--color-bg)] via-transparent to-transparent opacity-95" />
+
+                <div className="absolute bottom-0 left-0 w-full p-6 md:p-12 pb-12">
+                    <div className="overflow-hidden">
+                        <h1
+                            ref={titleRef}
+                            className="font-display text-5xl md:text-8xl text-[var(--color-text)] transform -rotate-1 origin-bottom-left drop-shadow-2xl"
+                        >
+                            {displayed.title}
+                        </h1>
+                    </div>
+                    <div className="mt-4 flex gap-4 items-center">
+                        <span
+                            ref={subtitleRef}
+                            className="px-3 py-1 border border-[var(--color-border)] rounded-full text-xs font-sans uppercase tracking-widest text-[var(--color-text-dim)] backdrop-blur-sm"
+                        >
+                            {displayed.subtitle}
+                        </span>
+                    </div>
+                </div>
+            </div>
+
+            {/* ==== Content Grid ==== */}
+            <div
+                ref={contentRef}
+                className="max-w-7xl mx-auto px-6 md:px-12 py-24 grid grid-cols-1 md:grid-cols-12 gap-16 text-[var(--color-text)]"
+            >
+                <div className="md:col-span-7 flex flex-col gap-8">
+                    <h3 className="font-display text-3xl text-[var(--color-accent)] -rotate-1">
+                        The Story
+                    </h3>
+                    {bodyHtml ? (
+                        /* Markdown rendered at build time (or by the CMS), sanitised above */
+                        <div
+                            className="story-prose"
+                            dangerouslySetInnerHTML={{ __html: bodyHtml }}
+                        />
+                    ) : (
+                        <p className="font-sans text-lg md:text-xl leading-relaxed text-[var(--color-text-dim)] font-light whitespace-pre-wrap">
+                            {displayed.description}
+                        </p>
+                    )}
+
+                    <ProjectGallery items={displayed.gallery ?? []} />
+                </div>
+
+                <div className="md:col-span-5 flex flex-col gap-8 sticky top-24 h-fit">
+                    <h3 className="font-display text-3xl text-[var(--color-text)] rotate-1">
+                        Credits
+                    </h3>
+
+                    <div className="flex flex-col border-t border-[var(--color-border)]">
+                        {displayed.credits.map((credit, i) => (
+                            <div
+                                key={i}
+                                className="flex justify-between items-center py-4 border-b border-[var(--color-border)] group hover:bg-[var(--color-surface)] transition-colors px-2"
+                            >
+                                <span className="text-[var(--color-text-dim)] text-xs uppercase tracking-widest font-sans">
+                                    {credit.role}
+                                </span>
+                                <span className="text-[var(--color-text)] font-display text-lg tracking-wide">
+                                    {credit.name}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <ProjectSpecs project={displayed} />
+                </div>
+            </div>
+
+            {/* ==== Previous / Next Story ==== */}
+            {adjacent && (
+                <StoryNavigation
+                    previous={adjacent.previous}
+                    next={adjacent.next}
+                    onNavigate={onNavigate}
+                />
+            )}
+        </div>
+    );
+};
+
+export default ProjectDetail;
@@ -0,0 +1,95 @@
+/* ==========================================================================
+ * ProjectFeedStatus Component
+ * ==========================================================================
+ * What the stories feed shows while the project list isn't ready —
+ * used when projects come from a remote source (see `ProjectsContext`).
+ *
+ * States:
+ *   • loading — Blank film-card frames, tilted like the real cards and
+ *               gently pulsing, so the feed keeps its shape while it waits
+ *   • error   — A short in-voice apology, the technical reason in small
+ *               mono type, and a "try again" button wired to `onRetry`
+ *
+ * Props:
+ *   @prop status  — Which state to render ("ready" renders nothing).
+ *   @prop error   — The failure to describe, when `status` is "error".
+ *   @prop onRetry — Called when the visitor asks to try again.
+ *   @prop count   — Number of placeholder cards while loading (default 3).
+ * ========================================================================== */
+
+import React from "react";
+import { Icon } from "@iconify/react";
+import type { ProjectsStatus } from "../context/ProjectsContext";
+
+interface ProjectFeedStatusProps {
+    /** Current load state of the project list */
+    status: ProjectsStatus;
+    /** The error to describe in the "error" state */
+    error?: Error | null;
+    /** Retry callback for the "error" state */
+    onRetry: () => void;
+    /** How many placeholder cards to draw while loading */
+    count?: number;
+}
+
+/** Alternating tilts for the placeholder frames */
+const PLACEHOLDER_ROTATIONS = [-2, 1.5, -1];
+
+/**
+ * ProjectFeedStatus — Loading skeleton / error panel for the stories feed.
+ */
+const ProjectFeedStatus: React.FC<ProjectFeedStatusProps> = ({
+    status,
+    error,
+    onRetry,
+    count = 3,
+}) => {
+    if (status === "loading") {
+        return (
+            <div className="w-full flex flex-col items-center" aria-busy="true" aria-live="polite">
+                <span className="sr-only">Loading stories…</span>
+                {Array.from({ length: count }, (_, i) => (
+                    <div
+                        key={i}
+                        className="w-[85vw] md:w-[60vw] p-4 mb-[15vh] bg-[var(--color-surface)] film-card rounded-sm animate-pulse"
+                        style={{ transform: `rotate(${PLACEHOLDER_ROTATIONS[i % PLACEHOLDER_ROTATIONS.length]}deg)` }}
+                    >
+                        <div className="w-full aspect-[16/9] bg-[var(--color-bg)] border border-[var(--color-border)] mb-4" />
+                        <div className="h-8 w-1/2 bg-[var(--color-border)] rounded-sm mb-3" />
+                        <div className="h-3 w-1/4 bg-[var(--color-border)] rounded-sm" />
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
+    if (status === "error") {
+        return (
+            <div className="w-full max-w-xl px-6 mb-[15vh] flex flex-col items-center text-center" role="alert">
+                <h3 className="font-display text-3xl md:text-5xl text-[var(--color-text)] -rotate-1 select-none">
+                    The reel jammed.
+                </h3>
+                <p className="font-sans text-base md:text-lg text-[var(--color-text-dim)] leading-relaxed mt-6">
+                    The stories didn't make it through the noise this time.
+                </p>
+                {error && (
+                    <p className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]/50 mt-4">
+                        {error.message}
+                    </p>
+                )}
+                <button
+                    type="button"
+                    onClick={onRetry}
+                    className="group mt-10 inline-flex items-center gap-3 font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors duration-300 nav-link"
+                >
+                    <Icon icon="lucide:rotate-ccw" className="group-hover:-rotate-180 transition-transform duration-500" />
+                    <span>Roll it again</span>
+                </button>
+            </div>
+        );
+    }
+
+    return null;
+};
+
+export default ProjectFeedStatus;
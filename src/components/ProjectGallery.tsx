@@ -0,0 +1,115 @@
+/* ==========================================================================
+ * ProjectGallery Component
+ * ==========================================================================
+ * The media grid inside a project story. Each entry is framed as a tilted
+ * film still (same `.film-card` frame and hover-straighten behaviour as
+ * `ProjectCard`) around a button that opens the fullscreen `Lightbox`, so
+ * stills can be reached and opened from the keyboard too.
+ *
+ * Layout:
+ *   Two columns with the right column dropped by `mt-12`, so the stills
+ *   read as a loose, scattered pile rather than a strict grid.
+ *
+ * Performance:
+ *   • Images use native `loading="lazy"`
+ *   • Videos only load their poster (`preload="none"`) until opened
+ *
+ * Props:
+ *   @prop items — The project's gallery entries. Renders nothing if empty.
+ * ========================================================================== */
+
+import React, { useCallback, useState } from "react";
+import { Icon } from "@iconify/react";
+import Lightbox from "./Lightbox";
+import type { GalleryItem } from "../types";
+
+interface ProjectGalleryProps {
+    /** Gallery entries to render */
+    items: GalleryItem[];
+}
+
+/** Fallback tile ratio when an entry doesn't specify one */
+const DEFAULT_ASPECT_RATIO = "4/5";
+
+/**
+ * stillRotation — A stable ±1.5° tilt per position, so the pile looks
+ * scattered but doesn't reshuffle on every render.
+ */
+const stillRotation = (i: number) => (((i * 123) % 5) - 2) * 0.75;
+
+/**
+ * ProjectGallery — Film-still media grid with a fullscreen lightbox.
+ */
+const ProjectGallery: React.FC<ProjectGalleryProps> = ({ items }) => {
+    /** Index of the entry open in the lightbox, or `null` when closed */
+    const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+    const handleClose = useCallback(() => setOpenIndex(null), []);
+
+    if (items.length === 0) return null;
+
+    return (
+        <>
+            <div className="grid grid-cols-2 gap-4 md:gap-6 mt-12 w-full">
+                {items.map((item, i) => (
+                    <figure
+                        key={`${i}-${item.src}`}
+                        className={`group film-card p-2 rounded-sm rotate-[var(--tilt)] hover:rotate-0 focus-within:rotate-0 ${i % 2 === 1 ? "mt-12" : ""}`}
+                        style={{ "--tilt": `${stillRotation(i)}deg` } as React.CSSProperties}
+                    >
+                        <button
+                            type="button"
+                            aria-label={item.alt}
+                            onClick={() => setOpenIndex(i)}
+                            className="relative block w-full overflow-hidden bg-[var(--color-surface)] border border-[var(--color-border)] cursor-pointer nav-link focus-visible:outline focus-visible:outline-1 focus-visible:outline-offset-2 focus-visible:outline-[var(--color-accent)]"
+                            style={{ aspectRatio: item.aspectRatio ?? DEFAULT_ASPECT_RATIO }}
+                        >
+                            {item.type === "video" ? (
+                                <>
+                                    <video
+                                        src={item.src}
+                                        poster={item.poster}
+                                        muted
+                                        playsInline
+                                        preload="none"
+                                        aria-label={item.alt}
+                                        className="w-full h-full object-cover grayscale-[30%] contrast-110 group-hover:grayscale-0 transition-all duration-700"
+                                    />
+                                    <Icon
+                                        icon="lucide:play"
+                                        width={28}
+                                        className="absolute inset-0 m-auto text-white/80 mix-blend-difference"
+                                    />
+                                </>
+                            ) : (
+                                <img
+                                    src={item.src}
+                                    alt={item.alt}
+                                    loading="lazy"
+                                    decoding="async"
+                                    className="w-full h-full object-cover grayscale-[30%] contrast-110 group-hover:grayscale-0 group-hover:scale-105 transition-all duration-700 ease-out"
+                                />
+                            )}
+                        </button>
+                        {item.caption && (
+                            <figcaption className="font-display text-[10px] md:text-xs text-[var(--color-text-dim)] px-1 pt-3 pb-1 -rotate-1">
+                                {item.caption}
+                            </figcaption>
+                        )}
+                    </figure>
+                ))}
+            </div>
+
+            {openIndex !== null && (
+                <Lightbox
+                    items={items}
+                    index={openIndex}
+                    onChange={setOpenIndex}
+                    onClose={handleClose}
+                />
+            )}
+        </>
+    );
+};
+
+export default ProjectGallery;
@@ -2,31 +2,26 @@
  * ProjectModal Component
  * ==========================================================================
  * A fullscreen scrollable modal that displays detailed information about
- * a selected portfolio project.
+ * a selected portfolio project. It is mounted by the `/stories/:slug`
+ * route whenever that route is reached with a `backgroundLocation` in its
+ * navigation state, so the page underneath stays rendered.
  *
- * Layout:
- *   ┌────────────────────────────────────────┐
- *   │  Hero Image (80vh)                      │
- *   │    └─ Title + Subtitle overlay          │
- *   ├────────────────────────────────────────┤
- *   │  Content Grid (7 col + 5 col)           │
- *   │    ├─ Left: "The Story" + Description   │
- *   │    │         + Gallery stubs            │
- *   │    └─ Right: "Credits" + Tech Specs     │
- *   ├────────────────────────────────────────┤
- *   │  "Next Project" CTA                     │
- *   └────────────────────────────────────────┘
+ * The story layout itself lives in `ProjectDetail`; this component only
+ * owns the overlay chrome and its slide animations.
  *
  * Features:
  *   • GSAP slide-up entrance (y: 100% → 0%)
- *   • GSAP slide-down exit (y: 0% → 100%)
- *   • Content stagger animation (title, subtitle, body fade in)
+ *   • GSAP slide-down exit (y: 0% → 100%), then `onClose`
  *   • Internal scroll resets to top on open
  *   • Close button (fixed, top-right) with glassmorphism background
+ *   • Escape key closes the modal
+ *   • Previous/next stories cross-fade in place (see `ProjectDetail`)
  *
  * Props:
- *   @prop project — The `Project` data to display, or `null` if closed.
- *   @prop onClose — Callback to close the modal.
+ *   @prop project    — The `Project` data to display.
+ *   @prop onNavigate — Callback fired with the adjacent project to open.
+ *   @prop onClose    — Callback fired once the exit animation has finished
+ *                      (the route host navigates back to the previous page).
  *
  * CSS Dependencies:
  *   No custom classes beyond Tailwind utilities.
@@ -35,21 +30,19 @@
 import React, { useEffect, useRef, useCallback } from "react";
 import { Icon } from "@iconify/react";
 import gsap from "gsap";
-import { PROJECTS } from "../data/projects";
+import ProjectDetail from "./ProjectDetail";
+import type { Project } from "../types";
 
 interface ProjectModalProps {
-    /** Whether the modal is currently transitioning in/out or visible */
-    isVisible: boolean;
-    /** The index of the project to display in the PROJECTS array */
-    projectIndex: number | null;
-    /** Callback fired to close the modal */
+    /** The project to display */
+    project: Project;
+    /** Callback fired with the previous/next project to show */
+    onNavigate: (project: Project) => void;
+    /** Callback fired after the modal has animated out */
     onClose: () => void;
 }
 
-const ProjectModal: React.FC<ProjectModalProps> = ({ isVisible, projectIndex, onClose }) => {
-    const project = (projectIndex !== null && projectIndex >= 0 && projectIndex < PROJECTS.length)
-        ? PROJECTS[projectIndex]
-        : null;
+const ProjectModal: React.FC<ProjectModalProps> = ({ project, onNavigate, onClose }) => {
     /* -------------------------------------------------------------------------
      * Refs
      * ----------------------------------------------------------------------- */
@@ -60,77 +53,68 @@ const ProjectModal: React.FC<ProjectModalProps> = ({ isVisible, projectIndex, on
     /** The scrollable inner container (scroll position resets on open) */
     const scrollRef = useRef<HTMLDivElement>(null);
 
-    /** The title element (animated on content stagger) */
-    const titleRef = useRef<HTMLHeadingElement>(null);
-
-    /** The subtitle badge (animated on content stagger) */
-    const subtitleRef = useRef<HTMLSpanElement>(null);
-
-    /** The content grid container (animated on content stagger) */
-    const contentRef = useRef<HTMLDivElement>(null);
+    /** Guards against double-closing while the exit tween runs */
+    const isClosingRef = useRef(false);
 
     /* -------------------------------------------------------------------------
-     * Open / Close Animation
+     * Open Animation — runs once when the route mounts the modal
      * ----------------------------------------------------------------------- */
     useEffect(() => {
         const modal = modalRef.current;
         if (!modal) return;
 
-        if (project) {
-            /* ---- OPEN ---- */
-            gsap.set(modal, { y: "100%" });
-            modal.style.display = "block";
+        /* Slide up from below */
+        const tween = gsap.fromTo(
+            modal,
+            { y: "100%" },
+            { y: "0%", duration: 0.8, ease: "power3.inOut" }
+        );
 
-            /* Slide up from below */
-            gsap.to(modal, { y: "0%", opacity: 1, duration: 0.8, ease: "power3.inOut" });
+        return () => {
+            tween.kill();
+        };
+    }, []);
 
-            /* Stagger content fade-in */
-            gsap.fromTo(
-                [titleRef.current, subtitleRef.current, contentRef.current],
-                { y: 50, opacity: 0 },
-                {
-                    y: 0,
-                    opacity: 1,
-                    duration: 0.8,
-                    delay: 0.4,
-                    stagger: 0.1,
-                    ease: "power3.out",
-                }
-            );
-
-            /* Reset scroll position to top */
-            if (scrollRef.current) scrollRef.current.scrollTop = 0;
-        }
+    /* Reset scroll position to top whenever the story changes */
+    useEffect(() => {
+        if (scrollRef.current) scrollRef.current.scrollTop = 0;
     }, [project]);
 
     /* -------------------------------------------------------------------------
-     * handleClose — Animate the modal down and then hide it.
+     * handleClose — Animate the modal down and then hand control back.
      * ----------------------------------------------------------------------- */
     const handleClose = useCallback(() => {
         const modal = modalRef.current;
-        if (!modal) return;
+        if (!modal || isClosingRef.current) return;
+        isClosingRef.current = true;
 
         gsap.to(modal, {
             y: "100%",
             duration: 0.7,
             ease: "power3.inOut",
-            onComplete: () => {
-                modal.style.display = "none";
-                onClose();
-            },
+            onComplete: onClose,
         });
     }, [onClose]);
 
-    const effectiveVisibility = isVisible && Boolean(project);
+    /* Escape closes the modal, mirroring the close button (unless a
+     * nested overlay such as the gallery lightbox already handled it) */
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "Escape" && !e.defaultPrevented) handleClose();
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [handleClose]);
 
     return (
         <div
             ref={modalRef}
-            className={`fixed inset-0 z-[110] w-full h-full bg-[var(--color-bg)] transition-colors duration-500 overflow-hidden ${effectiveVisibility ? "opacity-100 pointer-events-auto" : "opacity-0 pointer-events-none"
-                }`}
-            style={{
-                visibility: effectiveVisibility ? "visible" : "hidden"
-            }}
+            role="dialog"
+            aria-modal="true"
+            aria-label={project.title}
+            className="fixed inset-0 z-[110] w-full h-full bg-[var(--color-bg)] transition-colors duration-500 overflow-hidden"
+            style={{ transform: "translateY(100%)" }}
         >
             {/* ---- Fixed Close Button ---- */}
             <div className="fixed top-0 left-0 w-full p-6 md:p-8 flex justify-between z-[110] pointer-events-none">
@@ -158,99 +142,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({ isVisible, projectIndex, on
                 className="absolute inset-0 w-full h-full overflow-y-auto overscroll-contain z-[105] bg-[var(--color-bg)]"
                 data-lenis-prevent
             >
-                {/* ==== Hero Image (80vh) ==== */}
-                <div className="w-full h-[80vh] relative">
-                    {project?.modalImage && (
-                        <img
-                            src={project.modalImage}
-                            alt={project.title}
-                            className="w-full h-full object-cover"
-                        />
-                    )}
-                    <div className="absolute inset-0 bg-gradient-to-t from-[var(--color-bg)] via-transparent to-transparent opacity-95" />
-
-                    <div className="absolute bottom-0 left-0 w-full p-6 md:p-12 pb-12">
-                        <div className="overflow-hidden">
-                            <h1
-                                ref={titleRef}
-                                className="font-display text-5xl md:text-8xl text-[var(--color-text)] transform -rotate-1 origin-bottom-left drop-shadow-2xl"
-                            >
-                                {project?.title}
-                            </h1>
-                        </div>
-                        <div className="mt-4 flex gap-4 items-center">
-                            <span
-                                ref={subtitleRef}
-                                className="px-3 py-1 border border-[var(--color-border)] rounded-full text-xs font-sans uppercase tracking-widest text-[var(--color-text-dim)] backdrop-blur-sm"
-                            >
-                                {project?.subtitle}
-                            </span>
-                        </div>
-                    </div>
-                </div>
-
-                {/* ==== Content Grid ==== */}
-                <div
-                    ref={contentRef}
-                    className="max-w-7xl mx-auto px-6 md:px-12 py-24 grid grid-cols-1 md:grid-cols-12 gap-16 text-[var(--color-text)]"
-                >
-                    <div className="md:col-span-7 flex flex-col gap-8">
-                        <h3 className="font-display text-3xl text-[var(--color-accent)] -rotate-1">
-                            The Story
-                        </h3>
-                        <p className="font-sans text-lg md:text-xl leading-relaxed text-[var(--color-text-dim)] font-light whitespace-pre-wrap">
-                            {project?.description}
-                        </p>
-
-                        <div className="grid grid-cols-2 gap-4 mt-12 w-full">
-                            <div className="aspect-[4/5] bg-[var(--color-surface)] rounded border border-[var(--color-border)]" />
-                            <div className="aspect-[4/5] bg-[var(--color-surface)] rounded border border-[var(--color-border)] mt-12" />
-                        </div>
-                    </div>
-
-                    <div className="md:col-span-5 flex flex-col gap-8 sticky top-24 h-fit">
-                        <h3 className="font-display text-3xl text-[var(--color-text)] rotate-1">
-                            Credits
-                        </h3>
-
-                        <div className="flex flex-col border-t border-[var(--color-border)]">
-                            {project?.credits.map((credit, i) => (
-                                <div
-                                    key={i}
-                                    className="flex justify-between items-center py-4 border-b border-[var(--color-border)] group hover:bg-[var(--color-surface)] transition-colors px-2"
-                                >
-                                    <span className="text-[var(--color-text-dim)] text-xs uppercase tracking-widest font-sans">
-                                        {credit.role}
-                                    </span>
-                                    <span className="text-[var(--color-text)] font-display text-lg tracking-wide">
-                                        {credit.name}
-                                    </span>
-                                </div>
-                            ))}
-                        </div>
-
-                        <div className="mt-12 p-6 border border-[var(--color-border)] rounded-lg bg-[var(--color-surface)]">
-                            <span className="font-display text-xl block mb-2 text-[var(--color-accent)]">
-                                Tech Specs
-                            </span>
-                            <ul className="font-sans text-sm text-[var(--color-text-dim)] space-y-2 font-mono">
-                                <li>Origin: De Deur, SA</li>
-                                <li>Status: Always Chaotic</li>
-                                <li>Frequency: High Speed</li>
-                            </ul>
-                        </div>
-                    </div>
-                </div>
-
-                {/* ==== "Next Project" CTA ==== */}
-                <div className="w-full py-32 flex justify-center border-t border-[var(--color-border)] mt-12 bg-[var(--color-bg)]">
-                    <button onClick={handleClose} className="group relative">
-                        <span className="font-display text-4xl md:text-6xl text-[var(--color-text)] group-hover:text-[var(--color-accent)] transition-colors">
-                            Next Story
-                        </span>
-                        <div className="h-1 w-0 bg-[var(--color-accent)] group-hover:w-full transition-all duration-300 mt-2" />
-                    </button>
-                </div>
+                <ProjectDetail project={project} onNavigate={onNavigate} />
             </div>
         </div>
     );
@@ -0,0 +1,83 @@
+/* ==========================================================================
+ * ProjectSpecs Component
+ * ==========================================================================
+ * The "Tech Specs" panel in the project story sidebar. Renders the
+ * project's structured `specs` rows — label, value, optional Iconify icon
+ * and optional outbound link.
+ *
+ * Fallback:
+ *   Projects without `specs` still get a panel built from the fields every
+ *   project has (`category` and `techDetails`), so the sidebar never shows
+ *   an empty box or stale placeholder copy.
+ *
+ * Props:
+ *   @prop project — The project whose specs should be listed.
+ * ========================================================================== */
+
+import React from "react";
+import { Icon } from "@iconify/react";
+import type { Project, ProjectSpec } from "../types";
+
+interface ProjectSpecsProps {
+    /** The project to describe */
+    project: Project;
+}
+
+/**
+ * resolveSpecs — The project's own specs, or a minimal set derived from
+ * the card metadata when none were authored.
+ */
+function resolveSpecs(project: Project): ProjectSpec[] {
+    if (project.specs && project.specs.length > 0) return project.specs;
+
+    return [
+        { label: "Category", value: project.category, icon: "lucide:tag" },
+        { label: "Tech", value: project.techDetails, icon: "lucide:cpu" },
+    ];
+}
+
+/**
+ * ProjectSpecs — Key/value spec list for a project.
+ */
+const ProjectSpecs: React.FC<ProjectSpecsProps> = ({ project }) => {
+    const specs = resolveSpecs(project);
+
+    return (
+        <div className="mt-12 p-6 border border-[var(--color-border)] rounded-lg bg-[var(--color-surface)]">
+            <span className="font-display text-xl block mb-4 text-[var(--color-accent)]">
+                Tech Specs
+            </span>
+            <dl className="font-mono text-sm text-[var(--color-text-dim)] space-y-3">
+                {specs.map((spec) => {
+                    const isMail = spec.href?.startsWith("mailto:");
+
+                    return (
+                        <div key={spec.label} className="flex items-start justify-between gap-6">
+                            <dt className="flex items-center gap-2 shrink-0 text-[10px] uppercase tracking-widest">
+                                {spec.icon && <Icon icon={spec.icon} width={14} className="text-[var(--color-accent)]" />}
+                                {spec.label}
+                            </dt>
+                            <dd className="text-right text-[var(--color-text)]">
+                                {spec.href ? (
+                                    <a
+                                        href={spec.href}
+                                        target={isMail ? undefined : "_blank"}
+                                        rel={isMail ? undefined : "noopener noreferrer"}
+                                        className="inline-flex items-center gap-1 hover:text-[var(--color-accent)] transition-colors"
+                                    >
+                                        {spec.value}
+                                        <Icon icon="lucide:arrow-up-right" width={12} />
+                                    </a>
+                                ) : (
+                                    spec.value
+                                )}
+                            </dd>
+                        </div>
+                    );
+                })}
+            </dl>
+        </div>
+    );
+};
+
+export default ProjectSpecs;
@@ -0,0 +1,57 @@
+import React, { useId } from "react";
+
+interface RangeControlProps {
+    /** Label shown above the slider */
+    label: string;
+    /** Current value */
+    value: number;
+    /** Slider bounds and step */
+    min: number;
+    max: number;
+    step?: number;
+    /** Formats the readout next to the label (defaults to the raw number) */
+    format?: (value: number) => string;
+    /** Called with the new value */
+    onChange: (value: number) => void;
+}
+
+/**
+ * RangeControl — A labelled slider with a live readout, used by the Lab
+ * demos for their tuning knobs.
+ */
+const RangeControl: React.FC<RangeControlProps> = ({
+    label,
+    value,
+    min,
+    max,
+    step = 1,
+    format = String,
+    onChange,
+}) => {
+    const id = useId();
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-baseline justify-between gap-4">
+                <label htmlFor={id} className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]">
+                    {label}
+                </label>
+                <output htmlFor={id} className="font-mono text-[10px] text-[var(--color-accent)]">
+                    {format(value)}
+                </output>
+            </div>
+            <input
+                id={id}
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+                className="w-full accent-[var(--color-accent)] cursor-pointer"
+            />
+        </div>
+    );
+};
+
+export default RangeControl;
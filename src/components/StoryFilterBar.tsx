@@ -0,0 +1,130 @@
+/* ==========================================================================
+ * StoryFilterBar Component
+ * ==========================================================================
+ * The controls above the home feed: a search field plus two rows of chips
+ * (categories, then tags). It is fully controlled — `HomeView` owns the
+ * filters (via the URL query string) and decides what to show.
+ *
+ * Behaviour:
+ *   • Clicking the active chip again clears that filter
+ *   • The "All" chip clears the category
+ *   • A result count and "clear" link appear whenever anything is active
+ *
+ * Props:
+ *   @prop filters     — The current `ProjectFilters`.
+ *   @prop categories  — Category chips to offer.
+ *   @prop tags        — Tag chips to offer (row hidden when empty).
+ *   @prop resultCount — How many stories match, shown as "03 found".
+ *   @prop onChange    — Called with the next filters.
+ * ========================================================================== */
+
+import React from "react";
+import { Icon } from "@iconify/react";
+import FilterChip from "./FilterChip";
+import type { ProjectFilters } from "../types";
+
+interface StoryFilterBarProps {
+    /** Current filter selection */
+    filters: ProjectFilters;
+    /** Available categories */
+    categories: string[];
+    /** Available tags */
+    tags: string[];
+    /** Number of stories matching `filters` */
+    resultCount: number;
+    /** Callback fired with the updated filters */
+    onChange: (filters: ProjectFilters) => void;
+}
+
+/**
+ * StoryFilterBar — Search + category/tag chips for the stories feed.
+ */
+const StoryFilterBar: React.FC<StoryFilterBarProps> = ({
+    filters,
+    categories,
+    tags,
+    resultCount,
+    onChange,
+}) => {
+    const isFiltered = Boolean(filters.category || filters.tag || filters.query);
+
+    return (
+        <div className="w-full max-w-4xl px-6 md:px-12 mb-24 flex flex-col items-center gap-6">
+            {/* ---- Search ---- */}
+            <label className="relative w-full max-w-md">
+                <span className="sr-only">Search stories</span>
+                <Icon
+                    icon="lucide:search"
+                    width={14}
+                    className="absolute left-0 top-1/2 -translate-y-1/2 text-[var(--color-text-dim)]"
+                />
+                <input
+                    type="search"
+                    value={filters.query}
+                    onChange={(e) => onChange({ ...filters, query: e.target.value })}
+                    placeholder="Search the archive…"
+                    className="w-full bg-transparent border-b border-[var(--color-border)] focus:border-[var(--color-accent)] outline-none pl-6 py-2 font-sans text-sm text-[var(--color-text)] placeholder:text-[var(--color-text-dim)]/50 transition-colors"
+                />
+            </label>
+
+            {/* ---- Categories ---- */}
+            <div className="flex flex-wrap justify-center gap-2" role="group" aria-label="Filter by category">
+                <FilterChip
+                    label="All"
+                    active={filters.category === null}
+                    onClick={() => onChange({ ...filters, category: null })}
+                />
+                {categories.map((category) => (
+                    <FilterChip
+                        key={category}
+                        label={category}
+                        active={filters.category === category}
+                        onClick={() =>
+                            onChange({ ...filters, category: filters.category === category ? null : category })
+                        }
+                    />
+                ))}
+            </div>
+
+            {/* ---- Tags ---- */}
+            {tags.length > 0 && (
+                <div className="flex flex-wrap justify-center gap-x-4 gap-y-2" role="group" aria-label="Filter by tag">
+                    {tags.map((tag) => {
+                        const active = filters.tag === tag;
+                        return (
+                            <button
+                                key={tag}
+                                type="button"
+                                aria-pressed={active}
+                                onClick={() => onChange({ ...filters, tag: active ? null : tag })}
+                                className={`font-mono text-[10px] uppercase tracking-widest transition-colors nav-link ${active
+                                    ? "text-[var(--color-accent)] line-through decoration-1"
+                                    : "text-[var(--color-text-dim)]/60 hover:text-[var(--color-accent)]"
+                                    }`}
+                            >
+                                #{tag}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* ---- Result count ---- */}
+            {isFiltered && (
+                <div className="flex items-center gap-4 font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]" aria-live="polite">
+                    <span>{String(resultCount).padStart(2, "0")} found</span>
+                    <span className="w-6 h-px bg-[var(--color-border)]" />
+                    <button
+                        type="button"
+                        onClick={() => onChange({ category: null, tag: null, query: "" })}
+                        className="text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors nav-link"
+                    >
+                        Clear
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StoryFilterBar;
@@ -0,0 +1,89 @@
+/* ==========================================================================
+ * StoryNavigation Component
+ * ==========================================================================
+ * The "Previous Story / Next Story" strip at the bottom of a project detail.
+ * Each side previews its destination with the project's `cardImage` tilted
+ * like a film still, plus the title in the handwritten display font.
+ *
+ * Layout:
+ *   ┌───────────────────┬───────────────────┐
+ *   │ ← Previous Story  │     Next Story →  │
+ *   │ [thumb] Title     │     Title [thumb] │
+ *   └───────────────────┴───────────────────┘
+ *
+ * Props:
+ *   @prop previous   — The project before the current one (wraps around).
+ *   @prop next       — The project after the current one (wraps around).
+ *   @prop onNavigate — Callback fired with the chosen project.
+ * ========================================================================== */
+
+import React from "react";
+import { Icon } from "@iconify/react";
+import type { Project } from "../types";
+
+interface StoryNavigationProps {
+    /** Project reached by "Previous Story" */
+    previous: Project;
+    /** Project reached by "Next Story" */
+    next: Project;
+    /** Callback fired when either side is chosen */
+    onNavigate: (project: Project) => void;
+}
+
+/**
+ * StoryNavigation — Previous/next CTA pair with destination previews.
+ */
+const StoryNavigation: React.FC<StoryNavigationProps> = ({ previous, next, onNavigate }) => {
+    const sides = [
+        { project: previous, label: "Previous Story", icon: "lucide:arrow-left", align: "start" },
+        { project: next, label: "Next Story", icon: "lucide:arrow-right", align: "end" },
+    ] as const;
+
+    return (
+        <nav
+            aria-label="Story navigation"
+            className="w-full grid grid-cols-1 md:grid-cols-2 border-t border-[var(--color-border)] mt-12 bg-[var(--color-bg)]"
+        >
+            {sides.map(({ project, label, icon, align }) => (
+                <button
+                    key={label}
+                    onClick={() => onNavigate(project)}
+                    className={`group relative flex items-center gap-6 md:gap-10 px-6 md:px-12 py-20 md:py-32 overflow-hidden text-left ${align === "end"
+                        ? "md:flex-row-reverse md:text-right border-t md:border-t-0 md:border-l border-[var(--color-border)]"
+                        : ""
+                        }`}
+                >
+                    {/* Accent wash on hover */}
+                    <div className="absolute inset-0 bg-[var(--color-accent)] opacity-0 group-hover:opacity-5 transition-opacity duration-700" />
+
+                    {/* Destination preview — film-still thumbnail */}
+                    <div
+                        className="relative shrink-0 w-24 md:w-40 aspect-[4/5] p-1.5 film-card rounded-sm rotate-[var(--tilt)] group-hover:rotate-0"
+                        style={{ "--tilt": project.rotation } as React.CSSProperties}
+                    >
+                        <img
+                            src={project.cardImage}
+                            alt=""
+                            loading="lazy"
+                            className="w-full h-full object-cover grayscale-[30%] contrast-110 group-hover:grayscale-0 transition-all duration-700"
+                        />
+                    </div>
+
+                    <div className={`relative flex flex-col gap-3 min-w-0 ${align === "end" ? "md:items-end" : ""}`}>
+                        <span className="flex items-center gap-2 font-sans text-[10px] uppercase tracking-[0.3em] text-[var(--color-text-dim)]">
+                            {align === "start" && <Icon icon={icon} className="group-hover:-translate-x-1 transition-transform" />}
+                            {label}
+                            {align === "end" && <Icon icon={icon} className="group-hover:translate-x-1 transition-transform" />}
+                        </span>
+                        <span className="font-display text-2xl md:text-4xl text-[var(--color-text)] group-hover:text-[var(--color-accent)] transition-colors">
+                            {project.title}
+                        </span>
+                        <div className={`h-1 w-0 bg-[var(--color-accent)] group-hover:w-full transition-all duration-300 ${align === "end" ? "md:self-end" : ""}`} />
+                    </div>
+                </button>
+            ))}
+        </nav>
+    );
+};
+
+export default StoryNavigation;
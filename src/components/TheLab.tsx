@@ -7,76 +7,54 @@
  *
  * The layout uses CSS grid with intentional overlap and varied sizes,
  * reinforcing the "controlled chaos" brand. Cards animate in with
- * GSAP ScrollTrigger stagger.
+ * GSAP ScrollTrigger stagger, and each one links to its `/lab/:slug` page.
  *
- * Data is kept inline since experiments are lightweight and few.
+ * Data lives in `data/experiments.ts` — the home page passes the featured
+ * subset, the Lab page the full catalogue.
+ *
+ * Props:
+ *   @prop experiments       — Experiments to show, in order.
+ *   @prop showCatalogueLink — Adds a "see every experiment" link to /lab.
+ *   @prop toolbar           — Optional controls between the header and grid
+ *                             (the Lab page's filter bar).
+ *   @prop emptyState        — Shown instead of the grid when `experiments`
+ *                             is empty.
  * ========================================================================== */
 
 import React, { useEffect, useRef } from "react";
+import { Link } from "react-router-dom";
 import gsap from "gsap";
 import { ScrollTrigger } from "gsap/ScrollTrigger";
+import { Icon } from "@iconify/react";
+import { STATUS_COLOURS } from "../data/experiments";
+import type { Experiment } from "../types";
 
 gsap.registerPlugin(ScrollTrigger);
 
-/* ---- Experiment data ---- */
-interface Experiment {
-    title: string;
-    description: string;
-    status: "WIP" | "LIVE" | "ARCHIVED";
-    tags: string[];
+interface TheLabProps {
+    /** Experiments to render */
+    experiments: Experiment[];
+    /** Show a link to the full catalogue under the grid */
+    showCatalogueLink?: boolean;
+    /** Controls rendered above the grid */
+    toolbar?: React.ReactNode;
+    /** Rendered when there are no experiments to show */
+    emptyState?: React.ReactNode;
 }
 
-const EXPERIMENTS: Experiment[] = [
-    {
-        title: "Noise Typography",
-        description:
-            "Rendering text through generative noise fields. Each glyph is a living, breathing particle system.",
-        status: "WIP",
-        tags: ["canvas", "typography", "generative"],
-    },
-    {
-        title: "Colour Mood Engine",
-        description:
-            "An adaptive palette system that shifts based on time of day, cursor speed, and scroll depth.",
-        status: "LIVE",
-        tags: ["CSS", "theming", "adaptive"],
-    },
-    {
-        title: "Glitch Portraits",
-        description:
-            "Pixel-sorted portraits with WebGL displacement. Hover to destroy, release to rebuild.",
-        status: "WIP",
-        tags: ["WebGL", "GLSL", "interactive"],
-    },
-    {
-        title: "Ink Physics",
-        description:
-            "Simulating ink spreading on parchment using cellular automata. Organic, unrepeatable patterns.",
-        status: "ARCHIVED",
-        tags: ["simulation", "canvas", "procedural"],
-    },
-    {
-        title: "Audio Geometry",
-        description:
-            "Translating audio frequencies into 3D mesh deformations. Sound you can see and feel.",
-        status: "WIP",
-        tags: ["Web Audio", "three.js", "realtime"],
-    },
-];
-
-/** Status badge colour mapping */
-const STATUS_COLOURS: Record<Experiment["status"], string> = {
-    WIP: "bg-amber-500/20 text-amber-400 border-amber-500/30",
-    LIVE: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30",
-    ARCHIVED: "bg-zinc-500/20 text-zinc-400 border-zinc-500/30",
-};
-
 /**
  * TheLab — Freeform experiments showcase section.
  */
-const TheLab: React.FC = () => {
+const TheLab: React.FC<TheLabProps> = ({
+    experiments,
+    showCatalogueLink = false,
+    toolbar,
+    emptyState,
+}) => {
     const sectionRef = useRef<HTMLElement>(null);
 
+    /* Scroll reveal for the cards present on mount. Cards added later (the
+       Lab page's filters) are animated in by whoever changed the list. */
     useEffect(() => {
         const cards = sectionRef.current?.querySelectorAll(".lab-card");
         if (!cards || cards.length === 0) return;
@@ -127,12 +105,17 @@ const TheLab: React.FC = () => {
                 </p>
             </div>
 
+            {toolbar}
+
+            {experiments.length === 0 && emptyState}
+
             {/* ---- Experiment Cards Grid ---- */}
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
-                {EXPERIMENTS.map((exp, i) => (
-                    <div
-                        key={exp.title}
-                        className={`lab-card group relative p-6 rounded-sm border border-[var(--color-border)] bg-[var(--color-surface)] backdrop-blur-sm hover:scale-[1.02] transition-all duration-500 cursor-pointer ${i === 0
+                {experiments.map((exp, i) => (
+                    <Link
+                        key={exp.slug}
+                        to={`/lab/${exp.slug}`}
+                        className={`lab-card group relative block p-6 rounded-sm border border-[var(--color-border)] bg-[var(--color-surface)] backdrop-blur-sm hover:scale-[1.02] transition-all duration-500 cursor-pointer ${i === 0
                             ? "sm:col-span-2 lg:col-span-2"
                             : ""
                             }`}
@@ -141,6 +124,17 @@ const TheLab: React.FC = () => {
                             transform: `rotate(${((i * 123) % 4) - 2}deg)`,
                         }}
                     >
+                        {/* Thumbnail */}
+                        <div className="relative w-full aspect-[16/9] overflow-hidden mb-4 border border-[var(--color-border)] bg-[var(--color-bg)]">
+                            <img
+                                src={exp.thumbnail}
+                                alt=""
+                                loading="lazy"
+                                decoding="async"
+                                className="w-full h-full object-cover grayscale-[60%] contrast-110 opacity-70 group-hover:grayscale-0 group-hover:opacity-100 group-hover:scale-105 transition-all duration-700 ease-out"
+                            />
+                        </div>
+
                         {/* Status badge */}
                         <span
                             className={`inline-block px-2 py-0.5 text-[10px] uppercase tracking-wider rounded-full border mb-4 ${STATUS_COLOURS[exp.status]}`}
@@ -172,9 +166,19 @@ const TheLab: React.FC = () => {
 
                         {/* Hover line accent */}
                         <div className="absolute bottom-0 left-0 h-[2px] w-0 bg-[var(--color-accent)] group-hover:w-full transition-all duration-500" />
-                    </div>
+                    </Link>
                 ))}
             </div>
+
+            {showCatalogueLink && (
+                <Link
+                    to="/lab"
+                    className="group mt-16 inline-flex items-center gap-3 font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors duration-300 nav-link"
+                >
+                    <span>Every experiment, failed ones included</span>
+                    <Icon icon="lucide:arrow-right" className="group-hover:translate-x-1 transition-transform" />
+                </Link>
+            )}
         </section>
     );
 };
@@ -0,0 +1,209 @@
+/* ==========================================================================
+ * Timeline Component
+ * ==========================================================================
+ * A vertical career timeline for the Work page. Renders any number of
+ * `Experience` / `Education` entries along a single accent rail.
+ *
+ * Each entry shows:
+ *   • An eyebrow — "Currently Manifesting" / "Currently Studying" while the
+ *     entry is ongoing, "Previously" / "The Academic Dungeon" once it's done
+ *   • The company or institution, with an optional outbound link
+ *   • The role or qualification and its date range
+ *   • Summary, optional highlights and skill chips
+ *
+ * Animations:
+ *   • The rail draws itself as the section scrolls through (scrubbed)
+ *   • Entries slide in from the left as they reach 80% of the viewport
+ *
+ * Props:
+ *   @prop entries — Timeline entries, already in display order.
+ *   @prop now     — Reference date for "current" detection (default: today).
+ * ========================================================================== */
+
+import React, { useEffect, useRef } from "react";
+import gsap from "gsap";
+import { ScrollTrigger } from "gsap/ScrollTrigger";
+import { Icon } from "@iconify/react";
+import { formatDateRange, isCurrent } from "../data/work";
+import type { TimelineEntry } from "../types";
+
+gsap.registerPlugin(ScrollTrigger);
+
+interface TimelineProps {
+    /** Entries to render, top to bottom */
+    entries: TimelineEntry[];
+    /** Date used to decide which entries are ongoing */
+    now?: Date;
+}
+
+/** Eyebrow copy per kind, for ongoing vs. finished entries */
+const EYEBROWS: Record<TimelineEntry["kind"], { current: string; past: string }> = {
+    experience: { current: "Currently Manifesting", past: "Previously" },
+    education: { current: "Currently Studying", past: "The Academic Dungeon" },
+};
+
+/** "https://www.example.co.za/path" → "example.co.za" */
+const displayHost = (url: string) => {
+    try {
+        return new URL(url).hostname.replace(/^www\./, "");
+    } catch {
+        return url;
+    }
+};
+
+/**
+ * Timeline — Scroll-animated list of roles and studies.
+ */
+const Timeline: React.FC<TimelineProps> = ({ entries, now }) => {
+    const listRef = useRef<HTMLOListElement>(null);
+    const railRef = useRef<HTMLSpanElement>(null);
+
+    /* -------------------------------------------------------------------------
+     * Scroll animations — rail draw + entry reveal
+     * ----------------------------------------------------------------------- */
+    useEffect(() => {
+        const list = listRef.current;
+        const rail = railRef.current;
+        if (!list || !rail) return;
+
+        const railTween = gsap.fromTo(
+            rail,
+            { scaleY: 0 },
+            {
+                scaleY: 1,
+                ease: "none",
+                scrollTrigger: {
+                    trigger: list,
+                    start: "top 80%",
+                    end: "bottom 60%",
+                    scrub: true,
+                },
+            }
+        );
+
+        const items = list.querySelectorAll<HTMLElement>(".timeline-entry");
+        const itemTweens = Array.from(items).map((item) =>
+            gsap.fromTo(
+                item,
+                { opacity: 0, x: -30 },
+                {
+                    opacity: 1,
+                    x: 0,
+                    duration: 0.9,
+                    ease: "power3.out",
+                    scrollTrigger: {
+                        trigger: item,
+                        start: "top 80%",
+                        toggleActions: "play none none reverse",
+                    },
+                }
+            )
+        );
+
+        return () => {
+            [railTween, ...itemTweens].forEach((tween) => {
+                tween.scrollTrigger?.kill();
+                tween.kill();
+            });
+        };
+    }, [entries]);
+
+    return (
+        <ol ref={listRef} className="relative flex flex-col gap-16 pl-8 md:pl-12">
+            {/* The rail — a static hairline with the accent drawn over it */}
+            <span className="absolute left-0 top-2 bottom-2 w-px bg-[var(--color-border)]" aria-hidden="true" />
+            <span
+                ref={railRef}
+                className="absolute left-0 top-2 bottom-2 w-px bg-[var(--color-accent)] origin-top"
+                aria-hidden="true"
+            />
+
+            {entries.map((entry) => {
+                const current = isCurrent(entry, now);
+                const eyebrow = EYEBROWS[entry.kind][current ? "current" : "past"];
+                const heading = entry.kind === "experience" ? entry.company : entry.institution;
+                const detail = entry.kind === "experience" ? entry.role : entry.qualification;
+
+                return (
+                    <li key={entry.id} className="timeline-entry relative group">
+                        {/* Node on the rail — pulses for ongoing entries */}
+                        <span
+                            className={`absolute -left-8 md:-left-12 top-2 -translate-x-1/2 w-3 h-3 rounded-full border border-[var(--color-accent)] ${current ? "bg-[var(--color-accent)] animate-pulse" : "bg-[var(--color-bg)]"}`}
+                            aria-hidden="true"
+                        />
+
+                        <div className="flex flex-col md:flex-row md:items-start justify-between gap-6 md:gap-12">
+                            {/* ---- Who / where ---- */}
+                            <div className="flex flex-col gap-4">
+                                <span className={`font-sans text-[10px] uppercase tracking-widest ${current ? "text-[var(--color-accent)]" : "text-[var(--color-text-dim)]"}`}>
+                                    {eyebrow}
+                                </span>
+                                <h2 className="font-display text-4xl md:text-6xl text-[var(--color-text)]">
+                                    {heading}
+                                </h2>
+                                <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-xs font-mono text-[var(--color-text-dim)]">
+                                    {entry.url && (
+                                        <a
+                                            href={entry.url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="flex items-center gap-2 hover:text-[var(--color-accent)] transition-colors"
+                                        >
+                                            <Icon icon="lucide:external-link" width={12} />
+                                            {displayHost(entry.url)}
+                                        </a>
+                                    )}
+                                    {entry.location && (
+                                        <span className="flex items-center gap-2">
+                                            <Icon icon="lucide:map-pin" width={12} />
+                                            {entry.location}
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+
+                            {/* ---- What / when ---- */}
+                            <div className="flex flex-col gap-4 md:text-right md:max-w-md">
+                                <div className="flex flex-col gap-1">
+                                    <span className="text-2xl font-display text-[var(--color-text)]">{detail}</span>
+                                    <span className="font-mono text-xs opacity-40">
+                                        <time dateTime={entry.start}>{formatDateRange(entry)}</time>
+                                    </span>
+                                </div>
+                                <p className="text-[var(--color-text-dim)] font-sans text-sm leading-relaxed">
+                                    {entry.summary}
+                                </p>
+
+                                {entry.highlights && entry.highlights.length > 0 && (
+                                    <ul className="flex flex-col gap-2 font-sans text-sm text-[var(--color-text-dim)] md:items-end">
+                                        {entry.highlights.map((highlight) => (
+                                            <li key={highlight} className="flex items-start gap-2">
+                                                <span className="text-[var(--color-accent)]">—</span>
+                                                {highlight}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+
+                                {entry.skills && entry.skills.length > 0 && (
+                                    <div className="flex flex-wrap gap-2 md:justify-end">
+                                        {entry.skills.map((skill) => (
+                                            <span
+                                                key={skill}
+                                                className="px-3 py-1 border border-[var(--color-border)] rounded text-[10px] uppercase tracking-widest font-mono text-[var(--color-text-dim)]"
+                                            >
+                                                {skill}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </li>
+                );
+            })}
+        </ol>
+    );
+};
+
+export default Timeline;
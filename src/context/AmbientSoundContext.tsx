@@ -0,0 +1,187 @@
+/* ==========================================================================
+ * AmbientSoundContext — Shared Ambient Audio Graph
+ * ==========================================================================
+ * Owns the procedurally generated soundscape (no audio files needed):
+ *   - A low-frequency oscillator (bass drone) plus a second harmonic
+ *   - Filtered brown noise (atmospheric hiss)
+ *   - A master gain for smooth fade-in/out
+ *
+ * It lives in context rather than inside the toggle button so other parts
+ * of the site can listen in — the Audio Geometry experiment taps the
+ * master gain with an AnalyserNode.
+ *
+ * Respects user preference — the graph is only built on the first
+ * explicit play, and audio never auto-plays.
+ * ========================================================================== */
+
+import React, { createContext, useCallback, useContext, useRef, useState } from "react";
+
+/** A live analyser fed from the ambient mix */
+export interface AmbientTap {
+    analyser: AnalyserNode;
+    /** Disconnect the analyser from the graph */
+    release: () => void;
+}
+
+interface AmbientSoundContextType {
+    /** Whether the soundscape is currently audible */
+    isPlaying: boolean;
+    /** Start (building the graph on first use) or fade out and suspend */
+    toggle: () => void;
+    /** Dim and low-pass the soundscape, e.g. while the menu is open */
+    setMuffled: (muffled: boolean) => void;
+    /**
+     * Feed the master mix into a new AnalyserNode. Returns null until the
+     * graph has been built by a first play.
+     */
+    createTap: (fftSize?: number) => AmbientTap | null;
+}
+
+const AmbientSoundContext = createContext<AmbientSoundContextType | undefined>(undefined);
+
+/** Nodes kept around for real-time modulation */
+interface AmbientGraph {
+    ctx: AudioContext;
+    masterGain: GainNode;
+    filter: BiquadFilterNode;
+    oscGain: GainNode;
+    osc2Gain: GainNode;
+}
+
+/**
+ * buildAmbientGraph — Builds the audio graph, silent until faded in.
+ */
+function buildAmbientGraph(): AmbientGraph {
+    const ctx = new AudioContext();
+    const masterGain = ctx.createGain();
+    masterGain.gain.value = 0;
+    masterGain.connect(ctx.destination);
+
+    /* Low drone oscillator */
+    const osc = ctx.createOscillator();
+    osc.type = "sine";
+    osc.frequency.value = 55; // A1 — deep bass
+    const oscGain = ctx.createGain();
+    oscGain.gain.value = 0.08;
+    osc.connect(oscGain);
+    oscGain.connect(masterGain);
+    osc.start();
+
+    /* Second harmonic for warmth */
+    const osc2 = ctx.createOscillator();
+    osc2.type = "sine";
+    osc2.frequency.value = 82.5; // E2
+    const osc2Gain = ctx.createGain();
+    osc2Gain.gain.value = 0.04;
+    osc2.connect(osc2Gain);
+    osc2Gain.connect(masterGain);
+    osc2.start();
+
+    /* Brown noise — filtered white noise */
+    const bufferSize = 2 * ctx.sampleRate;
+    const noiseBuffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+    const output = noiseBuffer.getChannelData(0);
+    let lastOut = 0;
+    for (let i = 0; i < bufferSize; i++) {
+        const white = Math.random() * 2 - 1;
+        output[i] = (lastOut + 0.02 * white) / 1.02;
+        lastOut = output[i];
+        output[i] *= 3.5; // boost
+    }
+    const noiseSource = ctx.createBufferSource();
+    noiseSource.buffer = noiseBuffer;
+    noiseSource.loop = true;
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = "lowpass";
+    filter.frequency.value = 200;
+
+    const noiseGain = ctx.createGain();
+    noiseGain.gain.value = 0.06;
+
+    noiseSource.connect(filter);
+    filter.connect(noiseGain);
+    noiseGain.connect(masterGain);
+    noiseSource.start();
+
+    return { ctx, masterGain, filter, oscGain, osc2Gain };
+}
+
+/**
+ * AmbientSoundProvider — Holds the lazily built graph and play state.
+ */
+export const AmbientSoundProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [isPlaying, setIsPlaying] = useState(false);
+    const graphRef = useRef<AmbientGraph | null>(null);
+
+    /**
+     * toggle — Start or stop the ambient audio with a smooth fade.
+     */
+    const toggle = useCallback(() => {
+        if (isPlaying) {
+            /* Fade out and suspend */
+            const graph = graphRef.current;
+            if (graph) {
+                graph.masterGain.gain.linearRampToValueAtTime(0, graph.ctx.currentTime + 0.5);
+                setTimeout(() => graph.ctx.suspend(), 600);
+            }
+            setIsPlaying(false);
+        } else {
+            if (!graphRef.current) {
+                /* First play — create audio graph */
+                graphRef.current = buildAmbientGraph();
+            } else {
+                /* Resume existing context */
+                graphRef.current.ctx.resume();
+            }
+            const { ctx, masterGain } = graphRef.current;
+            masterGain.gain.linearRampToValueAtTime(1, ctx.currentTime + 1.5);
+            setIsPlaying(true);
+        }
+    }, [isPlaying]);
+
+    /**
+     * setMuffled — Lower the cut-off frequency and dim the drones.
+     */
+    const setMuffled = useCallback((muffled: boolean) => {
+        const graph = graphRef.current;
+        if (!graph) return;
+        const { ctx, filter, oscGain, osc2Gain } = graph;
+
+        filter.frequency.exponentialRampToValueAtTime(muffled ? 80 : 200, ctx.currentTime + 0.8);
+        oscGain.gain.linearRampToValueAtTime(muffled ? 0.04 : 0.08, ctx.currentTime + 0.8);
+        osc2Gain.gain.linearRampToValueAtTime(muffled ? 0.02 : 0.04, ctx.currentTime + 0.8);
+    }, []);
+
+    const createTap = useCallback((fftSize = 2048): AmbientTap | null => {
+        const graph = graphRef.current;
+        if (!graph) return null;
+
+        /* Analysers don't need to reach the speakers to be fed */
+        const analyser = graph.ctx.createAnalyser();
+        analyser.fftSize = fftSize;
+        graph.masterGain.connect(analyser);
+
+        return {
+            analyser,
+            release: () => graph.masterGain.disconnect(analyser),
+        };
+    }, []);
+
+    return (
+        <AmbientSoundContext.Provider value={{ isPlaying, toggle, setMuffled, createTap }}>
+            {children}
+        </AmbientSoundContext.Provider>
+    );
+};
+
+/**
+ * useAmbientSound — Hook to consume the ambient audio context.
+ */
+export const useAmbientSound = () => {
+    const context = useContext(AmbientSoundContext);
+    if (!context) {
+        throw new Error("useAmbientSound must be used within an AmbientSoundProvider");
+    }
+    return context;
+};
@@ -1,29 +1,130 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from "react";
+import { startAutoMood } from "../lib/autoMood";
+import {
+    applyPalette,
+    clearPalette,
+    decodePalette,
+    encodePalette,
+    readMoodPalette,
+    type MoodPalette,
+} from "../lib/palette";
 
-/** All available mood/theme names */
+/** All preset mood/theme names */
 export const MOODS = ["default", "midnight", "ember", "toxic", "ghost"] as const;
-export type Mood = (typeof MOODS)[number];
+export type PresetMood = (typeof MOODS)[number];
+
+/** The visitor-built palette (see `MoodBuilder`) — it has no CSS block */
+export const CUSTOM_MOOD = "custom";
+export type Mood = PresetMood | typeof CUSTOM_MOOD;
+
+/** Every preset mood comes in a dark and a light variant */
+export const SCHEMES = ["dark", "light"] as const;
+export type Scheme = (typeof SCHEMES)[number];
+
+/** localStorage key for the encoded custom palette */
+const CUSTOM_PALETTE_KEY = "khaotic-mood-custom";
+
+/** localStorage key for the visitor's light/dark choice */
+const SCHEME_KEY = "khaotic-scheme";
+
+/** The OS-level preference, consulted until the visitor picks a scheme */
+const PREFERS_LIGHT = "(prefers-color-scheme: light)";
 
 interface MoodContextType {
     mood: Mood;
     setMood: (newMood: Mood) => void;
     cycleMood: () => void;
+    /** Whether the palette is being blended automatically (see `lib/autoMood`) */
+    autoMood: boolean;
+    /** Turn auto mode on/off — picking a mood by hand also turns it off */
+    setAutoMood: (enabled: boolean) => void;
+    /** The saved (or shared-link) custom palette, if there is one */
+    customPalette: MoodPalette | null;
+    /** Save a custom palette and switch to it */
+    setCustomPalette: (palette: MoodPalette) => void;
+    /** Light or dark variant of the current mood */
+    scheme: Scheme;
+    /** Pick a scheme (persisted — the OS preference stops applying) */
+    setScheme: (scheme: Scheme) => void;
+    toggleScheme: () => void;
+    /** A mood shown temporarily (e.g. while hovering a picker swatch), or null */
+    previewMood: Mood | null;
+    /** Start/end a preview — nothing is saved */
+    setPreviewMood: (mood: Mood | null) => void;
 }
 
 const MoodContext = createContext<MoodContextType | undefined>(undefined);
 
+/** readSavedPalette — The custom palette from localStorage, if valid */
+function readSavedPalette(): MoodPalette | null {
+    if (typeof window === "undefined") return null;
+    const encoded = localStorage.getItem(CUSTOM_PALETTE_KEY);
+    return encoded ? decodePalette(encoded) : null;
+}
+
+/** readSharedPalette — A palette from a `?palette=` share link, if valid */
+function readSharedPalette(): MoodPalette | null {
+    if (typeof window === "undefined") return null;
+    const encoded = new URLSearchParams(window.location.search).get("palette");
+    return encoded ? decodePalette(encoded) : null;
+}
+
+/** readSavedMood — The last mood picked by hand */
+function readSavedMood(): Mood {
+    if (typeof window !== "undefined") {
+        const saved = localStorage.getItem("khaotic-mood");
+        if (saved === CUSTOM_MOOD && readSavedPalette()) return CUSTOM_MOOD;
+        return (MOODS as readonly string[]).includes(saved ?? "") ? (saved as PresetMood) : "default";
+    }
+    return "default";
+}
+
+/** readSavedScheme — The saved scheme, else whatever the OS prefers */
+function readSavedScheme(): Scheme {
+    if (typeof window === "undefined") return "dark";
+    const saved = localStorage.getItem(SCHEME_KEY);
+    if (saved === "dark" || saved === "light") return saved;
+    return window.matchMedia(PREFERS_LIGHT).matches ? "light" : "dark";
+}
+
+/** applySchemeAttribute — Mirror the scheme onto <html> and <body> for the CSS */
+function applySchemeAttribute(scheme: Scheme): void {
+    document.documentElement.setAttribute("data-scheme", scheme);
+    document.body.setAttribute("data-scheme", scheme);
+}
+
 /**
- * MoodProvider — Managed a `data-mood` attribute on `document.body`.
+ * MoodProvider — Managed the `data-mood` and `data-scheme` attributes on
+ * `document.body`.
  * Centralizes theme state for the entire application.
  */
 export const MoodProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const [mood, setMoodState] = useState<Mood>(() => {
-        if (typeof window !== "undefined") {
-            const saved = localStorage.getItem("khaotic-mood") as Mood;
-            return MOODS.includes(saved) ? saved : "default";
+    /* A shared link shows its palette for this visit without overwriting
+     * anything the visitor has saved */
+    const [sharedPalette] = useState(readSharedPalette);
+    const [customPalette, setCustomPaletteState] = useState<MoodPalette | null>(
+        () => sharedPalette ?? readSavedPalette()
+    );
+    const [mood, setMoodState] = useState<Mood>(() => (sharedPalette ? CUSTOM_MOOD : readSavedMood()));
+    const [autoMood, setAutoMoodState] = useState<boolean>(
+        () => !sharedPalette && typeof window !== "undefined" && localStorage.getItem("khaotic-mood-auto") === "on"
+    );
+    const [scheme, setSchemeState] = useState<Scheme>(readSavedScheme);
+    const [previewMood, setPreviewMood] = useState<Mood | null>(null);
+
+    /**
+     * setAutoMood — Hand the palette to the auto blend, or take it back.
+     * Turning it off restores the last mood picked by hand.
+     */
+    const setAutoMood = useCallback((enabled: boolean) => {
+        if (enabled) {
+            localStorage.setItem("khaotic-mood-auto", "on");
+        } else {
+            localStorage.removeItem("khaotic-mood-auto");
+            setMoodState(readSavedMood());
         }
-        return "default";
-    });
+        setAutoMoodState(enabled);
+    }, []);
 
     /**
      * setMood — Apply a specific mood.
@@ -35,15 +136,46 @@ export const MoodProvider: React.FC<{ children: React.ReactNode }> = ({ children
         /* Apply new mood */
         document.body.setAttribute("data-mood", newMood);
         localStorage.setItem("khaotic-mood", newMood);
+        localStorage.removeItem("khaotic-mood-auto");
+        setAutoMoodState(false);
         setMoodState(newMood);
     }, []);
 
     /**
-     * cycleMood — Cycle through all available moods.
+     * setCustomPalette — Save a palette as the custom mood and apply it.
+     */
+    const setCustomPalette = useCallback((palette: MoodPalette) => {
+        localStorage.setItem(CUSTOM_PALETTE_KEY, encodePalette(palette));
+        setCustomPaletteState(palette);
+        setMood(CUSTOM_MOOD);
+    }, [setMood]);
+
+    /**
+     * setScheme — Switch every mood to its light or dark variant.
+     * The attribute is written straight away (like `setMood`) so anything
+     * re-reading colours on the resulting render sees the new palette.
+     */
+    const setScheme = useCallback((newScheme: Scheme) => {
+        applySchemeAttribute(newScheme);
+        localStorage.setItem(SCHEME_KEY, newScheme);
+        setSchemeState(newScheme);
+    }, []);
+
+    /**
+     * toggleScheme — Flip between the dark and light variants.
+     */
+    const toggleScheme = useCallback(() => {
+        setScheme(scheme === "dark" ? "light" : "dark");
+    }, [scheme, setScheme]);
+
+    /**
+     * cycleMood — Cycle through the preset moods (custom steps back to the start).
      */
     const cycleMood = useCallback(() => {
+        localStorage.removeItem("khaotic-mood-auto");
+        setAutoMoodState(false);
         setMoodState((prev) => {
-            const currentIndex = MOODS.indexOf(prev);
+            const currentIndex = (MOODS as readonly string[]).indexOf(prev);
             const nextIndex = (currentIndex + 1) % MOODS.length;
             const next = MOODS[nextIndex];
 
@@ -59,8 +191,63 @@ export const MoodProvider: React.FC<{ children: React.ReactNode }> = ({ children
         document.body.setAttribute("data-mood", mood);
     }, [mood]);
 
+    useEffect(() => {
+        applySchemeAttribute(scheme);
+    }, [scheme]);
+
+    /* Until the visitor picks a scheme, follow the OS if it switches */
+    useEffect(() => {
+        if (localStorage.getItem(SCHEME_KEY)) return;
+        const query = window.matchMedia(PREFERS_LIGHT);
+        const handleChange = (e: MediaQueryListEvent) => {
+            if (!localStorage.getItem(SCHEME_KEY)) setSchemeState(e.matches ? "light" : "dark");
+        };
+        query.addEventListener("change", handleChange);
+        return () => query.removeEventListener("change", handleChange);
+    }, []);
+
+    /* Auto mode — the blend reports whichever mood leads, which keeps
+     * `data-mood` (and anything keyed on `mood`) roughly in step. It
+     * restarts on a scheme change so it blends that scheme's palettes, and
+     * sits out previews so they aren't painted over. */
+    useEffect(() => {
+        if (!autoMood || previewMood) return;
+        return startAutoMood(setMoodState);
+    }, [autoMood, scheme, previewMood]);
+
+    /* Inline palettes — there's no `[data-mood="custom"]` rule, so the
+     * custom mood is written inline (and removed again when another mood
+     * takes over). It's shown exactly as built, whichever scheme is
+     * selected. A preview is written the same way and wins while it lasts. */
+    useEffect(() => {
+        let palette: MoodPalette | null = null;
+        if (previewMood) {
+            palette = previewMood === CUSTOM_MOOD ? customPalette : readMoodPalette(previewMood, scheme);
+        } else if (!autoMood && mood === CUSTOM_MOOD) {
+            palette = customPalette;
+        }
+        if (!palette) return;
+        applyPalette(palette);
+        return clearPalette;
+    }, [previewMood, autoMood, mood, customPalette, scheme]);
+
     return (
-        <MoodContext.Provider value={{ mood, setMood, cycleMood }}>
+        <MoodContext.Provider
+            value={{
+                mood,
+                setMood,
+                cycleMood,
+                autoMood,
+                setAutoMood,
+                customPalette,
+                setCustomPalette,
+                scheme,
+                setScheme,
+                toggleScheme,
+                previewMood,
+                setPreviewMood,
+            }}
+        >
             {children}
         </MoodContext.Provider>
     );
@@ -0,0 +1,84 @@
+import React, { createContext, useContext, useState, useCallback, useEffect } from "react";
+import { resolveProjectSource, type ProjectSource } from "../services/projectSource";
+import type { Project } from "../types";
+
+/** Lifecycle of the project list */
+export type ProjectsStatus = "loading" | "ready" | "error";
+
+interface ProjectsContextType {
+    projects: Project[];
+    status: ProjectsStatus;
+    error: Error | null;
+    /** Refetch, bypassing any cache (used by "try again" buttons) */
+    reload: () => void;
+}
+
+const ProjectsContext = createContext<ProjectsContextType | undefined>(undefined);
+
+/** Created once so its cache survives provider remounts (HMR, StrictMode) */
+const defaultSource = resolveProjectSource();
+
+/**
+ * ProjectsProvider — Loads the project list from the configured source and
+ * shares it with the whole app. Sources with data on hand (the static
+ * collection, a warm cache) render immediately without a loading state.
+ */
+export const ProjectsProvider: React.FC<{ children: React.ReactNode; source?: ProjectSource }> = ({
+    children,
+    source = defaultSource,
+}) => {
+    const [projects, setProjects] = useState<Project[]>(() => source.getCached() ?? []);
+    const [status, setStatus] = useState<ProjectsStatus>(() => (source.getCached() ? "ready" : "loading"));
+    const [error, setError] = useState<Error | null>(null);
+    const [requestId, setRequestId] = useState(0);
+
+    /* Fetch on mount and whenever `reload` bumps the request id */
+    useEffect(() => {
+        const force = requestId > 0;
+        if (!force && source.getCached()) return;
+
+        /* Results arriving after unmount / a newer request are ignored */
+        let cancelled = false;
+        setStatus("loading");
+        setError(null);
+
+        source
+            .load({ force })
+            .then((loaded) => {
+                if (cancelled) return;
+                setProjects(loaded);
+                setStatus("ready");
+            })
+            .catch((reason: unknown) => {
+                if (cancelled) return;
+                setError(reason instanceof Error ? reason : new Error(String(reason)));
+                setStatus("error");
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [source, requestId]);
+
+    /**
+     * reload — Drop the cache and fetch again.
+     */
+    const reload = useCallback(() => setRequestId((id) => id + 1), []);
+
+    return (
+        <ProjectsContext.Provider value={{ projects, status, error, reload }}>
+            {children}
+        </ProjectsContext.Provider>
+    );
+};
+
+/**
+ * useProjects — Hook to consume the global project list.
+ */
+export const useProjects = () => {
+    const context = useContext(ProjectsContext);
+    if (!context) {
+        throw new Error("useProjects must be used within a ProjectsProvider");
+    }
+    return context;
+};
@@ -0,0 +1,17 @@
+/* ==========================================================================
+ * Contact Data — KHAOTIC Portfolio
+ * ==========================================================================
+ * Channels listed on the Contact page and in the CV header. The form's
+ * field options live in `contactSchema.ts`.
+ * ========================================================================== */
+
+import type { ContactLink } from "../types";
+
+/** Primary inbox — also where the contact form's mailto fallback goes */
+export const CONTACT_EMAIL = "mofokaharry@gmail.com";
+
+export const CONTACT_LINKS: ContactLink[] = [
+    { label: "Email", value: CONTACT_EMAIL, icon: "simple-icons:gmail", href: `mailto:${CONTACT_EMAIL}` },
+    { label: "Instagram", value: "@kalm.harry", icon: "simple-icons:instagram", href: "https://www.instagram.com/kalm.harry/" },
+    { label: "GitHub", value: "HarryMofoka", icon: "simple-icons:github", href: "https://github.com/HarryMofoka" }
+];
@@ -0,0 +1,86 @@
+/* ==========================================================================
+ * Contact Schema — KHAOTIC Portfolio
+ * ==========================================================================
+ * The contact form's fields, their allowed values and the validation rules.
+ * The same `validateContactSubmission` runs in the browser (inline errors
+ * before sending) and in the dev stub endpoint (`plugins/mockApi.ts`), so
+ * the two can never disagree about what a valid message looks like.
+ *
+ * Like `projectSchema.ts`, this module must stay free of DOM and Node APIs.
+ * ========================================================================== */
+
+/** What kind of work the visitor has in mind */
+export const PROJECT_TYPES = [
+    "Website",
+    "UI/UX Design",
+    "Creative Direction",
+    "Motion & Interaction",
+    "Something Weird",
+] as const;
+
+/** Rough budget brackets (ZAR) */
+export const BUDGET_RANGES = [
+    "Under R10k",
+    "R10k – R30k",
+    "R30k – R75k",
+    "R75k+",
+    "Let's talk",
+] as const;
+
+export type ProjectType = (typeof PROJECT_TYPES)[number];
+export type BudgetRange = (typeof BUDGET_RANGES)[number];
+
+/**
+ * ContactSubmission — What the form sends to the submit backend.
+ */
+export interface ContactSubmission {
+    name: string;
+    email: string;
+    projectType: ProjectType;
+    budget: BudgetRange;
+    message: string;
+}
+
+/** Field name → problem, only for fields that failed */
+export type ContactFieldErrors = Partial<Record<keyof ContactSubmission, string>>;
+
+/** Bounds for the free-text fields */
+export const MESSAGE_MIN_LENGTH = 20;
+export const MESSAGE_MAX_LENGTH = 4000;
+const NAME_MAX_LENGTH = 120;
+
+/** Deliberately loose — one "@", something either side, a dot in the domain */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+    typeof value === "string" && (options as readonly string[]).includes(value);
+
+/**
+ * validateContactSubmission — Check every field and collect the problems.
+ *
+ * @returns An empty object when the submission is valid.
+ */
+export function validateContactSubmission(input: Partial<Record<keyof ContactSubmission, unknown>>): ContactFieldErrors {
+    const errors: ContactFieldErrors = {};
+    const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+    const name = text(input.name);
+    if (!name) errors.name = "Every story needs a name.";
+    else if (name.length > NAME_MAX_LENGTH) errors.name = "That's a saga, not a name.";
+
+    const email = text(input.email);
+    if (!email) errors.email = "I'll need somewhere to write back.";
+    else if (!EMAIL_PATTERN.test(email)) errors.email = "That address looks scrambled.";
+
+    if (!isOneOf(PROJECT_TYPES, input.projectType)) errors.projectType = "Pick what we're making.";
+    if (!isOneOf(BUDGET_RANGES, input.budget)) errors.budget = "Pick a ballpark — \"Let's talk\" counts.";
+
+    const message = text(input.message);
+    if (message.length < MESSAGE_MIN_LENGTH) {
+        errors.message = `Give me a little more to work with (${MESSAGE_MIN_LENGTH}+ characters).`;
+    } else if (message.length > MESSAGE_MAX_LENGTH) {
+        errors.message = `Keep it under ${MESSAGE_MAX_LENGTH} characters — save the rest for the call.`;
+    }
+
+    return errors;
+}
@@ -0,0 +1,127 @@
+/* ==========================================================================
+ * Experiment Data — KHAOTIC Portfolio
+ * ==========================================================================
+ * The Lab's catalogue. Each entry gets a card in `TheLab` and its own
+ * `/lab/:slug` page; if `src/experiments/index.ts` registers a demo for
+ * the slug, that page mounts it (lazily) as a live, interactive piece.
+ *
+ * Set `featured: true` to also show an experiment on the home page.
+ * ========================================================================== */
+
+import type { Experiment, ExperimentFilters, ExperimentStatus } from "../types";
+
+/** Source for everything in The Lab */
+const REPO_URL = "https://github.com/HarryMofoka/Khaotic-portfolio";
+
+/**
+ * EXPERIMENTS — Every experiment, in catalogue order.
+ */
+export const EXPERIMENTS: Experiment[] = [
+    {
+        slug: "noise-typography",
+        title: "Noise Typography",
+        description:
+            "Rendering text through generative noise fields. Each glyph is a living, breathing particle system.",
+        status: "LIVE",
+        tags: ["canvas", "typography", "generative"],
+        date: "2025-09",
+        thumbnail: "https://images.unsplash.com/photo-1558591710-4b4a1ae0f04d?q=80&w=1600&auto=format&fit=crop",
+        featured: true,
+    },
+    {
+        slug: "colour-mood-engine",
+        title: "Colour Mood Engine",
+        description:
+            "An adaptive palette system that shifts based on time of day, cursor speed, and scroll depth.",
+        status: "LIVE",
+        tags: ["CSS", "theming", "adaptive"],
+        date: "2025-06",
+        thumbnail: "https://images.unsplash.com/photo-1579546929518-9e396f3cc809?q=80&w=1600&auto=format&fit=crop",
+        links: [{ label: "Source", href: REPO_URL, icon: "simple-icons:github" }],
+        featured: true,
+    },
+    {
+        slug: "glitch-portraits",
+        title: "Glitch Portraits",
+        description:
+            "Pixel-sorted portraits with noise-driven displacement. Hold to destroy, release to rebuild.",
+        status: "LIVE",
+        tags: ["canvas", "pixel sorting", "interactive"],
+        date: "2025-11",
+        thumbnail: "https://images.unsplash.com/photo-1550745165-9bc0b252726f?q=80&w=1600&auto=format&fit=crop",
+        featured: true,
+    },
+    {
+        slug: "ink-physics",
+        title: "Ink Physics",
+        description:
+            "Simulating ink spreading on parchment using cellular automata. Organic patterns, repeatable from a seed.",
+        status: "LIVE",
+        tags: ["simulation", "canvas", "procedural"],
+        date: "2024-08",
+        thumbnail: "https://images.unsplash.com/photo-1541701494587-cb58502866ab?q=80&w=1600&auto=format&fit=crop",
+    },
+    {
+        slug: "audio-geometry",
+        title: "Audio Geometry",
+        description:
+            "Translating audio frequencies into 3D mesh deformations. Sound you can see and feel.",
+        status: "LIVE",
+        tags: ["Web Audio", "canvas", "realtime"],
+        date: "2026-01",
+        thumbnail: "https://images.unsplash.com/photo-1614149162883-504ce4d13909?q=80&w=1600&auto=format&fit=crop",
+    },
+];
+
+/** The home page's curated subset */
+export const FEATURED_EXPERIMENTS = EXPERIMENTS.filter((experiment) => experiment.featured);
+
+/** Every status, in the order the Lab filter bar lists them */
+export const EXPERIMENT_STATUSES: ExperimentStatus[] = ["LIVE", "WIP", "ARCHIVED"];
+
+/** Status badge colour mapping */
+export const STATUS_COLOURS: Record<ExperimentStatus, string> = {
+    WIP: "bg-amber-500/20 text-amber-400 border-amber-500/30",
+    LIVE: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30",
+    ARCHIVED: "bg-zinc-500/20 text-zinc-400 border-zinc-500/30",
+};
+
+/**
+ * getExperimentBySlug — Look up an experiment by its `/lab/:slug` identifier.
+ *
+ * @returns The matching experiment, or `undefined` for unknown slugs.
+ */
+export function getExperimentBySlug(slug: string): Experiment | undefined {
+    return EXPERIMENTS.find((experiment) => experiment.slug === slug);
+}
+
+/**
+ * isExperimentStatus — Narrow an untrusted string (e.g. a query param).
+ */
+export function isExperimentStatus(value: string | null): value is ExperimentStatus {
+    return EXPERIMENT_STATUSES.includes(value as ExperimentStatus);
+}
+
+/**
+ * filterExperiments — Keep experiments matching every active filter.
+ */
+export function filterExperiments(experiments: Experiment[], { status, tag }: ExperimentFilters): Experiment[] {
+    return experiments.filter(
+        (experiment) => (!status || experiment.status === status) && (!tag || experiment.tags.includes(tag))
+    );
+}
+
+/**
+ * countExperimentTags — How many experiments carry each tag, most used
+ * first (ties alphabetical), so the busiest tags lead the filter bar.
+ */
+export function countExperimentTags(experiments: Experiment[]): { tag: string; count: number }[] {
+    const counts = new Map<string, number>();
+    for (const experiment of experiments) {
+        experiment.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    }
+
+    return [...counts]
+        .map(([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
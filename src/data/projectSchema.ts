@@ -0,0 +1,238 @@
+/* ==========================================================================
+ * Project Schema — KHAOTIC Portfolio
+ * ==========================================================================
+ * Structural validation for `Project` records that arrive from outside the
+ * TypeScript compiler's reach — Markdown frontmatter at build time, JSON
+ * over HTTP at runtime. Every problem in a record is collected so authors
+ * see the full list at once instead of fixing errors one build at a time.
+ *
+ * This module must stay free of DOM and Node APIs: it is imported by the
+ * Vite content plugin (Node) as well as by the app (browser).
+ * ========================================================================== */
+
+import type { Project } from "../types";
+
+/**
+ * ProjectValidationError — Thrown when a record doesn't match `Project`.
+ *
+ * @property source - Where the record came from (file path, URL, index…).
+ * @property issues - Human-readable problems, one per offending field.
+ */
+export class ProjectValidationError extends Error {
+    readonly source: string;
+    readonly issues: string[];
+
+    constructor(source: string, issues: string[]) {
+        super(`Invalid project in ${source}:\n${issues.map((issue) => `  • ${issue}`).join("\n")}`);
+        this.name = "ProjectValidationError";
+        this.source = source;
+        this.issues = issues;
+    }
+}
+
+/** Every key a `Project` may carry — anything else is reported as unknown */
+export const PROJECT_FIELDS = [
+    "slug",
+    "title",
+    "subtitle",
+    "category",
+    "tags",
+    "techDetails",
+    "cardImage",
+    "modalImage",
+    "description",
+    "bodyHtml",
+    "credits",
+    "rotation",
+    "hoverVideo",
+    "gallery",
+    "specs",
+] as const satisfies readonly (keyof Project)[];
+
+/** Keys that must be present and non-empty */
+const REQUIRED_STRING_FIELDS = [
+    "slug",
+    "title",
+    "subtitle",
+    "category",
+    "techDetails",
+    "cardImage",
+    "modalImage",
+    "description",
+] as const;
+
+/** A CSS rotation in degrees, e.g. "-2deg" or "1.5deg" */
+const ROTATION_PATTERN = /^-?\d+(\.\d+)?deg$/;
+
+/** Lower-case words separated by single hyphens */
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/* --------------------------------------------------------------------------
+ * Helpers
+ * -------------------------------------------------------------------------- */
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+    typeof value === "string" && value.trim().length > 0;
+
+/** URL schemes a media field may use — anything else (e.g. `javascript:`) is refused */
+const MEDIA_SCHEMES = ["http", "https"];
+
+/** Links may also open the visitor's mail client */
+const LINK_SCHEMES = [...MEDIA_SCHEMES, "mailto"];
+
+/**
+ * urlScheme — The lower-cased scheme of `url`, or null for a relative URL.
+ * Browsers ignore whitespace and control characters in a scheme
+ * ("java\tscript:"), so they're stripped before looking.
+ */
+function urlScheme(url: string): string | null {
+    const compact = [...url].filter((char) => char.charCodeAt(0) > 0x20).join("");
+    const match = /^([a-z][a-z0-9+.-]*):/i.exec(compact);
+    return match ? match[1].toLowerCase() : null;
+}
+
+/** Push an issue if `value` is a URL with a scheme outside `schemes` */
+function checkUrlScheme(value: unknown, path: string, schemes: string[], issues: string[]) {
+    if (typeof value !== "string") return;
+    const scheme = urlScheme(value);
+    if (scheme !== null && !schemes.includes(scheme)) {
+        issues.push(`\`${path}\` must be a relative or ${schemes.join("/")} URL (got "${scheme}:")`);
+    }
+}
+
+/** Push an issue unless `value` is undefined or a string */
+function checkOptionalString(value: unknown, path: string, issues: string[]) {
+    if (value !== undefined && typeof value !== "string") {
+        issues.push(`\`${path}\` must be a string`);
+    }
+}
+
+function validateCredits(value: unknown, issues: string[]) {
+    if (!Array.isArray(value)) {
+        issues.push("`credits` must be a list of { role, name } entries");
+        return;
+    }
+
+    value.forEach((credit, i) => {
+        if (!isRecord(credit) || !isNonEmptyString(credit.role) || !isNonEmptyString(credit.name)) {
+            issues.push(`\`credits[${i}]\` needs a non-empty \`role\` and \`name\``);
+        }
+    });
+}
+
+function validateTags(value: unknown, issues: string[]) {
+    if (!Array.isArray(value) || !value.every(isNonEmptyString)) {
+        issues.push("`tags` must be a list of non-empty strings");
+    }
+}
+
+function validateSpecs(value: unknown, issues: string[]) {
+    if (!Array.isArray(value)) {
+        issues.push("`specs` must be a list of { label, value } entries");
+        return;
+    }
+
+    value.forEach((spec, i) => {
+        if (!isRecord(spec) || !isNonEmptyString(spec.label) || !isNonEmptyString(spec.value)) {
+            issues.push(`\`specs[${i}]\` needs a non-empty \`label\` and \`value\``);
+            return;
+        }
+        checkOptionalString(spec.href, `specs[${i}].href`, issues);
+        checkUrlScheme(spec.href, `specs[${i}].href`, LINK_SCHEMES, issues);
+        checkOptionalString(spec.icon, `specs[${i}].icon`, issues);
+    });
+}
+
+function validateGallery(value: unknown, issues: string[]) {
+    if (!Array.isArray(value)) {
+        issues.push("`gallery` must be a list of image/video entries");
+        return;
+    }
+
+    value.forEach((item, i) => {
+        if (!isRecord(item)) {
+            issues.push(`\`gallery[${i}]\` must be an object`);
+            return;
+        }
+        if (item.type !== "image" && item.type !== "video") {
+            issues.push(`\`gallery[${i}].type\` must be "image" or "video" (got ${JSON.stringify(item.type)})`);
+        }
+        if (!isNonEmptyString(item.src)) issues.push(`\`gallery[${i}].src\` is required`);
+        checkUrlScheme(item.src, `gallery[${i}].src`, MEDIA_SCHEMES, issues);
+        if (!isNonEmptyString(item.alt)) issues.push(`\`gallery[${i}].alt\` is required`);
+        checkOptionalString(item.caption, `gallery[${i}].caption`, issues);
+        checkOptionalString(item.aspectRatio, `gallery[${i}].aspectRatio`, issues);
+        checkOptionalString(item.poster, `gallery[${i}].poster`, issues);
+        checkUrlScheme(item.poster, `gallery[${i}].poster`, MEDIA_SCHEMES, issues);
+    });
+}
+
+/* --------------------------------------------------------------------------
+ * Public API
+ * -------------------------------------------------------------------------- */
+
+/**
+ * validateProject — Check that `input` is a well-formed `Project`.
+ *
+ * @param input  - The untrusted record (parsed frontmatter, JSON, …).
+ * @param source - Label used in error messages (file path, URL, …).
+ * @returns The same record, typed as `Project`.
+ * @throws ProjectValidationError listing every problem found.
+ */
+export function validateProject(input: unknown, source: string): Project {
+    if (!isRecord(input)) {
+        throw new ProjectValidationError(source, ["expected an object of project fields"]);
+    }
+
+    const issues: string[] = [];
+
+    /* ---- Unknown fields (usually typos like `subTitle`) ---- */
+    const known = new Set<string>(PROJECT_FIELDS);
+    for (const key of Object.keys(input)) {
+        if (!known.has(key)) {
+            issues.push(`unknown field \`${key}\` (allowed: ${PROJECT_FIELDS.join(", ")})`);
+        }
+    }
+
+    /* ---- Required strings ---- */
+    for (const field of REQUIRED_STRING_FIELDS) {
+        if (input[field] === undefined) issues.push(`missing required field \`${field}\``);
+        else if (!isNonEmptyString(input[field])) issues.push(`\`${field}\` must be a non-empty string`);
+    }
+
+    if (isNonEmptyString(input.slug) && !SLUG_PATTERN.test(input.slug)) {
+        issues.push(`\`slug\` must be lower-case words joined by hyphens (got "${input.slug}")`);
+    }
+
+    /* ---- Rotation ---- */
+    if (input.rotation === undefined) {
+        issues.push("missing required field `rotation`");
+    } else if (typeof input.rotation !== "string" || !ROTATION_PATTERN.test(input.rotation)) {
+        issues.push(`\`rotation\` must be a CSS angle in degrees like "-2deg" (got ${JSON.stringify(input.rotation)})`);
+    }
+
+    /* ---- Nested collections ---- */
+    if (input.credits === undefined) issues.push("missing required field `credits`");
+    else validateCredits(input.credits, issues);
+
+    if (input.tags !== undefined) validateTags(input.tags, issues);
+    if (input.specs !== undefined) validateSpecs(input.specs, issues);
+    if (input.gallery !== undefined) validateGallery(input.gallery, issues);
+
+    /* ---- URLs ---- */
+    checkUrlScheme(input.cardImage, "cardImage", MEDIA_SCHEMES, issues);
+    checkUrlScheme(input.modalImage, "modalImage", MEDIA_SCHEMES, issues);
+    checkUrlScheme(input.hoverVideo, "hoverVideo", MEDIA_SCHEMES, issues);
+
+    checkOptionalString(input.hoverVideo, "hoverVideo", issues);
+    checkOptionalString(input.bodyHtml, "bodyHtml", issues);
+
+    if (issues.length > 0) throw new ProjectValidationError(source, issues);
+
+    return input as unknown as Project;
+}
@@ -1,76 +1,109 @@
 /* ==========================================================================
  * Project Data — KHAOTIC Portfolio
  * ==========================================================================
- * All portfolio project entries live here as a single typed array.
- * This acts as a mock data layer — in production you might fetch from a CMS
- * or API, but the shape stays the same thanks to the `Project` interface.
+ * All portfolio project entries live here as a single typed array, built
+ * from the Markdown content collection in `src/content/projects/`.
+ *
+ * Components don't import `PROJECTS` directly — they read the active list
+ * from `useProjects()`, which may come from this module or from a CMS (see
+ * `services/projectSource.ts`). The lookup helpers below therefore take
+ * the list as their first argument.
  * ========================================================================== */
 
-import type { Project } from "../types";
+import type { Project, ProjectFilters } from "../types";
+
+/**
+ * Project modules compiled from `src/content/projects/*.md` by the
+ * `projectContent` Vite plugin. Each file's frontmatter is validated at
+ * build time, so by the time a module gets here it is a well-formed
+ * `Project` with `description` (plain text) and `bodyHtml` (rich text)
+ * generated from the Markdown body.
+ */
+const projectModules = import.meta.glob<{ default: Project }>(
+    "../content/projects/*.md",
+    { eager: true }
+);
 
 /**
- * PROJECTS — Static array of portfolio entries.
+ * PROJECTS — Ordered array of portfolio entries.
+ *
+ * Feed order follows the file names, so prefix each Markdown file with a
+ * two-digit number (`01-…`, `02-…`) to control where it appears.
  *
  * Each entry contains:
+ *   • Routing info     → slug (never change it once published — links depend on it)
  *   • Card-level info  → title, category, techDetails, cardImage, rotation
- *   • Modal-level info → subtitle, modalImage, description, credits
+ *   • Modal-level info → subtitle, modalImage, description/bodyHtml, credits, specs, gallery
  *
  * The `rotation` string is applied directly via inline `style` on the card
  * to give each one a unique tilted film-still aesthetic.
  */
-export const PROJECTS: Project[] = [
-    {
-        title: "The De Deur Protocol",
-        subtitle: "Origin Story • De Deur, SA",
-        category: "Origin Story",
-        techDetails: "Analog Memories • 35mm Grain",
-        cardImage:
-            "https://images.unsplash.com/photo-1500382017468-9049fed747ef?q=80&w=2940&auto=format&fit=crop",
-        modalImage:
-            "https://images.unsplash.com/photo-1500382017468-9049fed747ef?q=80&w=2940&auto=format&fit=crop",
-        description:
-            "Growing up in De Deur, South Africa, is like living in a slow-motion film where someone accidentally left the 'Vivid' filter on. The town is quiet—so quiet you can hear your own creative insecurities whispering. \n\nI started designing because the silence was too loud. I wanted to create something that broke the peace. My first 'distortion' wasn't digital; it was just me trying to draw a straight line and failing so beautifully that it became a philosophy. De Deur taught me that you don't need a skyscraper to have big thoughts, just a lot of space and a very stable internet connection (mostly).",
-        credits: [
-            { role: "Location", name: "De Deur, SA" },
-            { role: "Instagram", name: "@kalm.harry" },
-            { role: "Director", name: "Harry Mofoka" },
-        ],
-        rotation: "-2deg",
-    },
-    {
-        title: "Controlled Chaos Theory",
-        subtitle: "Work Philosophy • 2024",
-        category: "Philosophy",
-        techDetails: "Perlin Noise • Creative Instinct",
-        cardImage:
-            "https://images.unsplash.com/photo-1550684848-fac1c5b4e853?q=80&w=2940&auto=format&fit=crop",
-        modalImage:
-            "https://images.unsplash.com/photo-1550684848-fac1c5b4e853?q=80&w=2940&auto=format&fit=crop",
-        description:
-            "Some people plan. I paint. Not with actual paint (that's messy and my landlord would kill me), but with pixels and noise. My process is simple: I have a thought, I open a blank canvas, and I start breaking things until they look intentional. \n\nI call it 'Controlled Chaos.' It's the art of knowing exactly when to stop before the whole thing collapses. If you look closely at my work, you'll see a lot of 'happy accidents' that I've spent three hours perfecting to make them look accidental. It's a sickness, really, but it makes for great UI.",
-        credits: [
-            { role: "Tools", name: "React & Caffeine" },
-            { role: "Process", name: "Raw Instinct" },
-            { role: "Mood", name: "Aggressively Creative" },
-        ],
-        rotation: "1deg",
-    },
-    {
-        title: "The Digital Nomad",
-        subtitle: "Connection • Worldwide",
-        category: "Socials",
-        techDetails: "Fiber Optic • Global Network",
-        cardImage:
-            "https://images.unsplash.com/photo-1451187580459-43490279c0fa?q=80&w=2940&auto=format&fit=crop",
-        modalImage:
-            "https://images.unsplash.com/photo-1451187580459-43490279c0fa?q=80&w=2940&auto=format&fit=crop",
-        description:
-            "When I'm not in my room in De Deur breaking React components, I'm haunting the digital halls of Instagram and LinkedIn. I use Instagram to post the aesthetics (the 'Art') and LinkedIn to tell people I'm professional enough to actually finish the Art (the 'Business'). \n\nFind me on Instagram where my feed is probably more curated than my actual life, or hit me up on LinkedIn if you want to talk about how we can make something chaotic together. I'm always looking for the next 'mistake' that changes everything.",
-        credits: [
-            { role: "Instagram", name: "@kalm.harry" },
-            { role: "LinkedIn", name: "Harry Mofoka" },
-            { role: "Status", name: "Always Online" },
-        ],
-        rotation: "-1deg",
-    },
-];
+export const PROJECTS: Project[] = Object.keys(projectModules)
+    .sort()
+    .map((path) => projectModules[path].default);
+
+/**
+ * getProjectBySlug — Look up a project by its `/stories/:slug` identifier.
+ *
+ * @returns The matching project, or `undefined` for unknown slugs.
+ */
+export function getProjectBySlug(projects: Project[], slug: string): Project | undefined {
+    return projects.find((project) => project.slug === slug);
+}
+
+/**
+ * getAdjacentProjects — Neighbours of a project in feed order, wrapping
+ * around at both ends so "Next Story" on the last entry returns to the first.
+ *
+ * @returns `previous` and `next` projects (the project itself when it is the
+ *          only entry), or `null` for unknown slugs.
+ */
+export function getAdjacentProjects(
+    projects: Project[],
+    slug: string
+): { previous: Project; next: Project } | null {
+    const index = projects.findIndex((project) => project.slug === slug);
+    if (index === -1) return null;
+
+    const count = projects.length;
+    return {
+        previous: projects[(index - 1 + count) % count],
+        next: projects[(index + 1) % count],
+    };
+}
+
+/**
+ * getProjectFacets — Distinct categories and tags across `projects`, in
+ * first-appearance order, for building the feed's filter bar.
+ */
+export function getProjectFacets(projects: Project[]): { categories: string[]; tags: string[] } {
+    const categories = new Set<string>();
+    const tags = new Set<string>();
+
+    for (const project of projects) {
+        categories.add(project.category);
+        project.tags?.forEach((tag) => tags.add(tag));
+    }
+
+    return { categories: [...categories], tags: [...tags] };
+}
+
+/**
+ * filterProjects — Narrow `projects` to those matching every active filter.
+ *
+ * The text query is split on whitespace and each word must appear
+ * (case-insensitively) somewhere in the title, subtitle or description,
+ * so "chaos code" finds stories mentioning both in any order.
+ */
+export function filterProjects(projects: Project[], { category, tag, query }: ProjectFilters): Project[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+    return projects.filter((project) => {
+        if (category && project.category !== category) return false;
+        if (tag && !project.tags?.includes(tag)) return false;
+        if (terms.length === 0) return true;
+
+        const haystack = `${project.title} ${project.subtitle} ${project.description}`.toLowerCase();
+        return terms.every((term) => haystack.includes(term));
+    });
+}
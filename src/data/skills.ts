@@ -0,0 +1,24 @@
+/* ==========================================================================
+ * Skills Data — KHAOTIC Portfolio
+ * ==========================================================================
+ * The broad skill set shown in the About section's marquee and listed on
+ * the printable CV.
+ * ========================================================================== */
+
+/**
+ * SKILLS — Skills / tools for the About marquee and the CV.
+ */
+export const SKILLS = [
+    "React",
+    "TypeScript",
+    "GSAP",
+    "Figma",
+    "Three.js",
+    "Blender",
+    "After Effects",
+    "Photography",
+    "UI/UX",
+    "Creative Direction",
+    "Webflow",
+    "Node.js",
+];
@@ -0,0 +1,89 @@
+/* ==========================================================================
+ * Work Data — KHAOTIC Portfolio
+ * ==========================================================================
+ * Everything the Work page (and the printable CV) knows about Harry's
+ * career: jobs, studies and the tool "Arsenal". Adding a new role means
+ * adding an object here — the `Timeline` component handles layout, dates
+ * and the "current" badge.
+ * ========================================================================== */
+
+import { formatPartialDate, parsePartialDate } from "../lib/dates";
+import type { Education, Experience, TimelineEntry } from "../types";
+
+/**
+ * EXPERIENCE — Jobs, in any order (the page sorts them with `sortTimeline`).
+ */
+export const EXPERIENCE: Experience[] = [
+    {
+        kind: "experience",
+        id: "nexlink",
+        company: "Nexlink Solutions",
+        role: "Web & UI/UX Developer",
+        start: "2024",
+        url: "https://www.nexlinksolutionsza.co.za",
+        location: "South Africa",
+        summary:
+            "Holding the South African web together with premium UI/UX, pure will, and an unhealthy amount of coffee. I turn \"what if\" into \"holy crap it actually works.\"",
+        skills: ["React", "TypeScript", "GSAP", "Tailwind", "UI/UX"],
+    },
+];
+
+/**
+ * EDUCATION — Formal studies.
+ */
+export const EDUCATION: Education[] = [
+    {
+        kind: "education",
+        id: "sedibeng-tvet",
+        institution: "Sedibeng TVET College",
+        qualification: "IT & Computer Science",
+        start: "2022",
+        end: "2026",
+        location: "Gauteng, SA",
+        summary:
+            "Spent four years deciphering ancient IT scrolls and modern CS hieroglyphs. Emerged with a diploma and the realization that computers are just rocks we tricked into thinking. It was a chaotic, beautiful struggle—worth every semicolon.",
+    },
+];
+
+/**
+ * ARSENAL — Day-to-day tools, shown as chips beside the timeline.
+ */
+export const ARSENAL = ["React", "GSAP", "TypeScript", "Tailwind", "Framer", "UI/UX", "Distortion Art"];
+
+/** The motto under the Arsenal chips */
+export const ARSENAL_QUOTE =
+    "The code is messy, the design is chaotic, but the results are absolute. Perfection is for people who aren't having fun.";
+
+/* --------------------------------------------------------------------------
+ * Date helpers
+ * -------------------------------------------------------------------------- */
+
+/**
+ * isCurrent — Whether an entry is still running at `now`: it has no end
+ * date, or its end date (read as the end of that year/month) is ahead.
+ */
+export function isCurrent(entry: TimelineEntry, now: Date = new Date()): boolean {
+    return !entry.end || parsePartialDate(entry.end, true) >= now;
+}
+
+/**
+ * formatDateRange — "2022 — 2026", "Mar 2024 — Present".
+ *
+ * Open-ended entries read "Present"; ones with a future end date keep
+ * the date so an expected graduation still shows its year.
+ */
+export function formatDateRange(entry: TimelineEntry): string {
+    const end = entry.end ? formatPartialDate(entry.end) : "Present";
+    return `${formatPartialDate(entry.start)} — ${end}`;
+}
+
+/**
+ * sortTimeline — Current entries first, then most recent start first.
+ */
+export function sortTimeline<T extends TimelineEntry>(entries: T[], now: Date = new Date()): T[] {
+    return [...entries].sort((a, b) => {
+        const currentDelta = Number(isCurrent(b, now)) - Number(isCurrent(a, now));
+        if (currentDelta !== 0) return currentDelta;
+        return parsePartialDate(b.start).getTime() - parsePartialDate(a.start).getTime();
+    });
+}
@@ -0,0 +1,357 @@
+/* ==========================================================================
+ * Experiment — Audio Geometry
+ * ==========================================================================
+ * A wireframe disc of concentric rings, seen at an angle, whose vertices
+ * are pushed out and lifted by the audio spectrum — inner rings answer to
+ * the bass, outer rings to the highs.
+ *
+ * Sources:
+ *   • Ambient — taps the site's own drone (`AmbientSoundContext`) with an
+ *     AnalyserNode. Nothing is re-routed; the analyser just listens.
+ *   • Local file — an <audio> element routed through a private
+ *     AudioContext. Files never leave the browser.
+ *
+ * Muted fallback:
+ *   Whenever the chosen source is silent (ambient off, file paused) the
+ *   spectrum is synthesised from simplex noise instead, so the mesh keeps
+ *   breathing. Levels are eased either way, so switching never snaps.
+ * ========================================================================== */
+
+import React, { useEffect, useRef, useState } from "react";
+import { Icon } from "@iconify/react";
+import { useAmbientSound } from "../context/AmbientSoundContext";
+import { useMood } from "../context/MoodContext";
+import { readCssColor, type RGB } from "../lib/color";
+import { simplex3 } from "../lib/noise";
+import { registerLoop } from "../lib/scheduler";
+
+/* ---- Tuning ---- */
+
+/** Spectrum bands the mesh samples from */
+const BANDS = 64;
+
+/** Band edges are spread logarithmically across this range (Hz) */
+const MIN_FREQUENCY = 30;
+const MAX_FREQUENCY = 10000;
+
+/** Mesh resolution */
+const RINGS = 14;
+const POINTS = 96;
+
+/** Vertical squash that fakes the disc's tilt toward the viewer */
+const TILT = 0.5;
+
+/** How quickly displayed levels chase the incoming spectrum (0–1) */
+const EASING = 0.18;
+
+type Source = "ambient" | "file";
+
+/**
+ * readBands — Collapse analyser bins into `BANDS` log-spaced levels (0–1),
+ * taking the loudest bin in each band.
+ */
+function readBands(bins: Uint8Array, sampleRate: number, target: Float32Array): void {
+    const binHz = sampleRate / 2 / bins.length;
+
+    for (let b = 0; b < BANDS; b++) {
+        const low = MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, b / BANDS);
+        const high = MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, (b + 1) / BANDS);
+        const start = Math.min(bins.length - 1, Math.floor(low / binHz));
+        const end = Math.min(bins.length - 1, Math.max(start, Math.floor(high / binHz)));
+
+        let peak = 0;
+        for (let i = start; i <= end; i++) peak = Math.max(peak, bins[i]);
+        target[b] = peak / 255;
+    }
+}
+
+/** synthBands — The muted fallback: a slow noise "spectrum" tilted toward the bass */
+function synthBands(time: number, target: Float32Array): void {
+    for (let b = 0; b < BANDS; b++) {
+        const t = b / BANDS;
+        target[b] = Math.max(0, (0.35 + 0.3 * simplex3(t * 4, time, 0)) * (1 - t * 0.6));
+    }
+}
+
+const AudioGeometry: React.FC = () => {
+    const { mood, scheme } = useMood();
+    const { isPlaying: ambientPlaying, toggle: toggleAmbient, createTap } = useAmbientSound();
+
+    const [source, setSource] = useState<Source>("ambient");
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [filePlaying, setFilePlaying] = useState(false);
+
+    const live = source === "ambient" ? ambientPlaying : filePlaying;
+
+    /* -------------------------------------------------------------------------
+     * Refs — shared with the animation loop
+     * ----------------------------------------------------------------------- */
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const analyserRef = useRef<AnalyserNode | null>(null);
+    const liveRef = useRef(live);
+    const colorsRef = useRef<{ text: RGB; accent: RGB }>({
+        text: [255, 255, 255],
+        accent: [255, 255, 255],
+    });
+
+    /** The file pipeline: built once, on the first file picked */
+    const fileGraphRef = useRef<{ ctx: AudioContext; analyser: AnalyserNode } | null>(null);
+    const fileUrlRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        liveRef.current = live;
+    }, [live]);
+
+    /* ---- Palette follows the mood (and its light/dark variant) ---- */
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        colorsRef.current = {
+            text: readCssColor(canvas, "--color-text"),
+            accent: readCssColor(canvas, "--color-accent"),
+        };
+    }, [mood, scheme]);
+
+    /* ---- Point the analyser at whichever source is selected ---- */
+    useEffect(() => {
+        if (source === "file") {
+            analyserRef.current = fileGraphRef.current?.analyser ?? null;
+            return;
+        }
+
+        if (!ambientPlaying) {
+            analyserRef.current = null;
+            return;
+        }
+
+        const tap = createTap();
+        analyserRef.current = tap?.analyser ?? null;
+
+        return () => {
+            tap?.release();
+            analyserRef.current = null;
+        };
+    }, [source, ambientPlaying, createTap, fileName]);
+
+    /* ---- Leaving the page — stop the file and free its context ---- */
+    useEffect(() => {
+        const audio = audioRef.current;
+        return () => {
+            audio?.pause();
+            fileGraphRef.current?.ctx.close();
+            fileGraphRef.current = null;
+            if (fileUrlRef.current) URL.revokeObjectURL(fileUrlRef.current);
+        };
+    }, []);
+
+    /* -------------------------------------------------------------------------
+     * Main Effect — canvas sizing and the animation loop
+     * ----------------------------------------------------------------------- */
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx) return;
+
+        const incoming = new Float32Array(BANDS);
+        const levels = new Float32Array(BANDS);
+        let bins = new Uint8Array(0);
+
+        /* Vertex positions, kept for the spokes */
+        const xs = new Float32Array(RINGS * POINTS);
+        const ys = new Float32Array(RINGS * POINTS);
+
+        const animate = (_delta: number, now: number) => {
+            const dpr = window.devicePixelRatio || 1;
+            const w = canvas.width / dpr;
+            const h = canvas.height / dpr;
+            const time = now * 0.0003;
+            const analyser = analyserRef.current;
+
+            /* ---- Spectrum: real when live, synthetic when muted ---- */
+            if (liveRef.current && analyser) {
+                if (bins.length !== analyser.frequencyBinCount) bins = new Uint8Array(analyser.frequencyBinCount);
+                analyser.getByteFrequencyData(bins);
+                readBands(bins, analyser.context.sampleRate, incoming);
+            } else {
+                synthBands(time, incoming);
+            }
+            for (let b = 0; b < BANDS; b++) levels[b] += (incoming[b] - levels[b]) * EASING;
+
+            /* ---- Mesh ---- */
+            const { text, accent } = colorsRef.current;
+            const cx = w / 2;
+            const cy = h * 0.58;
+            const maxRadius = Math.min(w * 0.42, h * 0.8);
+            const spin = time * 0.3;
+
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            ctx.clearRect(0, 0, w, h);
+            ctx.lineWidth = 1;
+
+            for (let r = 0; r < RINGS; r++) {
+                const ringT = r / (RINGS - 1);
+
+                for (let p = 0; p < POINTS; p++) {
+                    const angle = (p / POINTS) * Math.PI * 2 + spin;
+                    /* Mirror around the vertical axis so the shape stays symmetric */
+                    const side = Math.abs((p / POINTS) * 2 - 1);
+                    const band = Math.min(BANDS - 1, Math.floor((ringT * 0.7 + side * 0.3) * BANDS));
+                    const level = levels[band];
+
+                    const wobble = simplex3(ringT * 2, p * 0.08, time) * 4;
+                    const radius = maxRadius * (0.15 + 0.85 * ringT) + level * maxRadius * 0.18 + wobble;
+                    const lift = level * h * 0.22 * (1 - ringT * 0.5);
+
+                    const i = r * POINTS + p;
+                    xs[i] = cx + Math.cos(angle) * radius;
+                    ys[i] = cy + Math.sin(angle) * radius * TILT - lift;
+                }
+
+                /* Rings fade from text colour at the core to accent at the rim */
+                const cr = Math.round(text[0] + ringT * (accent[0] - text[0]));
+                const cg = Math.round(text[1] + ringT * (accent[1] - text[1]));
+                const cb = Math.round(text[2] + ringT * (accent[2] - text[2]));
+                ctx.strokeStyle = `rgba(${cr}, ${cg}, ${cb}, ${0.35 + ringT * 0.5})`;
+
+                ctx.beginPath();
+                for (let p = 0; p <= POINTS; p++) {
+                    const i = r * POINTS + (p % POINTS);
+                    if (p === 0) ctx.moveTo(xs[i], ys[i]);
+                    else ctx.lineTo(xs[i], ys[i]);
+                }
+                ctx.stroke();
+            }
+
+            /* Spokes tie the rings into a mesh */
+            ctx.strokeStyle = `rgba(${text[0]}, ${text[1]}, ${text[2]}, 0.12)`;
+            ctx.beginPath();
+            for (let p = 0; p < POINTS; p += 4) {
+                ctx.moveTo(xs[p], ys[p]);
+                for (let r = 1; r < RINGS; r++) ctx.lineTo(xs[r * POINTS + p], ys[r * POINTS + p]);
+            }
+            ctx.stroke();
+        };
+
+        /* ---- Resize — keep the backing store at device resolution ---- */
+        const resizeObserver = new ResizeObserver(() => {
+            const rect = canvas.getBoundingClientRect();
+            const dpr = window.devicePixelRatio || 1;
+            canvas.width = Math.round(rect.width * dpr);
+            canvas.height = Math.round(rect.height * dpr);
+        });
+        resizeObserver.observe(canvas);
+
+        const loop = registerLoop({ name: "Audio geometry", element: canvas, tick: animate });
+
+        return () => {
+            loop.dispose();
+            resizeObserver.disconnect();
+        };
+    }, []);
+
+    /* ---- Local file — route an <audio> element through a private context ---- */
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        const audio = audioRef.current;
+        if (!file || !audio) return;
+
+        if (!fileGraphRef.current) {
+            const ctx = new AudioContext();
+            const analyser = ctx.createAnalyser();
+            analyser.fftSize = 2048;
+            /* A media element can only ever be wired to one source node */
+            ctx.createMediaElementSource(audio).connect(analyser);
+            analyser.connect(ctx.destination);
+            fileGraphRef.current = { ctx, analyser };
+        }
+
+        if (fileUrlRef.current) URL.revokeObjectURL(fileUrlRef.current);
+        fileUrlRef.current = URL.createObjectURL(file);
+        audio.src = fileUrlRef.current;
+
+        fileGraphRef.current.ctx.resume();
+        audio.play().catch(() => undefined);
+        setFileName(file.name);
+        setSource("file");
+    };
+
+    const selectSource = (next: Source) => {
+        /* Don't leave a file playing under the ambient drone */
+        if (next === "ambient") audioRef.current?.pause();
+        setSource(next);
+    };
+
+    const tabClass = (active: boolean) =>
+        `px-4 py-1.5 rounded-full border font-sans text-[10px] uppercase tracking-[0.2em] transition-colors duration-300 nav-link ${active
+            ? "border-[var(--color-accent)] bg-[var(--color-accent)] text-[var(--color-bg)]"
+            : "border-[var(--color-border)] text-[var(--color-text-dim)] hover:border-[var(--color-accent)] hover:text-[var(--color-accent)]"
+        }`;
+
+    return (
+        <div className="flex flex-col gap-8">
+            {/* ---- Stage ---- */}
+            <div className="relative w-full aspect-[16/9] border border-[var(--color-border)] rounded-sm overflow-hidden">
+                <canvas
+                    ref={canvasRef}
+                    className="absolute inset-0 w-full h-full"
+                    style={{ display: "block" }}
+                    role="img"
+                    aria-label="A wireframe disc deforming with the audio spectrum"
+                />
+                <span
+                    className="absolute top-4 left-4 font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]"
+                    aria-live="polite"
+                >
+                    {live ? "● Listening" : "○ Muted — synthetic signal"}
+                </span>
+            </div>
+
+            {/* ---- Controls ---- */}
+            <div className="flex flex-col gap-6">
+                <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Audio source">
+                    <span className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)] w-16">Source</span>
+                    <button type="button" aria-pressed={source === "ambient"} onClick={() => selectSource("ambient")} className={tabClass(source === "ambient")}>
+                        Ambient drone
+                    </button>
+                    <button type="button" aria-pressed={source === "file"} onClick={() => selectSource("file")} className={tabClass(source === "file")}>
+                        Local file
+                    </button>
+                </div>
+
+                {source === "ambient" && (
+                    <button
+                        type="button"
+                        onClick={toggleAmbient}
+                        className="self-start inline-flex items-center gap-2 font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors nav-link"
+                    >
+                        <Icon icon={ambientPlaying ? "lucide:volume-x" : "lucide:volume-2"} width={14} />
+                        {ambientPlaying ? "Mute the drone" : "Play the ambient drone"}
+                    </button>
+                )}
+
+                {/* Kept mounted so the element survives switching tabs */}
+                <div className={source === "file" ? "flex flex-col gap-4" : "hidden"}>
+                    <label className="self-start inline-flex items-center gap-2 font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors nav-link cursor-pointer">
+                        <Icon icon="lucide:upload" width={14} />
+                        {fileName ? "Choose another file" : "Choose an audio file"}
+                        <input type="file" accept="audio/*" onChange={handleFile} className="sr-only" />
+                    </label>
+                    {fileName && (
+                        <span className="font-mono text-[10px] text-[var(--color-text-dim)] truncate">{fileName}</span>
+                    )}
+                    <audio
+                        ref={audioRef}
+                        controls
+                        className={fileName ? "w-full max-w-md" : "hidden"}
+                        onPlay={() => setFilePlaying(true)}
+                        onPause={() => setFilePlaying(false)}
+                        onEnded={() => setFilePlaying(false)}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AudioGeometry;
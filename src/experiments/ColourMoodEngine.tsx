@@ -0,0 +1,168 @@
+/* ==========================================================================
+ * Experiment — Colour Mood Engine
+ * ==========================================================================
+ * A live look at the site's mood system. Each swatch is scoped with its
+ * own `data-mood` (and the current `data-scheme`), so it renders in that
+ * palette regardless of the page's current mood; clicking one applies it
+ * to the whole site. The dark/light switch flips every mood's variant.
+ *
+ * "Auto" hands the palette to `lib/autoMood` — time of day, scroll depth
+ * and cursor energy blend the moods — with a live readout of its inputs.
+ * Below, `MoodBuilder` edits the custom mood, which joins the swatches
+ * once saved.
+ * ========================================================================== */
+
+import React, { useEffect, useState } from "react";
+import { Icon } from "@iconify/react";
+import MoodBuilder from "../components/MoodBuilder";
+import FilterChip from "../components/FilterChip";
+import { CUSTOM_MOOD, MOODS, SCHEMES, useMood, type Mood } from "../context/MoodContext";
+import { getTimeBlend } from "../lib/autoMood";
+import { moodSignals } from "../lib/moodSignals";
+import { paletteStyle } from "../lib/palette";
+
+/** The raw palette variables each swatch displays */
+const SWATCH_VARS = ["--bg", "--surface", "--accent", "--secondary", "--text"];
+
+/** How often the auto readout refreshes (ms) */
+const READOUT_INTERVAL = 250;
+
+/**
+ * AutoReadout — What the auto blend is listening to right now.
+ */
+const AutoReadout: React.FC = () => {
+    const [reading, setReading] = useState(() => ({ ...moodSignals, time: getTimeBlend(new Date()) }));
+
+    useEffect(() => {
+        const interval = window.setInterval(
+            () => setReading({ ...moodSignals, time: getTimeBlend(new Date()) }),
+            READOUT_INTERVAL
+        );
+        return () => window.clearInterval(interval);
+    }, []);
+
+    const rows = [
+        ["Time of day", `${reading.time.from} → ${reading.time.to} · ${Math.round(reading.time.t * 100)}%`],
+        ["Scroll depth", `${Math.round(reading.scrollProgress * 100)}%`],
+        ["Cursor speed", `${reading.cursorSpeed.toFixed(1)} px/frame`],
+    ];
+
+    return (
+        <dl className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {rows.map(([label, value]) => (
+                <div key={label} className="flex flex-col gap-1 border-l border-[var(--color-border)] pl-4">
+                    <dt className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]">{label}</dt>
+                    <dd className="font-mono text-xs text-[var(--color-accent)] capitalize">{value}</dd>
+                </div>
+            ))}
+        </dl>
+    );
+};
+
+interface MoodSwatchProps {
+    name: Mood;
+    active: boolean;
+    onClick: () => void;
+    /** Scopes the swatch to its palette — `data-mood` for presets, inline vars for custom */
+    scope: React.HTMLAttributes<HTMLButtonElement> & { "data-mood"?: string; "data-scheme"?: string };
+}
+
+/**
+ * MoodSwatch — One mood rendered in its own colours.
+ */
+const MoodSwatch: React.FC<MoodSwatchProps> = ({ name, active, onClick, scope }) => (
+    <button
+        type="button"
+        {...scope}
+        aria-pressed={active}
+        onClick={onClick}
+        className={`group flex flex-col gap-4 p-4 rounded-sm border text-left transition-transform duration-300 hover:-rotate-1 nav-link ${active ? "scale-[1.03]" : ""}`}
+        style={{
+            ...scope.style,
+            background: "var(--bg)",
+            borderColor: active ? "var(--accent)" : "var(--border)",
+            color: "var(--text)",
+        }}
+    >
+        <span className="font-display text-lg capitalize">{name}</span>
+        <span className="flex gap-1">
+            {SWATCH_VARS.map((variable) => (
+                <span
+                    key={variable}
+                    className="h-6 flex-1 rounded-sm border"
+                    style={{ background: `var(${variable})`, borderColor: "var(--border)" }}
+                />
+            ))}
+        </span>
+        <span className="font-mono text-[10px] uppercase tracking-widest" style={{ color: "var(--text-dim)" }}>
+            {active ? "Active" : "Apply"}
+        </span>
+    </button>
+);
+
+const ColourMoodEngine: React.FC = () => {
+    const { mood, setMood, cycleMood, autoMood, setAutoMood, customPalette, scheme, setScheme } = useMood();
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                {MOODS.map((name) => (
+                    <MoodSwatch
+                        key={name}
+                        name={name}
+                        active={!autoMood && name === mood}
+                        onClick={() => setMood(name)}
+                        scope={{ "data-mood": name, "data-scheme": scheme }}
+                    />
+                ))}
+                {customPalette && (
+                    <MoodSwatch
+                        name={CUSTOM_MOOD}
+                        active={!autoMood && mood === CUSTOM_MOOD}
+                        onClick={() => setMood(CUSTOM_MOOD)}
+                        scope={{ style: paletteStyle(customPalette) }}
+                    />
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-8">
+                <button
+                    type="button"
+                    onClick={cycleMood}
+                    className="font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors nav-link"
+                >
+                    Cycle moods →
+                </button>
+                <button
+                    type="button"
+                    aria-pressed={autoMood}
+                    onClick={() => setAutoMood(!autoMood)}
+                    className={`inline-flex items-center gap-2 px-4 py-1.5 rounded-full border font-sans text-[10px] uppercase tracking-[0.2em] transition-colors duration-300 nav-link ${autoMood
+                        ? "border-[var(--color-accent)] bg-[var(--color-accent)] text-[var(--color-bg)]"
+                        : "border-[var(--color-border)] text-[var(--color-text-dim)] hover:border-[var(--color-accent)] hover:text-[var(--color-accent)]"
+                        }`}
+                >
+                    <Icon icon="lucide:sparkles" width={12} />
+                    {autoMood ? `Auto · leaning ${mood}` : "Let it decide (auto)"}
+                </button>
+                <div className="flex items-center gap-2" role="group" aria-label="Scheme">
+                    {SCHEMES.map((name) => (
+                        <FilterChip key={name} label={name} active={name === scheme} onClick={() => setScheme(name)} />
+                    ))}
+                </div>
+            </div>
+
+            {autoMood && <AutoReadout />}
+
+            {/* ---- Build your own ---- */}
+            <section aria-labelledby="mood-builder-title" className="border-t border-[var(--color-border)] pt-12 mt-8">
+                <h2 id="mood-builder-title" className="font-display text-3xl text-[var(--color-text)] -rotate-1 mb-10">
+                    Roll your own mood
+                </h2>
+                <MoodBuilder />
+            </section>
+        </div>
+    );
+};
+
+export default ColourMoodEngine;
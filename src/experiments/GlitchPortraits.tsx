@@ -0,0 +1,389 @@
+/* ==========================================================================
+ * Experiment — Glitch Portraits
+ * ==========================================================================
+ * Press and hold on the portrait to destroy it; let go and it rebuilds.
+ *
+ * Every frame is re-derived from the untouched original, so the damage is
+ * a single number (0–1) rather than an accumulating mess:
+ *   • Holding ramps damage up over `HOLD_TIME`
+ *   • Releasing tweens it back to 0 with GSAP — that's the rebuild
+ *
+ * For each row (or column) near the pointer, scaled by damage and by
+ * distance from the pointer:
+ *   1. the line is slid sideways by a noise-driven offset, wrapping round
+ *   2. runs of pixels brighter than the threshold, within reach of the
+ *      pointer, are sorted by brightness — the classic pixel-sort smear
+ *
+ * Drop any local image on the canvas (or pick one) to wreck that instead.
+ * Nothing is uploaded; the export is whatever is on screen.
+ * ========================================================================== */
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import gsap from "gsap";
+import { Icon } from "@iconify/react";
+import FilterChip from "../components/FilterChip";
+import RangeControl from "../components/RangeControl";
+import { downloadCanvas } from "../lib/download";
+import { simplex3 } from "../lib/noise";
+import { registerLoop } from "../lib/scheduler";
+import portraitImg from "../assets/harry_portrait.jpg";
+
+/* ---- Tuning ---- */
+
+/** Longest edge (px) images are scaled to before sorting */
+const MAX_EDGE = 720;
+
+/** Seconds of holding to reach full damage */
+const HOLD_TIME = 1.6;
+
+/** Seconds the rebuild takes after release */
+const REBUILD_TIME = 1.2;
+
+/** Widest band of lines (fraction of the image) the pointer can reach */
+const MAX_REACH = 0.45;
+
+/** Largest sideways slide (fraction of a line) */
+const MAX_SHIFT = 0.2;
+
+type Direction = "horizontal" | "vertical";
+
+/** The untouched image: packed pixels plus per-pixel brightness */
+interface SourceImage {
+    width: number;
+    height: number;
+    pixels: Uint32Array;
+    luma: Uint8Array;
+}
+
+/**
+ * loadSource — Decode an image URL into a `SourceImage`, scaled so its
+ * longest edge is at most `MAX_EDGE`.
+ */
+function loadSource(url: string): Promise<SourceImage> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, MAX_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+            const width = Math.max(1, Math.round(img.naturalWidth * scale));
+            const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+            const canvas = document.createElement("canvas");
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext("2d", { willReadFrequently: true });
+            if (!ctx) {
+                reject(new Error("Canvas unavailable"));
+                return;
+            }
+            ctx.drawImage(img, 0, 0, width, height);
+
+            const { data } = ctx.getImageData(0, 0, width, height);
+            const pixels = new Uint32Array(data.buffer.slice(0));
+            const luma = new Uint8Array(width * height);
+            for (let i = 0; i < luma.length; i++) {
+                const o = i * 4;
+                luma[i] = (data[o] * 299 + data[o + 1] * 587 + data[o + 2] * 114) / 1000;
+            }
+
+            resolve({ width, height, pixels, luma });
+        };
+        img.onerror = () => reject(new Error("That file isn't an image we can read."));
+        img.src = url;
+    });
+}
+
+interface GlitchParams {
+    /** 0–1 overall destruction */
+    damage: number;
+    /** Pointer in image pixels */
+    px: number;
+    py: number;
+    threshold: number;
+    direction: Direction;
+    /** Drives the noise so the slide shimmers while held */
+    time: number;
+}
+
+/**
+ * renderGlitch — Write the damaged version of `source` into `out`.
+ */
+function renderGlitch(source: SourceImage, out: Uint32Array, line: Int32Array, params: GlitchParams): void {
+    const { width, height, pixels, luma } = source;
+    out.set(pixels);
+    if (params.damage <= 0) return;
+
+    const horizontal = params.direction === "horizontal";
+    const lines = horizontal ? height : width;
+    const length = horizontal ? width : height;
+    const centre = horizontal ? params.py : params.px;
+    const along = Math.round(horizontal ? params.px : params.py);
+
+    const reach = Math.max(1, params.damage * MAX_REACH * lines);
+    const first = Math.max(0, Math.floor(centre - reach));
+    const last = Math.min(lines - 1, Math.ceil(centre + reach));
+    const byLuma = (a: number, b: number) => luma[a] - luma[b];
+
+    for (let l = first; l <= last; l++) {
+        const strength = params.damage * (1 - Math.abs(l - centre) / reach);
+        if (strength <= 0) continue;
+
+        /* 1. Slide — collect source indices along the line, offset with wrap-around */
+        const shift = Math.round(simplex3(l * 0.04, params.time, 0) * strength * MAX_SHIFT * length);
+        for (let k = 0; k < length; k++) {
+            const s = (((k - shift) % length) + length) % length;
+            line[k] = horizontal ? l * width + s : s * width + l;
+        }
+
+        /* 2. Sort — bright runs within reach of the pointer */
+        const span = Math.round(strength * length * 0.5);
+        const from = Math.max(0, along - span);
+        const to = Math.min(length, along + span);
+        let runStart = -1;
+        for (let k = from; k <= to; k++) {
+            const bright = k < to && luma[line[k]] > params.threshold;
+            if (bright && runStart < 0) runStart = k;
+            if (!bright && runStart >= 0) {
+                if (k - runStart > 1) line.subarray(runStart, k).sort(byLuma);
+                runStart = -1;
+            }
+        }
+
+        for (let k = 0; k < length; k++) {
+            out[horizontal ? l * width + k : k * width + l] = pixels[line[k]];
+        }
+    }
+}
+
+const GlitchPortraits: React.FC = () => {
+    const [threshold, setThreshold] = useState(90);
+    const [direction, setDirection] = useState<Direction>("horizontal");
+    const [imageName, setImageName] = useState<string | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [dragging, setDragging] = useState(false);
+
+    /* -------------------------------------------------------------------------
+     * Refs — shared with the animation loop
+     * ----------------------------------------------------------------------- */
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const sourceRef = useRef<SourceImage | null>(null);
+    const imageDataRef = useRef<ImageData | null>(null);
+    const lineRef = useRef<Int32Array>(new Int32Array(0));
+    const heldRef = useRef(false);
+    const damageRef = useRef({ value: 0 });
+    const pointerRef = useRef({ x: 0, y: 0 });
+    const settingsRef = useRef({ threshold, direction });
+    const dirtyRef = useRef(true);
+    const rebuildRef = useRef<gsap.core.Tween | null>(null);
+    const objectUrlRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        settingsRef.current = { threshold, direction };
+        dirtyRef.current = true;
+    }, [threshold, direction]);
+
+    /* ---- Swap in a new image and size the canvas to it ---- */
+    const showImage = useCallback(async (url: string, name: string | null) => {
+        try {
+            const source = await loadSource(url);
+            const canvas = canvasRef.current;
+            const ctx = canvas?.getContext("2d");
+            if (!canvas || !ctx) return;
+
+            canvas.width = source.width;
+            canvas.height = source.height;
+            sourceRef.current = source;
+            imageDataRef.current = ctx.createImageData(source.width, source.height);
+            lineRef.current = new Int32Array(Math.max(source.width, source.height));
+            damageRef.current.value = 0;
+            dirtyRef.current = true;
+            setImageName(name);
+            setLoadError(null);
+        } catch (err) {
+            setLoadError(err instanceof Error ? err.message : "Couldn't load that image.");
+        }
+    }, []);
+
+    /* ---- Start with the portrait ---- */
+    useEffect(() => {
+        showImage(portraitImg, null);
+    }, [showImage]);
+
+    /* -------------------------------------------------------------------------
+     * Main Effect — the loop. Damage ramps while held; otherwise it only
+     * redraws when something (the rebuild tween, a control) changed.
+     * ----------------------------------------------------------------------- */
+    useEffect(() => {
+        let clock = 0;
+        let renderedDamage = -1;
+
+        const animate = (delta: number) => {
+            const dt = delta / 1000;
+
+            const damage = damageRef.current;
+            if (heldRef.current) {
+                damage.value = Math.min(1, damage.value + dt / HOLD_TIME);
+                clock += dt;
+            }
+
+            const source = sourceRef.current;
+            const image = imageDataRef.current;
+            const ctx = canvasRef.current?.getContext("2d");
+            const changed = heldRef.current || damage.value !== renderedDamage || dirtyRef.current;
+
+            if (source && image && ctx && changed) {
+                const { threshold: limit, direction: axis } = settingsRef.current;
+                renderGlitch(source, new Uint32Array(image.data.buffer), lineRef.current, {
+                    damage: damage.value,
+                    px: pointerRef.current.x,
+                    py: pointerRef.current.y,
+                    threshold: limit,
+                    direction: axis,
+                    time: clock,
+                });
+                ctx.putImageData(image, 0, 0);
+                renderedDamage = damage.value;
+                dirtyRef.current = false;
+            }
+        };
+
+        const canvas = canvasRef.current;
+        const loop = registerLoop({ name: "Glitch portraits", element: canvas, tick: animate });
+
+        return () => {
+            loop.dispose();
+            rebuildRef.current?.kill();
+            if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+        };
+    }, []);
+
+    /* ---- Pointer: hold to destroy, release to rebuild ---- */
+    const trackPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const source = sourceRef.current;
+        if (!source) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        pointerRef.current = {
+            x: ((e.clientX - rect.left) / rect.width) * source.width,
+            y: ((e.clientY - rect.top) / rect.height) * source.height,
+        };
+    };
+
+    const startDestroying = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        trackPointer(e);
+        rebuildRef.current?.kill();
+        heldRef.current = true;
+    };
+
+    const startRebuilding = () => {
+        if (!heldRef.current) return;
+        heldRef.current = false;
+        rebuildRef.current = gsap.to(damageRef.current, {
+            value: 0,
+            duration: REBUILD_TIME,
+            ease: "power3.inOut",
+        });
+    };
+
+    /* ---- Local images — picked or dropped ---- */
+    const openFile = (file: File | undefined) => {
+        if (!file) return;
+        if (!file.type.startsWith("image/")) {
+            setLoadError("That file isn't an image we can read.");
+            return;
+        }
+        if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+        objectUrlRef.current = URL.createObjectURL(file);
+        showImage(objectUrlRef.current, file.name);
+    };
+
+    const exportImage = () => {
+        if (!canvasRef.current) return;
+        const name = (imageName ?? "harry").replace(/\.[^.]+$/, "").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+        downloadCanvas(canvasRef.current, `glitch-${name}.png`);
+    };
+
+    return (
+        <div className="flex flex-col gap-8">
+            {/* ---- Stage ---- */}
+            <div
+                className={`relative flex items-center justify-center border rounded-sm p-4 transition-colors ${dragging ? "border-[var(--color-accent)] border-dashed" : "border-[var(--color-border)]"}`}
+                onDragOver={(e) => {
+                    e.preventDefault();
+                    setDragging(true);
+                }}
+                onDragLeave={() => setDragging(false)}
+                onDrop={(e) => {
+                    e.preventDefault();
+                    setDragging(false);
+                    openFile(e.dataTransfer.files[0]);
+                }}
+            >
+                <canvas
+                    ref={canvasRef}
+                    className="max-w-full max-h-[75vh] w-auto h-auto cursor-crosshair touch-none select-none"
+                    style={{ display: "block" }}
+                    role="img"
+                    aria-label={imageName ? `${imageName}, pixel-sorted` : "Harry's portrait, pixel-sorted"}
+                    onPointerDown={startDestroying}
+                    onPointerMove={trackPointer}
+                    onPointerUp={startRebuilding}
+                    onPointerCancel={startRebuilding}
+                />
+                <span className="absolute bottom-4 right-4 font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)] pointer-events-none">
+                    Hold to destroy · release to rebuild
+                </span>
+            </div>
+
+            {loadError && (
+                <p role="alert" className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-accent)]">
+                    {loadError}
+                </p>
+            )}
+
+            {/* ---- Controls ---- */}
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-6 md:items-end">
+                <RangeControl
+                    label="Threshold"
+                    value={threshold}
+                    min={0}
+                    max={250}
+                    format={(value) => `${value} / 255`}
+                    onChange={setThreshold}
+                />
+
+                <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Sort direction">
+                    <FilterChip label="Rows" active={direction === "horizontal"} onClick={() => setDirection("horizontal")} />
+                    <FilterChip label="Columns" active={direction === "vertical"} onClick={() => setDirection("vertical")} />
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4">
+                    <label className="inline-flex items-center gap-2 font-sans text-[10px] uppercase tracking-[0.2em] text-[var(--color-text-dim)] hover:text-[var(--color-accent)] transition-colors nav-link cursor-pointer">
+                        <Icon icon="lucide:image-plus" width={12} />
+                        Your image
+                        <input type="file" accept="image/*" onChange={(e) => openFile(e.target.files?.[0])} className="sr-only" />
+                    </label>
+                    {imageName && (
+                        <button
+                            type="button"
+                            onClick={() => showImage(portraitImg, null)}
+                            className="inline-flex items-center gap-2 font-sans text-[10px] uppercase tracking-[0.2em] text-[var(--color-text-dim)] hover:text-[var(--color-accent)] transition-colors nav-link"
+                        >
+                            <Icon icon="lucide:user" width={12} />
+                            Back to Harry
+                        </button>
+                    )}
+                    <button
+                        type="button"
+                        onClick={exportImage}
+                        className="inline-flex items-center justify-center gap-2 px-5 py-2 rounded-full border border-[var(--color-accent)] font-sans text-[10px] uppercase tracking-[0.2em] text-[var(--color-accent)] hover:bg-[var(--color-accent)] hover:text-[var(--color-bg)] transition-colors nav-link"
+                    >
+                        <Icon icon="lucide:download" width={12} />
+                        Export PNG
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GlitchPortraits;
@@ -0,0 +1,401 @@
+/* ==========================================================================
+ * Experiment — Ink Physics
+ * ==========================================================================
+ * Ink bleeding into parchment, as a cellular automaton. The page is a
+ * fixed grid of cells, each holding:
+ *   • paper — how absorbent the fibres are there (seeded noise + grain)
+ *   • wet   — ink still moving
+ *   • stain — ink that has soaked in and stopped
+ *
+ * Every generation each wet cell keeps part of its ink and hands the rest
+ * to its eight neighbours, favouring thirstier paper (which is what makes
+ * the edges feather along the fibres). A little of what's left dries into
+ * the stain. Click or drag to drop ink.
+ *
+ * Reproducibility:
+ *   The grid size never changes with the viewport, and the paper, the
+ *   opening blots and every random nudge come from one seeded generator —
+ *   so the same seed and the same clicks give the same pattern.
+ *
+ * Colours come from the current mood: wet ink in `--color-accent`, the
+ * drying sheen toward `--color-text`, on a `--color-bg` page.
+ * ========================================================================== */
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Icon } from "@iconify/react";
+import { useMood } from "../context/MoodContext";
+import { readCssColor, type RGB } from "../lib/color";
+import { simplex3 } from "../lib/noise";
+import { registerLoop } from "../lib/scheduler";
+import { createRandom, randomSeed } from "../lib/random";
+
+/* ---- Tuning ---- */
+
+/** Simulation resolution — independent of the canvas size */
+const GRID_WIDTH = 240;
+const GRID_HEIGHT = 135;
+
+/** Share of a cell's wet ink passed to neighbours each generation */
+const SPREAD = 0.55;
+
+/** Share of the remaining wet ink that soaks in, scaled by absorbency */
+const DRY_RATE = 0.015;
+
+/** Below this, wet ink just soaks in where it is */
+const MIN_WET = 0.015;
+
+/** Cap on how dark a stain can get */
+const MAX_STAIN = 1.6;
+
+/** Generations simulated per animation frame while running */
+const STEPS_PER_FRAME = 2;
+
+/** Ink dropped per click, and the blot radius in cells */
+const DROP_AMOUNT = 2.5;
+const DROP_RADIUS = 3;
+
+/** Blots placed by the seed on reset */
+const SEED_BLOTS = 3;
+
+/** Neighbour offsets with weights (diagonals are further away) */
+const NEIGHBOURS: [number, number, number][] = [
+    [-1, 0, 1], [1, 0, 1], [0, -1, 1], [0, 1, 1],
+    [-1, -1, 0.7], [1, -1, 0.7], [-1, 1, 0.7], [1, 1, 0.7],
+];
+
+interface InkGrid {
+    paper: Float32Array;
+    wet: Float32Array;
+    stain: Float32Array;
+    /** Next generation's wet ink, reused between steps */
+    scratch: Float32Array;
+}
+
+/**
+ * createInkGrid — A fresh page from a seeded generator: fibrous paper, no
+ * ink yet. Long horizontal streaks over slow blotches, plus per-cell grain.
+ */
+function createInkGrid(random: () => number): InkGrid {
+    const size = GRID_WIDTH * GRID_HEIGHT;
+    const paper = new Float32Array(size);
+    const z = random() * 256;
+
+    for (let y = 0; y < GRID_HEIGHT; y++) {
+        for (let x = 0; x < GRID_WIDTH; x++) {
+            const fibres = simplex3(x * 0.03, y * 0.25, z);
+            const blotches = simplex3(x * 0.02, y * 0.02, z + 17);
+            const grain = random();
+            paper[y * GRID_WIDTH + x] = Math.min(1, Math.max(0.05, 0.55 + fibres * 0.25 + blotches * 0.15 + (grain - 0.5) * 0.2));
+        }
+    }
+
+    return {
+        paper,
+        wet: new Float32Array(size),
+        stain: new Float32Array(size),
+        scratch: new Float32Array(size),
+    };
+}
+
+/** dropInk — Add a soft round blot of wet ink centred on a grid cell */
+function dropInk(grid: InkGrid, cx: number, cy: number, amount = DROP_AMOUNT): void {
+    for (let dy = -DROP_RADIUS; dy <= DROP_RADIUS; dy++) {
+        for (let dx = -DROP_RADIUS; dx <= DROP_RADIUS; dx++) {
+            const x = Math.round(cx) + dx;
+            const y = Math.round(cy) + dy;
+            if (x < 0 || y < 0 || x >= GRID_WIDTH || y >= GRID_HEIGHT) continue;
+            const falloff = 1 - Math.hypot(dx, dy) / (DROP_RADIUS + 1);
+            if (falloff > 0) grid.wet[y * GRID_WIDTH + x] += amount * falloff;
+        }
+    }
+}
+
+/** stepInk — Advance the automaton by one generation */
+function stepInk(grid: InkGrid, random: () => number): void {
+    const { paper, wet, stain, scratch } = grid;
+    scratch.fill(0);
+
+    /* ---- Spread ---- */
+    for (let y = 0; y < GRID_HEIGHT; y++) {
+        for (let x = 0; x < GRID_WIDTH; x++) {
+            const i = y * GRID_WIDTH + x;
+            const ink = wet[i];
+            if (ink < MIN_WET) {
+                scratch[i] += ink;
+                continue;
+            }
+
+            /* Thirstier neighbours pull harder; the jitter keeps edges ragged */
+            let total = 0;
+            for (const [dx, dy, weight] of NEIGHBOURS) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (nx < 0 || ny < 0 || nx >= GRID_WIDTH || ny >= GRID_HEIGHT) continue;
+                const thirst = paper[ny * GRID_WIDTH + nx];
+                total += weight * thirst * thirst * thirst;
+            }
+
+            if (total === 0) {
+                scratch[i] += ink;
+                continue;
+            }
+
+            const share = ink * SPREAD * (0.75 + random() * 0.5);
+            scratch[i] += ink - share;
+
+            for (const [dx, dy, weight] of NEIGHBOURS) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (nx < 0 || ny < 0 || nx >= GRID_WIDTH || ny >= GRID_HEIGHT) continue;
+                const n = ny * GRID_WIDTH + nx;
+                const thirst = paper[n];
+                scratch[n] += (share * weight * thirst * thirst * thirst) / total;
+            }
+        }
+    }
+
+    /* ---- Soak in ---- */
+    for (let i = 0; i < wet.length; i++) {
+        const ink = scratch[i];
+        const soaked = ink < MIN_WET ? ink : ink * DRY_RATE * paper[i];
+        stain[i] = Math.min(MAX_STAIN, stain[i] + soaked);
+        wet[i] = ink - soaked;
+    }
+}
+
+/** renderInk — Paint the grid into grid-sized ImageData */
+function renderInk(grid: InkGrid, image: ImageData, bg: RGB, ink: RGB, sheen: RGB): void {
+    const { paper, wet, stain } = grid;
+    const { data } = image;
+
+    for (let i = 0; i < paper.length; i++) {
+        /* Parchment: the page colour, darkened slightly where fibres are dense */
+        const tone = 1 - (1 - paper[i]) * 0.12;
+        const pr = bg[0] * tone;
+        const pg = bg[1] * tone;
+        const pb = bg[2] * tone;
+
+        /* Ink: accent, shading toward the sheen colour while still wet */
+        const w = wet[i];
+        const alpha = Math.min(1, stain[i] * 0.9 + w * 0.6);
+        const wetness = Math.min(1, w / (stain[i] + w + 0.0001)) * 0.5;
+        const ir = ink[0] + (sheen[0] - ink[0]) * wetness;
+        const ig = ink[1] + (sheen[1] - ink[1]) * wetness;
+        const ib = ink[2] + (sheen[2] - ink[2]) * wetness;
+
+        const o = i * 4;
+        data[o] = pr + (ir - pr) * alpha;
+        data[o + 1] = pg + (ig - pg) * alpha;
+        data[o + 2] = pb + (ib - pb) * alpha;
+        data[o + 3] = 255;
+    }
+}
+
+const InkPhysics: React.FC = () => {
+    const { mood, scheme } = useMood();
+
+    const [seed, setSeed] = useState(() => randomSeed());
+    const [seedDraft, setSeedDraft] = useState(String(seed));
+    const [running, setRunning] = useState(true);
+    const [generation, setGeneration] = useState(0);
+
+    /* -------------------------------------------------------------------------
+     * Refs — shared with the animation loop
+     * ----------------------------------------------------------------------- */
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const gridRef = useRef<InkGrid | null>(null);
+    const randomRef = useRef<() => number>(Math.random);
+    const generationRef = useRef(0);
+    const runningRef = useRef(running);
+    const drawingRef = useRef(false);
+    const colorsRef = useRef<{ bg: RGB; text: RGB; accent: RGB }>({
+        bg: [0, 0, 0],
+        text: [255, 255, 255],
+        accent: [255, 255, 255],
+    });
+
+    useEffect(() => {
+        runningRef.current = running;
+    }, [running]);
+
+    /* ---- Palette follows the mood (and its light/dark variant) ---- */
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        colorsRef.current = {
+            bg: readCssColor(canvas, "--color-bg"),
+            text: readCssColor(canvas, "--color-text"),
+            accent: readCssColor(canvas, "--color-accent"),
+        };
+    }, [mood, scheme]);
+
+    /* ---- Reset — new paper and opening blots, all from the seed ---- */
+    const reset = useCallback(() => {
+        const random = createRandom(seed);
+        const grid = createInkGrid(random);
+
+        for (let i = 0; i < SEED_BLOTS; i++) {
+            dropInk(grid, GRID_WIDTH * (0.2 + random() * 0.6), GRID_HEIGHT * (0.2 + random() * 0.6), DROP_AMOUNT * 2);
+        }
+
+        gridRef.current = grid;
+        randomRef.current = random;
+        generationRef.current = 0;
+        setGeneration(0);
+    }, [seed]);
+
+    useEffect(() => {
+        reset();
+    }, [reset]);
+
+    /** Single generation, for stepping while paused */
+    const step = () => {
+        const grid = gridRef.current;
+        if (!grid) return;
+        stepInk(grid, randomRef.current);
+        generationRef.current += 1;
+        setGeneration(generationRef.current);
+    };
+
+    /* -------------------------------------------------------------------------
+     * Main Effect — the loop. It always paints (so drops show while paused)
+     * but only simulates while running.
+     * ----------------------------------------------------------------------- */
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx) return;
+
+        canvas.width = GRID_WIDTH;
+        canvas.height = GRID_HEIGHT;
+        const image = ctx.createImageData(GRID_WIDTH, GRID_HEIGHT);
+
+        let frame = 0;
+
+        const animate = () => {
+            const grid = gridRef.current;
+            if (grid) {
+                if (runningRef.current) {
+                    for (let i = 0; i < STEPS_PER_FRAME; i++) stepInk(grid, randomRef.current);
+                    generationRef.current += STEPS_PER_FRAME;
+
+                    /* The counter doesn't need 60 renders a second */
+                    if (++frame % 10 === 0) setGeneration(generationRef.current);
+                }
+
+                const { bg, text, accent } = colorsRef.current;
+                renderInk(grid, image, bg, accent, text);
+                ctx.putImageData(image, 0, 0);
+            }
+        };
+
+        const loop = registerLoop({ name: "Ink physics", element: canvas, tick: animate });
+
+        return () => {
+            loop.dispose();
+        };
+    }, []);
+
+    /* ---- Pointer → grid cell ---- */
+    const dropAtPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const grid = gridRef.current;
+        if (!grid) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = ((e.clientX - rect.left) / rect.width) * GRID_WIDTH;
+        const y = ((e.clientY - rect.top) / rect.height) * GRID_HEIGHT;
+        /* Dragging lays a thinner trail than a deliberate click */
+        dropInk(grid, x, y, drawingRef.current ? DROP_AMOUNT * 0.35 : DROP_AMOUNT);
+    };
+
+    const applySeedDraft = () => {
+        const parsed = Math.abs(Math.floor(Number(seedDraft)));
+        if (Number.isFinite(parsed) && seedDraft.trim() !== "") {
+            setSeed(parsed);
+            setSeedDraft(String(parsed));
+        } else {
+            setSeedDraft(String(seed));
+        }
+    };
+
+    const rollSeed = () => {
+        const next = randomSeed();
+        setSeed(next);
+        setSeedDraft(String(next));
+    };
+
+    const buttonClass =
+        "inline-flex items-center gap-2 px-4 py-1.5 rounded-full border border-[var(--color-border)] font-sans text-[10px] uppercase tracking-[0.2em] text-[var(--color-text-dim)] hover:border-[var(--color-accent)] hover:text-[var(--color-accent)] disabled:opacity-40 disabled:pointer-events-none transition-colors nav-link";
+
+    return (
+        <div className="flex flex-col gap-8">
+            {/* ---- Page ---- */}
+            <canvas
+                ref={canvasRef}
+                className="w-full aspect-[16/9] border border-[var(--color-border)] rounded-sm cursor-crosshair touch-none"
+                style={{ display: "block", imageRendering: "auto" }}
+                role="img"
+                aria-label="Ink spreading across parchment. Click or drag to drop ink."
+                onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    dropAtPointer(e);
+                    drawingRef.current = true;
+                }}
+                onPointerMove={(e) => {
+                    if (drawingRef.current) dropAtPointer(e);
+                }}
+                onPointerUp={() => {
+                    drawingRef.current = false;
+                }}
+                onPointerCancel={() => {
+                    drawingRef.current = false;
+                }}
+            />
+
+            {/* ---- Controls ---- */}
+            <div className="flex flex-wrap items-end justify-between gap-6">
+                <div className="flex flex-wrap items-center gap-2">
+                    <button type="button" onClick={() => setRunning((value) => !value)} className={buttonClass}>
+                        <Icon icon={running ? "lucide:pause" : "lucide:play"} width={12} />
+                        {running ? "Pause" : "Play"}
+                    </button>
+                    <button type="button" onClick={step} disabled={running} className={buttonClass}>
+                        <Icon icon="lucide:step-forward" width={12} />
+                        Step
+                    </button>
+                    <button type="button" onClick={reset} className={buttonClass}>
+                        <Icon icon="lucide:rotate-ccw" width={12} />
+                        Reset
+                    </button>
+                    <span className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)] ml-2" aria-live="off">
+                        Gen {String(generation).padStart(5, "0")}
+                    </span>
+                </div>
+
+                <form
+                    className="flex items-end gap-3"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        applySeedDraft();
+                    }}
+                >
+                    <label className="flex flex-col gap-2">
+                        <span className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]">Seed</span>
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            value={seedDraft}
+                            onChange={(e) => setSeedDraft(e.target.value.replace(/\D/g, ""))}
+                            onBlur={applySeedDraft}
+                            className="w-28 bg-transparent border-b border-[var(--color-border)] focus:border-[var(--color-accent)] outline-none py-1 font-mono text-sm text-[var(--color-text)] transition-colors"
+                        />
+                    </label>
+                    <button type="button" onClick={rollSeed} className={buttonClass} aria-label="Random seed">
+                        <Icon icon="lucide:dices" width={12} />
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default InkPhysics;
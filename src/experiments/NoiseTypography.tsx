@@ -0,0 +1,346 @@
+/* ==========================================================================
+ * Experiment — Noise Typography
+ * ==========================================================================
+ * Type something and it's rasterised into particles. Every particle has a
+ * "home" pixel inside the glyphs; each frame it's pulled toward a point
+ * that drifts around home on the same 3D simplex field the hero uses
+ * (x, y, time), and shoved away from the cursor. Springs bring it back.
+ *
+ * Controls:
+ *   • Density     — gap in pixels between sampled particles
+ *   • Noise scale — how tight the field's swirls are
+ *   • Speed       — how fast the field flows (0 freezes it)
+ *   • Export PNG  — downloads the current frame, background included
+ *
+ * The loop reads everything through refs, so sliding a control never
+ * tears down the animation — only text/density/size rebuild particles.
+ * ========================================================================== */
+
+import React, { useEffect, useRef, useState } from "react";
+import { Icon } from "@iconify/react";
+import RangeControl from "../components/RangeControl";
+import { useMood } from "../context/MoodContext";
+import { readCssColor, type RGB } from "../lib/color";
+import { downloadCanvas } from "../lib/download";
+import { simplex3 } from "../lib/noise";
+import { registerLoop } from "../lib/scheduler";
+
+/* ---- Tuning ---- */
+
+/** How far (px) the noise field can drag a particle from home */
+const DRIFT = 10;
+
+/** Radius (px) around the cursor that pushes particles away */
+const CURSOR_RADIUS = 90;
+
+/** Strength of the cursor push, per frame */
+const CURSOR_FORCE = 3.5;
+
+/** Spring pull toward the drifting target, and velocity damping */
+const SPRING = 0.06;
+const DAMPING = 0.86;
+
+/** Time multiplier for the `speed` control (field units per ms) */
+const TIME_SCALE = 0.0004;
+
+/** Longest phrase we'll try to fit on one line */
+const MAX_LENGTH = 16;
+
+const FALLBACK_FONT = '"Rock Salt", cursive';
+
+interface Particle {
+    /** Home position, sampled from the glyphs */
+    hx: number;
+    hy: number;
+    /** Live position and velocity */
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+}
+
+/**
+ * rasterizeText — Draw `text` centred on an offscreen canvas, as large as
+ * fits, and return a particle for every `gap`-th opaque pixel.
+ */
+function rasterizeText(text: string, width: number, height: number, gap: number, fontFamily: string): Particle[] {
+    const offscreen = document.createElement("canvas");
+    offscreen.width = width;
+    offscreen.height = height;
+    const ctx = offscreen.getContext("2d", { willReadFrequently: true });
+    if (!ctx || !text.trim()) return [];
+
+    /* Start at half the height, then shrink until the phrase fits */
+    let fontSize = height * 0.5;
+    ctx.font = `${fontSize}px ${fontFamily}`;
+    const measured = ctx.measureText(text).width;
+    if (measured > width * 0.85) {
+        fontSize *= (width * 0.85) / measured;
+        ctx.font = `${fontSize}px ${fontFamily}`;
+    }
+
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = "#fff";
+    ctx.fillText(text, width / 2, height / 2);
+
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const particles: Particle[] = [];
+
+    for (let y = 0; y < height; y += gap) {
+        for (let x = 0; x < width; x += gap) {
+            if (data[(y * width + x) * 4 + 3] > 128) {
+                particles.push({
+                    hx: x,
+                    hy: y,
+                    /* Start scattered so a new phrase assembles itself */
+                    x: x + (Math.random() - 0.5) * width * 0.3,
+                    y: y + (Math.random() - 0.5) * height * 0.6,
+                    vx: 0,
+                    vy: 0,
+                });
+            }
+        }
+    }
+
+    return particles;
+}
+
+const NoiseTypography: React.FC = () => {
+    const { mood, scheme } = useMood();
+
+    const [text, setText] = useState("KHAOTIC");
+    const [density, setDensity] = useState(4);
+    const [noiseScale, setNoiseScale] = useState(0.008);
+    const [speed, setSpeed] = useState(1);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+    const [fontsReady, setFontsReady] = useState(false);
+
+    /* -------------------------------------------------------------------------
+     * Refs — shared with the animation loop
+     * ----------------------------------------------------------------------- */
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const particlesRef = useRef<Particle[]>([]);
+    const pointerRef = useRef({ x: -9999, y: -9999 });
+    const paramsRef = useRef({ noiseScale, speed, density });
+    const colorsRef = useRef<{ bg: RGB; text: RGB; accent: RGB }>({
+        bg: [0, 0, 0],
+        text: [255, 255, 255],
+        accent: [255, 255, 255],
+    });
+
+    useEffect(() => {
+        paramsRef.current = { noiseScale, speed, density };
+    }, [noiseScale, speed, density]);
+
+    /* ---- Palette follows the mood (and its light/dark variant) ---- */
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        colorsRef.current = {
+            bg: readCssColor(canvas, "--color-bg"),
+            text: readCssColor(canvas, "--color-text"),
+            accent: readCssColor(canvas, "--color-accent"),
+        };
+    }, [mood, scheme]);
+
+    /* ---- Wait for the display font, or the first raster uses the fallback ---- */
+    useEffect(() => {
+        let cancelled = false;
+        const family = getComputedStyle(document.documentElement).getPropertyValue("--font-display").trim() || FALLBACK_FONT;
+
+        document.fonts
+            .load(`64px ${family}`)
+            .catch(() => undefined)
+            .then(() => {
+                if (!cancelled) setFontsReady(true);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    /* ---- Rebuild particles when the phrase, density or canvas size changes ---- */
+    useEffect(() => {
+        if (!fontsReady || size.width === 0) return;
+        const family = getComputedStyle(document.documentElement).getPropertyValue("--font-display").trim() || FALLBACK_FONT;
+        particlesRef.current = rasterizeText(text, size.width, size.height, density, family);
+    }, [text, density, size, fontsReady]);
+
+    /* -------------------------------------------------------------------------
+     * Main Effect — canvas sizing, pointer tracking and the animation loop
+     * ----------------------------------------------------------------------- */
+    useEffect(() => {
+        const container = containerRef.current;
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!container || !canvas || !ctx) return;
+
+        let clock = 0;
+
+        const animate = (delta: number) => {
+            const dpr = window.devicePixelRatio || 1;
+            const w = canvas.width / dpr;
+            const h = canvas.height / dpr;
+            const { noiseScale: scale, speed: flow, density: gap } = paramsRef.current;
+            const { bg, text: ink, accent } = colorsRef.current;
+            const { x: mx, y: my } = pointerRef.current;
+
+            /* Advance field time by frame delta, so speed 0 truly freezes it */
+            clock += delta * flow * TIME_SCALE;
+
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            ctx.fillStyle = `rgb(${bg[0]}, ${bg[1]}, ${bg[2]})`;
+            ctx.fillRect(0, 0, w, h);
+
+            const dot = Math.max(1.2, gap * 0.45);
+
+            for (const p of particlesRef.current) {
+                /* Target drifts around home along the noise field */
+                const angle = simplex3(p.hx * scale, p.hy * scale, clock) * Math.PI * 2;
+                const tx = p.hx + Math.cos(angle) * DRIFT;
+                const ty = p.hy + Math.sin(angle) * DRIFT;
+
+                p.vx += (tx - p.x) * SPRING;
+                p.vy += (ty - p.y) * SPRING;
+
+                /* Cursor pushes particles out of its radius */
+                const dx = p.x - mx;
+                const dy = p.y - my;
+                const distSq = dx * dx + dy * dy;
+                if (distSq < CURSOR_RADIUS * CURSOR_RADIUS && distSq > 0.01) {
+                    const dist = Math.sqrt(distSq);
+                    const force = (1 - dist / CURSOR_RADIUS) * CURSOR_FORCE;
+                    p.vx += (dx / dist) * force;
+                    p.vy += (dy / dist) * force;
+                }
+
+                p.vx *= DAMPING;
+                p.vy *= DAMPING;
+                p.x += p.vx;
+                p.y += p.vy;
+
+                /* The further from home, the hotter the colour */
+                const mix = Math.min(1, Math.hypot(p.x - p.hx, p.y - p.hy) / (DRIFT * 3));
+                const r = Math.round(ink[0] + mix * (accent[0] - ink[0]));
+                const g = Math.round(ink[1] + mix * (accent[1] - ink[1]));
+                const b = Math.round(ink[2] + mix * (accent[2] - ink[2]));
+
+                ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+                ctx.fillRect(p.x - dot / 2, p.y - dot / 2, dot, dot);
+            }
+        };
+
+        /* ---- Resize — keep the backing store at device resolution ---- */
+        const resizeObserver = new ResizeObserver(() => {
+            const rect = container.getBoundingClientRect();
+            const dpr = window.devicePixelRatio || 1;
+            canvas.width = Math.round(rect.width * dpr);
+            canvas.height = Math.round(rect.height * dpr);
+            setSize({ width: Math.round(rect.width), height: Math.round(rect.height) });
+        });
+        resizeObserver.observe(container);
+
+        /* ---- Pointer tracking (mouse, pen and touch) ---- */
+        const handlePointerMove = (e: PointerEvent) => {
+            const rect = canvas.getBoundingClientRect();
+            pointerRef.current = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+        };
+        const handlePointerLeave = () => {
+            pointerRef.current = { x: -9999, y: -9999 };
+        };
+        canvas.addEventListener("pointermove", handlePointerMove);
+        canvas.addEventListener("pointerleave", handlePointerLeave);
+
+        const loop = registerLoop({ name: "Noise typography", element: canvas, tick: animate });
+
+        return () => {
+            loop.dispose();
+            resizeObserver.disconnect();
+            canvas.removeEventListener("pointermove", handlePointerMove);
+            canvas.removeEventListener("pointerleave", handlePointerLeave);
+        };
+    }, []);
+
+    /* ---- Export — grab whatever is on the canvas right now ---- */
+    const exportFrame = () => {
+        if (!canvasRef.current) return;
+        const name = text.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "frame";
+        downloadCanvas(canvasRef.current, `noise-typography-${name}.png`);
+    };
+
+    return (
+        <div className="flex flex-col gap-8">
+            {/* ---- Stage ---- */}
+            <div
+                ref={containerRef}
+                className="relative w-full aspect-[16/9] border border-[var(--color-border)] rounded-sm overflow-hidden"
+            >
+                <canvas
+                    ref={canvasRef}
+                    className="absolute inset-0 w-full h-full touch-none"
+                    style={{ display: "block" }}
+                    role="img"
+                    aria-label={text ? `"${text}" rendered as drifting particles` : "Empty particle field"}
+                />
+                {!text.trim() && (
+                    <span className="absolute inset-0 flex items-center justify-center font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)] pointer-events-none">
+                        Type something below
+                    </span>
+                )}
+            </div>
+
+            {/* ---- Controls ---- */}
+            <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_1fr_auto] gap-6 md:items-end">
+                <label className="flex flex-col gap-2">
+                    <span className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]">Text</span>
+                    <input
+                        type="text"
+                        value={text}
+                        maxLength={MAX_LENGTH}
+                        onChange={(e) => setText(e.target.value)}
+                        className="bg-transparent border-b border-[var(--color-border)] focus:border-[var(--color-accent)] outline-none py-2 font-display text-lg text-[var(--color-text)] transition-colors"
+                    />
+                </label>
+                <RangeControl
+                    label="Density"
+                    value={density}
+                    min={2}
+                    max={10}
+                    format={(value) => `${value}px`}
+                    onChange={setDensity}
+                />
+                <RangeControl
+                    label="Noise scale"
+                    value={noiseScale}
+                    min={0.002}
+                    max={0.03}
+                    step={0.001}
+                    format={(value) => value.toFixed(3)}
+                    onChange={setNoiseScale}
+                />
+                <RangeControl
+                    label="Speed"
+                    value={speed}
+                    min={0}
+                    max={4}
+                    step={0.1}
+                    format={(value) => `${value.toFixed(1)}×`}
+                    onChange={setSpeed}
+                />
+                <button
+                    type="button"
+                    onClick={exportFrame}
+                    className="inline-flex items-center justify-center gap-2 px-5 py-2 rounded-full border border-[var(--color-accent)] font-sans text-[10px] uppercase tracking-[0.2em] text-[var(--color-accent)] hover:bg-[var(--color-accent)] hover:text-[var(--color-bg)] transition-colors nav-link"
+                >
+                    <Icon icon="lucide:download" width={12} />
+                    Export PNG
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default NoiseTypography;
@@ -0,0 +1,21 @@
+/* ==========================================================================
+ * Experiment Demos — KHAOTIC Portfolio
+ * ==========================================================================
+ * Slug → live demo loader for `/lab/:slug` pages. Demos are lazy so a
+ * heavy canvas or audio piece only downloads when its page is opened; the
+ * page wraps a loader in `lazy()` itself, so a failed download can be
+ * retried with a fresh one.
+ * Experiments without an entry here show their write-up only.
+ * ========================================================================== */
+
+import type React from "react";
+
+export type DemoLoader = () => Promise<{ default: React.ComponentType }>;
+
+export const EXPERIMENT_DEMOS: Record<string, DemoLoader> = {
+    "noise-typography": () => import("./NoiseTypography"),
+    "colour-mood-engine": () => import("./ColourMoodEngine"),
+    "glitch-portraits": () => import("./GlitchPortraits"),
+    "ink-physics": () => import("./InkPhysics"),
+    "audio-geometry": () => import("./AudioGeometry"),
+};
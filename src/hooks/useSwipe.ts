@@ -0,0 +1,77 @@
+/* ==========================================================================
+ * useSwipe Hook — Horizontal Touch Swipe Detection
+ * ==========================================================================
+ * Listens for touch gestures on an element and reports deliberate
+ * horizontal swipes. Vertical drags (i.e. normal scrolling) are ignored so
+ * the hook can sit on scrollable containers without hijacking them.
+ *
+ * Usage:
+ *   const ref = useRef<HTMLDivElement>(null);
+ *   useSwipe(ref, { onSwipeLeft: next, onSwipeRight: previous });
+ * ========================================================================== */
+
+import { useEffect, useRef } from "react";
+import type { RefObject } from "react";
+
+interface SwipeHandlers {
+    /** Finger moved right → left (usually "next") */
+    onSwipeLeft?: () => void;
+    /** Finger moved left → right (usually "previous") */
+    onSwipeRight?: () => void;
+}
+
+/** Minimum horizontal travel (px) before a gesture counts as a swipe */
+const SWIPE_THRESHOLD = 60;
+
+/** Horizontal travel must exceed vertical travel by this factor */
+const SWIPE_DOMINANCE = 1.5;
+
+/**
+ * useSwipe — Calls the matching handler when a horizontal swipe ends.
+ *
+ * @param targetRef - The element to listen on.
+ * @param handlers  - Swipe callbacks; the latest values are always used.
+ */
+export function useSwipe(
+    targetRef: RefObject<HTMLElement | null>,
+    handlers: SwipeHandlers
+) {
+    /* Keep the latest handlers without re-binding listeners every render */
+    const handlersRef = useRef(handlers);
+    useEffect(() => {
+        handlersRef.current = handlers;
+    });
+
+    useEffect(() => {
+        const el = targetRef.current;
+        if (!el) return;
+
+        let startX = 0;
+        let startY = 0;
+
+        const handleTouchStart = (e: TouchEvent) => {
+            startX = e.touches[0].clientX;
+            startY = e.touches[0].clientY;
+        };
+
+        const handleTouchEnd = (e: TouchEvent) => {
+            const touch = e.changedTouches[0];
+            const dx = touch.clientX - startX;
+            const dy = touch.clientY - startY;
+
+            if (Math.abs(dx) < SWIPE_THRESHOLD) return;
+            if (Math.abs(dx) < Math.abs(dy) * SWIPE_DOMINANCE) return;
+
+            if (dx < 0) handlersRef.current.onSwipeLeft?.();
+            else handlersRef.current.onSwipeRight?.();
+        };
+
+        el.addEventListener("touchstart", handleTouchStart, { passive: true });
+        el.addEventListener("touchend", handleTouchEnd, { passive: true });
+
+        return () => {
+            el.removeEventListener("touchstart", handleTouchStart);
+            el.removeEventListener("touchend", handleTouchEnd);
+        };
+    }, [targetRef]);
+}
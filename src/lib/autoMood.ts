@@ -0,0 +1,157 @@
+/* ==========================================================================
+ * Auto Mood — KHAOTIC Portfolio
+ * ==========================================================================
+ * The "auto" half of the Colour Mood Engine. Instead of one fixed mood it
+ * blends the palettes on the fly:
+ *
+ *   1. Time of day picks a base — two neighbouring anchors in
+ *      `TIME_ANCHORS`, crossfaded by the local clock
+ *   2. Scroll depth pulls toward `DEEP_MOOD` the further down you go
+ *   3. Cursor energy (recent speed, quick to rise, slow to fall) pulls
+ *      toward `ENERGY_MOOD`
+ *
+ * Palettes are read from the `[data-mood]` rules in index.css, so the CSS
+ * stays the single source of truth. The blend is eased toward its target
+ * and written inline with `applyPalette` — only when it has visibly
+ * changed, since every write restyles the page — and clearing that hands
+ * control back to the stylesheet. The blend ticks on the shared frame
+ * loop (`lib/scheduler`), so it rests with everything else while the tab
+ * is hidden.
+ * ========================================================================== */
+
+import type { Mood } from "../context/MoodContext";
+import { formatRGBA } from "./color";
+import { moodSignals } from "./moodSignals";
+import { applyPalette, clearPalette, MOOD_VARS, mixPalettes, readMoodPalette, type MoodPalette } from "./palette";
+import { registerLoop } from "./scheduler";
+
+/** Where the day's base mood sits, by hour (0–24, wrapping) */
+const TIME_ANCHORS: { hour: number; mood: Mood }[] = [
+    { hour: 0, mood: "midnight" },
+    { hour: 6, mood: "midnight" },
+    { hour: 9, mood: "default" },
+    { hour: 16, mood: "default" },
+    { hour: 19, mood: "ember" },
+    { hour: 22, mood: "midnight" },
+    { hour: 24, mood: "midnight" },
+];
+
+/** Scrolling deep pulls toward this, at most `DEEP_WEIGHT` of the way */
+const DEEP_MOOD: Mood = "midnight";
+const DEEP_WEIGHT = 0.5;
+
+/** A restless cursor pulls toward this, at most `ENERGY_WEIGHT` of the way */
+const ENERGY_MOOD: Mood = "toxic";
+const ENERGY_WEIGHT = 0.6;
+
+/** Cursor speed (px/frame) that counts as full energy */
+const FULL_ENERGY_SPEED = 40;
+
+/** How far the shown palette moves toward the target per tick (0–1) */
+const PALETTE_EASING = 0.08;
+
+/** Milliseconds between blend steps — custom property changes restyle the page */
+export const TICK_MS = 50;
+
+/** smoothstep — Ease a 0–1 ramp so crossfades don't start or stop abruptly */
+function smoothstep(t: number): number {
+    return t * t * (3 - 2 * t);
+}
+
+/**
+ * getTimeBlend — The two anchor moods around `date` and how far between
+ * them we are.
+ */
+export function getTimeBlend(date: Date): { from: Mood; to: Mood; t: number } {
+    const hour = date.getHours() + date.getMinutes() / 60;
+    const nextIndex = TIME_ANCHORS.findIndex((anchor) => anchor.hour > hour);
+    const next = TIME_ANCHORS[nextIndex];
+    const previous = TIME_ANCHORS[nextIndex - 1];
+    return {
+        from: previous.mood,
+        to: next.mood,
+        t: smoothstep((hour - previous.hour) / (next.hour - previous.hour)),
+    };
+}
+
+/**
+ * startAutoMood — Run the blend until the returned function is called.
+ * `onDominantChange` fires whenever a different mood takes the lead, so
+ * `data-mood` (and anything keyed on it) can follow.
+ */
+export function startAutoMood(onDominantChange: (mood: Mood) => void): () => void {
+    const palettes = new Map<Mood, MoodPalette>();
+    const paletteFor = (mood: Mood) => {
+        let palette = palettes.get(mood);
+        if (!palette) {
+            palette = readMoodPalette(mood);
+            palettes.set(mood, palette);
+        }
+        return palette;
+    };
+
+    /** 0–1 eased cursor energy */
+    let energy = 0;
+    /** The mood contributing most right now (null until the first tick) */
+    let leader: Mood | null = null;
+    /** Start from whatever is on screen, so switching auto on eases in */
+    let shown = readMoodPalette((document.body.getAttribute("data-mood") as Mood | null) ?? "default");
+    /** The palette as last written, as CSS — a settled blend stops writing */
+    let written = "";
+
+    const tick = () => {
+        const { from, to, t } = getTimeBlend(new Date());
+
+        /* Energy jumps with a flick of the wrist and lingers for a few seconds */
+        const targetEnergy = Math.min(1, moodSignals.cursorSpeed / FULL_ENERGY_SPEED);
+        energy += (targetEnergy - energy) * (targetEnergy > energy ? 0.3 : 0.03);
+
+        const depthWeight = moodSignals.scrollProgress * DEEP_WEIGHT;
+        const energyWeight = energy * ENERGY_WEIGHT;
+
+        let target = mixPalettes(paletteFor(from), paletteFor(to), t);
+        target = mixPalettes(target, paletteFor(DEEP_MOOD), depthWeight);
+        target = mixPalettes(target, paletteFor(ENERGY_MOOD), energyWeight);
+
+        shown = mixPalettes(shown, target, PALETTE_EASING);
+        const css = MOOD_VARS.map((name) => formatRGBA(shown[name])).join();
+        if (css !== written) {
+            written = css;
+            applyPalette(shown);
+        }
+
+        /* Whoever holds the largest share of the final mix leads */
+        const rest = (1 - depthWeight) * (1 - energyWeight);
+        const weights = new Map<Mood, number>();
+        const add = (mood: Mood, weight: number) => weights.set(mood, (weights.get(mood) ?? 0) + weight);
+        add(from, rest * (1 - t));
+        add(to, rest * t);
+        add(DEEP_MOOD, depthWeight * (1 - energyWeight));
+        add(ENERGY_MOOD, energyWeight);
+
+        const dominant = [...weights.entries()].sort((a, b) => b[1] - a[1])[0][0];
+        if (dominant !== leader) {
+            leader = dominant;
+            onDominantChange(dominant);
+        }
+    };
+
+    tick();
+
+    /** Time since the last tick — frames come faster than ticks */
+    let elapsed = 0;
+    const loop = registerLoop({
+        name: "Auto mood",
+        tick: (delta) => {
+            elapsed += delta;
+            if (elapsed < TICK_MS) return;
+            elapsed = Math.min(elapsed - TICK_MS, TICK_MS);
+            tick();
+        },
+    });
+
+    return () => {
+        loop.dispose();
+        clearPalette();
+    };
+}
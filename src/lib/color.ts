@@ -0,0 +1,76 @@
+/* ==========================================================================
+ * Colour Helpers — KHAOTIC Portfolio
+ * ==========================================================================
+ * Canvas pieces can't use `var(--color-accent)` directly, so they read the
+ * computed custom property and split it into channels here.
+ * ========================================================================== */
+
+/** An `[r, g, b]` triple, each channel 0–255 */
+export type RGB = [number, number, number];
+
+/**
+ * parseRGBValues — Robust Hex/RGB/RGBA handling. Falls back to white for
+ * anything it can't read.
+ */
+export function parseRGBValues(colorStr: string): RGB {
+    /* Remove whitespace */
+    const clean = colorStr.trim().toLowerCase();
+
+    /* Handle Hex (#ffffff or #fff) */
+    if (clean.startsWith("#")) {
+        let fullHex = clean;
+        if (clean.length === 4) {
+            fullHex = `#${clean[1]}${clean[1]}${clean[2]}${clean[2]}${clean[3]}${clean[3]}`;
+        }
+        const r = parseInt(fullHex.slice(1, 3), 16);
+        const g = parseInt(fullHex.slice(3, 5), 16);
+        const b = parseInt(fullHex.slice(5, 7), 16);
+        return isNaN(r) || isNaN(g) || isNaN(b) ? [255, 255, 255] : [r, g, b];
+    }
+
+    /* Handle rgb() or rgba() */
+    const match = clean.match(/\d+/g);
+    if (match && match.length >= 3) {
+        return [Number(match[0]), Number(match[1]), Number(match[2])];
+    }
+
+    return [255, 255, 255];
+}
+
+/**
+ * readCssColor — Resolve a custom property (e.g. `--color-accent`) on an
+ * element to RGB channels.
+ */
+export function readCssColor(element: Element, property: string): RGB {
+    return parseRGBValues(window.getComputedStyle(element).getPropertyValue(property));
+}
+
+/** An `[r, g, b, a]` quadruple — channels 0–255, alpha 0–1 */
+export type RGBA = [number, number, number, number];
+
+/**
+ * parseRGBA — Like `parseRGBValues`, but keeps the alpha of `rgba()`
+ * values (anything without one is opaque).
+ */
+export function parseRGBA(colorStr: string): RGBA {
+    const [r, g, b] = parseRGBValues(colorStr);
+    const clean = colorStr.trim();
+    const channels = clean.startsWith("#") ? null : clean.match(/[\d.]+/g);
+    const alpha = channels && channels.length >= 4 ? Number(channels[3]) : 1;
+    return [r, g, b, Number.isFinite(alpha) ? alpha : 1];
+}
+
+/** mixRGBA — Linear blend from `a` (t = 0) to `b` (t = 1) */
+export function mixRGBA(a: RGBA, b: RGBA, t: number): RGBA {
+    return [
+        a[0] + (b[0] - a[0]) * t,
+        a[1] + (b[1] - a[1]) * t,
+        a[2] + (b[2] - a[2]) * t,
+        a[3] + (b[3] - a[3]) * t,
+    ];
+}
+
+/** formatRGBA — Back to a CSS colour string */
+export function formatRGBA([r, g, b, a]: RGBA): string {
+    return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${Math.round(a * 1000) / 1000})`;
+}
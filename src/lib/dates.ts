@@ -0,0 +1,28 @@
+/* ==========================================================================
+ * Partial Dates — KHAOTIC Portfolio
+ * ==========================================================================
+ * Content dates are written at year (`"2022"`) or month (`"2024-03"`)
+ * precision — nobody remembers the exact day a job or experiment began.
+ * These helpers read and print them consistently across the site.
+ * ========================================================================== */
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * parsePartialDate — `"2024"` / `"2024-03"` → the first moment of that
+ * year or month, or the *last* moment when `endOfPeriod` is set.
+ */
+export function parsePartialDate(value: string, endOfPeriod = false): Date {
+    const [year, month] = value.split("-").map(Number);
+
+    if (month === undefined) {
+        return endOfPeriod ? new Date(year + 1, 0, 1, 0, 0, 0, -1) : new Date(year, 0, 1);
+    }
+    return endOfPeriod ? new Date(year, month, 1, 0, 0, 0, -1) : new Date(year, month - 1, 1);
+}
+
+/** `"2024"` → "2024", `"2024-03"` → "Mar 2024" */
+export function formatPartialDate(value: string): string {
+    const [year, month] = value.split("-");
+    return month ? `${MONTHS[Number(month) - 1]} ${year}` : year;
+}
@@ -0,0 +1,20 @@
+/* ==========================================================================
+ * Downloads — KHAOTIC Portfolio
+ * ==========================================================================
+ * Save-to-disk helpers for the Lab's canvas pieces.
+ * ========================================================================== */
+
+/**
+ * downloadCanvas — Save the canvas's current pixels as a PNG.
+ */
+export function downloadCanvas(canvas: HTMLCanvasElement, filename: string): void {
+    canvas.toBlob((blob) => {
+        if (!blob) return;
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+    }, "image/png");
+}
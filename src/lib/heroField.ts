@@ -0,0 +1,630 @@
+/* ==========================================================================
+ * Hero Field — KHAOTIC Portfolio
+ * ==========================================================================
+ * The hero's noise field, split from `HeroCanvas` so it can be drawn more
+ * than one way. A renderer owns a canvas and draws one frame at a time
+ * from a `FieldFrame` — everything it needs, so it keeps no state about
+ * the page:
+ *
+ *   • `createWebGLField` (heroFieldGL.ts) — shaders, preferred
+ *   • `createCanvas2DField` (here) — plain 2D drawing, the fallback
+ *
+ * Both draw the same field from the same noise table, in any `FieldMode`:
+ *
+ *   • dots      — a grid of dots, brightness from 3D simplex noise
+ *   • flow      — a grid of short strokes pointing along the noise angle
+ *   • ascii     — a grid of glyphs, denser where the noise is brighter
+ *   • particles — free particles advected by the noise angle (the one
+ *                 mode with memory — see `createParticleSwarm`)
+ *
+ * In every mode the cursor adds turbulence and pulls colour toward the
+ * accent.
+ *
+ * A `QualityGovernor` watches frame times and steps the quality tier down
+ * when frames drop (and back up, carefully, when there's headroom), and a
+ * `FieldLoop` ties renderer, governor and animation clock together. The
+ * loop touches no DOM, so it runs the same on the main thread or inside
+ * `heroField.worker.ts` (see `heroFieldHost.ts` for which one you get).
+ * ========================================================================== */
+
+import type { RGB } from "./color";
+import { createNoise, type Noise } from "./noise";
+
+/* ==========================================================================
+ * Frames & Renderers
+ * ========================================================================== */
+
+/** What the field is drawn as */
+export type FieldMode = "dots" | "flow" | "ascii" | "particles";
+
+/** In the order the hero's control panel lists them */
+export const FIELD_MODES: FieldMode[] = ["dots", "flow", "ascii", "particles"];
+
+/** Base radius of each dot (px) before brightness and cursor growth */
+export const BASE_DOT_RADIUS = 1.2;
+
+/** Half-length of a flow stroke at full brightness, as a fraction of the
+ * spacing — under half, so a stroke never leaves its grid cell */
+export const STROKE_REACH = 0.45;
+
+/** ASCII glyphs, sparsest first — brightness picks one */
+export const ASCII_RAMP = " .:-=+*#%@";
+
+/** Base radius of each particle (px) before cursor growth */
+export const PARTICLE_RADIUS = 1;
+
+/** Everything needed to draw one frame, in CSS pixels */
+export interface FieldFrame {
+    width: number;
+    height: number;
+    mode: FieldMode;
+    /** Noise time axis */
+    time: number;
+    /** Noise time that passed since the previous frame */
+    delta: number;
+    /** Cursor position relative to the canvas (far off-canvas when absent) */
+    mouseX: number;
+    mouseY: number;
+    spacing: number;
+    scale: number;
+    influenceRadius: number;
+    noise: Noise;
+    text: RGB;
+    accent: RGB;
+    tier: QualityTier;
+}
+
+export interface FieldRenderer {
+    kind: "webgl" | "2d";
+    /** Match the backing store to `width`×`height` CSS px at `pixelRatio` */
+    resize: (width: number, height: number, pixelRatio: number) => void;
+    render: (frame: FieldFrame) => void;
+    dispose: () => void;
+}
+
+/** Canvases renderers can draw on — the page's, or one handed to a worker */
+export type FieldCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/* ==========================================================================
+ * Quality Tiers
+ * ========================================================================== */
+
+export type QualityTier = "high" | "medium" | "low";
+
+export interface QualitySettings {
+    /** Cap on the backing store's pixels per CSS pixel */
+    maxPixelRatio: number;
+    /** Whether the cursor's second noise octave is drawn */
+    turbulence: boolean;
+    /** Grid spacing multiplier — fewer dots for the 2D path to draw */
+    spacingFactor: number;
+}
+
+/** Best first, in the order the governor steps down through them */
+export const QUALITY_TIERS: QualityTier[] = ["high", "medium", "low"];
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+    high: { maxPixelRatio: 2, turbulence: true, spacingFactor: 1 },
+    medium: { maxPixelRatio: 1.25, turbulence: true, spacingFactor: 1 },
+    low: { maxPixelRatio: 1, turbulence: false, spacingFactor: 1.5 },
+};
+
+/** Smoothed frame time (ms) above which we step down — under ~40fps */
+const SLOW_FRAME_MS = 25;
+
+/** Smoothed frame time (ms) below which we may step up — a steady 60fps */
+const FAST_FRAME_MS = 17.5;
+
+/** How long (ms) a verdict has to hold before acting on it */
+const DOWNGRADE_AFTER_MS = 1000;
+const UPGRADE_AFTER_MS = 5000;
+
+/** Frame gaps longer than this (tab switch, breakpoint) aren't measured */
+const MAX_SAMPLE_MS = 250;
+
+export interface QualityGovernor {
+    /** Feed the time since the previous frame */
+    sample: (frameMs: number) => void;
+    readonly tier: QualityTier;
+}
+
+/**
+ * createQualityGovernor — Tracks an eased frame time and moves between
+ * tiers. A tier it has stepped down from is never retried, so a machine
+ * that can't hold it doesn't flicker between two.
+ */
+export function createQualityGovernor(
+    initial: QualityTier,
+    onChange: (tier: QualityTier) => void
+): QualityGovernor {
+    let tier = initial;
+    let average = 1000 / 60;
+    /** How long the current slow/fast streak has lasted */
+    let slowFor = 0;
+    let fastFor = 0;
+    /** Best tier still worth trying */
+    let ceiling = 0;
+
+    const moveTo = (index: number) => {
+        tier = QUALITY_TIERS[index];
+        slowFor = 0;
+        fastFor = 0;
+        average = 1000 / 60;
+        onChange(tier);
+    };
+
+    return {
+        get tier() {
+            return tier;
+        },
+        sample(frameMs) {
+            if (frameMs <= 0 || frameMs > MAX_SAMPLE_MS) return;
+            average += (frameMs - average) * 0.1;
+
+            slowFor = average > SLOW_FRAME_MS ? slowFor + frameMs : 0;
+            fastFor = average < FAST_FRAME_MS ? fastFor + frameMs : 0;
+
+            const index = QUALITY_TIERS.indexOf(tier);
+            if (slowFor > DOWNGRADE_AFTER_MS && index < QUALITY_TIERS.length - 1) {
+                ceiling = index + 1;
+                moveTo(index + 1);
+            } else if (fastFor > UPGRADE_AFTER_MS && index > ceiling) {
+                moveTo(index - 1);
+            }
+        },
+    };
+}
+
+/* ==========================================================================
+ * Particle Swarm
+ * ========================================================================== */
+
+/** Particles per grid cell's worth of area */
+const PARTICLE_DENSITY = 0.35;
+
+/** How far (px) a particle drifts per unit of noise time */
+const PARTICLE_DRIFT = 160;
+
+/** How far (px) the cursor shoves a particle per unit of noise time, at its centre */
+const PARTICLE_REPEL = 400;
+
+/** Particle lifetimes, in noise time — spread so they don't fade in unison */
+const PARTICLE_MIN_LIFE = 0.6;
+const PARTICLE_MAX_LIFE = 1.8;
+
+export interface ParticleSwarm {
+    /** Advance one frame; returns x, y and alpha for each of `count` particles */
+    step: (frame: FieldFrame) => Float32Array;
+    readonly count: number;
+}
+
+/**
+ * createParticleSwarm — Particles that drift along the noise angle, fade
+ * in and out over their lifetime, and respawn somewhere random. The count
+ * follows the area and spacing, so quality tiers thin them out too.
+ */
+export function createParticleSwarm(): ParticleSwarm {
+    /** x, y, age, life per particle */
+    let state = new Float32Array(0);
+    /** x, y, alpha per particle, as handed to the renderer */
+    let output = new Float32Array(0);
+    let count = 0;
+
+    const spawn = (i: number, width: number, height: number, age: number) => {
+        const life = PARTICLE_MIN_LIFE + Math.random() * (PARTICLE_MAX_LIFE - PARTICLE_MIN_LIFE);
+        state[i * 4] = Math.random() * width;
+        state[i * 4 + 1] = Math.random() * height;
+        state[i * 4 + 2] = age * life;
+        state[i * 4 + 3] = life;
+    };
+
+    return {
+        get count() {
+            return count;
+        },
+        step({ width, height, time, delta, mouseX, mouseY, scale, influenceRadius, noise, tier, ...frame }) {
+            const spacing = frame.spacing * QUALITY_SETTINGS[tier].spacingFactor;
+            const target = Math.floor(((width * height) / (spacing * spacing)) * PARTICLE_DENSITY);
+
+            /* Keep the survivors; newcomers start part-way through a life */
+            if (target !== count) {
+                const next = new Float32Array(target * 4);
+                next.set(state.subarray(0, Math.min(count, target) * 4));
+                state = next;
+                output = new Float32Array(target * 3);
+                for (let i = count; i < target; i++) spawn(i, width, height, Math.random());
+                count = target;
+            }
+
+            for (let i = 0; i < count; i++) {
+                let x = state[i * 4];
+                let y = state[i * 4 + 1];
+                const age = state[i * 4 + 2] + delta;
+                const life = state[i * 4 + 3];
+
+                const value = noise.simplex3(x * scale, y * scale, time);
+                const angle = value * Math.PI * 2;
+                x += Math.cos(angle) * delta * PARTICLE_DRIFT;
+                y += Math.sin(angle) * delta * PARTICLE_DRIFT;
+
+                /* The cursor pushes particles out of its radius */
+                const dx = x - mouseX;
+                const dy = y - mouseY;
+                const dist = Math.sqrt(dx * dx + dy * dy);
+                const proximity = Math.max(0, 1 - dist / influenceRadius);
+                if (proximity > 0 && dist > 0.01) {
+                    x += (dx / dist) * proximity * delta * PARTICLE_REPEL;
+                    y += (dy / dist) * proximity * delta * PARTICLE_REPEL;
+                }
+
+                if (age > life || x < 0 || x > width || y < 0 || y > height) {
+                    spawn(i, width, height, 0);
+                    output[i * 3 + 2] = 0;
+                    continue;
+                }
+
+                state[i * 4] = x;
+                state[i * 4 + 1] = y;
+                state[i * 4 + 2] = age;
+
+                const brightness = (value + 1) * 0.5;
+                output[i * 3] = x;
+                output[i * 3 + 1] = y;
+                output[i * 3 + 2] = (0.1 + brightness * 0.4) * Math.sin((Math.PI * age) / life);
+            }
+
+            return output;
+        },
+    };
+}
+
+/* ==========================================================================
+ * Canvas 2D Renderer
+ * ========================================================================== */
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * forEachGridPoint — Visit every grid point of `frame` with its noise
+ * value (plus the cursor's turbulence octave) and cursor proximity.
+ */
+function forEachGridPoint(
+    { width, height, time, mouseX, mouseY, scale, influenceRadius, noise, tier, ...frame }: FieldFrame,
+    visit: (x: number, y: number, value: number, proximity: number) => void
+) {
+    const { turbulence, spacingFactor } = QUALITY_SETTINGS[tier];
+    const spacing = frame.spacing * spacingFactor;
+
+    const cols = Math.ceil(width / spacing) + 1;
+    const rows = Math.ceil(height / spacing) + 1;
+
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            const x = col * spacing;
+            const y = row * spacing;
+
+            const dx = x - mouseX;
+            const dy = y - mouseY;
+            const dist = Math.sqrt(dx * dx + dy * dy);
+
+            const proximity = Math.max(0, 1 - dist / influenceRadius);
+
+            const baseNoise = noise.simplex3(x * scale, y * scale, time);
+
+            const turbulenceNoise =
+                turbulence && proximity > 0
+                    ? noise.simplex3(x * scale * 3, y * scale * 3, time * 2) * proximity * 0.6
+                    : 0;
+
+            visit(x, y, baseNoise + turbulenceNoise, proximity);
+        }
+    }
+}
+
+/** mixColor — `text` → `accent` by `amount`, as a CSS colour */
+function mixColor([tr, tg, tb]: RGB, [ar, ag, ab]: RGB, amount: number, alpha: number): string {
+    const r = Math.round(tr + amount * (ar - tr));
+    const g = Math.round(tg + amount * (ag - tg));
+    const b = Math.round(tb + amount * (ab - tb));
+    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+/* ---- One painter per mode ---- */
+
+function drawDots(ctx: Context2D, frame: FieldFrame) {
+    forEachGridPoint(frame, (x, y, value, proximity) => {
+        const brightness = (value + 1) * 0.5;
+
+        const baseAlpha = 0.08 + brightness * 0.27;
+        const cursorBoost = proximity * proximity * 0.6;
+        const alpha = Math.min(1, baseAlpha + cursorBoost);
+
+        const radius = BASE_DOT_RADIUS + brightness * 0.8 + proximity * 2.5;
+
+        /* Colour mixing: Interpolate between Text color and Accent color based on proximity */
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fillStyle = mixColor(frame.text, frame.accent, proximity, alpha);
+        ctx.fill();
+    });
+}
+
+function drawStrokes(ctx: Context2D, frame: FieldFrame) {
+    const spacing = frame.spacing * QUALITY_SETTINGS[frame.tier].spacingFactor;
+    ctx.lineCap = "butt";
+
+    forEachGridPoint(frame, (x, y, value, proximity) => {
+        const brightness = (value + 1) * 0.5;
+        const angle = value * Math.PI * 2;
+        const reach = spacing * STROKE_REACH * (0.4 + 0.6 * brightness);
+        const dx = Math.cos(angle) * reach;
+        const dy = Math.sin(angle) * reach;
+
+        ctx.beginPath();
+        ctx.moveTo(x - dx, y - dy);
+        ctx.lineTo(x + dx, y + dy);
+        ctx.lineWidth = 0.75 + proximity * 1.25;
+        ctx.strokeStyle = mixColor(frame.text, frame.accent, proximity, Math.min(1, 0.12 + brightness * 0.4 + proximity * proximity * 0.6));
+        ctx.stroke();
+    });
+}
+
+function drawGlyphs(ctx: Context2D, frame: FieldFrame) {
+    const spacing = frame.spacing * QUALITY_SETTINGS[frame.tier].spacingFactor;
+    ctx.font = `${spacing}px monospace`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+
+    forEachGridPoint(frame, (x, y, value, proximity) => {
+        const brightness = (value + 1) * 0.5;
+        const level = Math.min(1, brightness + proximity * 0.5);
+        const glyph = ASCII_RAMP[Math.round(level * (ASCII_RAMP.length - 1))];
+        if (glyph === " ") return;
+
+        ctx.fillStyle = mixColor(frame.text, frame.accent, proximity, Math.min(1, 0.25 + brightness * 0.45 + proximity * proximity * 0.6));
+        ctx.fillText(glyph, x, y);
+    });
+}
+
+function drawParticles(ctx: Context2D, frame: FieldFrame, swarm: ParticleSwarm) {
+    const particles = swarm.step(frame);
+
+    for (let i = 0; i < swarm.count; i++) {
+        const x = particles[i * 3];
+        const y = particles[i * 3 + 1];
+        const alpha = particles[i * 3 + 2];
+        if (alpha <= 0) continue;
+
+        const proximity = Math.max(0, 1 - Math.hypot(x - frame.mouseX, y - frame.mouseY) / frame.influenceRadius);
+
+        ctx.beginPath();
+        ctx.arc(x, y, PARTICLE_RADIUS + proximity * 1.5, 0, Math.PI * 2);
+        ctx.fillStyle = mixColor(frame.text, frame.accent, proximity, Math.min(1, alpha * (1 + proximity * 2)));
+        ctx.fill();
+    }
+}
+
+/**
+ * createCanvas2DField — The original renderer: one `arc` per dot (or
+ * stroke, glyph, particle), noise sampled on the CPU. Null if the canvas
+ * can't give a 2D context.
+ */
+export function createCanvas2DField(canvas: FieldCanvas): FieldRenderer | null {
+    const ctx = canvas.getContext("2d") as Context2D | null;
+    if (!ctx) return null;
+
+    const swarm = createParticleSwarm();
+
+    return {
+        kind: "2d",
+
+        resize(width, height, pixelRatio) {
+            canvas.width = Math.round(width * pixelRatio);
+            canvas.height = Math.round(height * pixelRatio);
+            ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+        },
+
+        render(frame) {
+            /* Clear the canvas to fully transparent */
+            ctx.clearRect(0, 0, frame.width, frame.height);
+
+            switch (frame.mode) {
+                case "dots":
+                    drawDots(ctx, frame);
+                    break;
+                case "flow":
+                    drawStrokes(ctx, frame);
+                    break;
+                case "ascii":
+                    drawGlyphs(ctx, frame);
+                    break;
+                case "particles":
+                    drawParticles(ctx, frame, swarm);
+                    break;
+            }
+        },
+
+        dispose() {
+            /* Nothing held beyond the context, which goes with the canvas */
+        },
+    };
+}
+
+/* ==========================================================================
+ * Field Loop
+ * ========================================================================== */
+
+/** The props-driven shape of the field */
+export interface FieldSettings {
+    mode: FieldMode;
+    spacing: number;
+    scale: number;
+    /** Noise units per ms */
+    speed: number;
+    influenceRadius: number;
+}
+
+export interface FieldLoopInit {
+    settings: FieldSettings;
+    seed: number | undefined;
+    text: RGB;
+    accent: RGB;
+}
+
+/** Everything the page tells a running field — the same on either thread */
+export interface FieldControls {
+    resize: (width: number, height: number, devicePixelRatio: number) => void;
+    setMouse: (x: number, y: number) => void;
+    setColors: (text: RGB, accent: RGB) => void;
+    setSettings: (settings: FieldSettings) => void;
+    setSeed: (seed: number | undefined) => void;
+    /** Stop or restart frames (e.g. off-screen); time picks up where it paused */
+    setActive: (active: boolean) => void;
+    dispose: () => void;
+}
+
+export interface FieldLoop extends FieldControls {
+    readonly tier: QualityTier;
+}
+
+/** Frame gaps longer than this (background tab) don't lurch the field forward */
+const MAX_STEP_MS = 100;
+
+/**
+ * scheduleFrame — `requestAnimationFrame` where it exists (windows, and
+ * workers in most browsers), a ~60fps timer elsewhere. Returns a cancel.
+ */
+function scheduleFrame(callback: (now: number) => void): () => void {
+    if (typeof requestAnimationFrame === "function") {
+        const id = requestAnimationFrame(callback);
+        return () => cancelAnimationFrame(id);
+    }
+    const id = setTimeout(() => callback(performance.now()), 16);
+    return () => clearTimeout(id);
+}
+
+/**
+ * createFieldLoop — Animate `renderer` until disposed. Nothing is drawn
+ * until the first `resize`.
+ */
+export function createFieldLoop(
+    renderer: FieldRenderer,
+    init: FieldLoopInit,
+    onQualityChange?: (tier: QualityTier) => void
+): FieldLoop {
+    let settings = init.settings;
+    let noise = createNoise(init.seed);
+    let text = init.text;
+    let accent = init.accent;
+    const mouse = { x: -9999, y: -9999 };
+    const size = { width: 0, height: 0, devicePixelRatio: 1 };
+
+    /* A new tier may change the pixel ratio, so resize on every change */
+    const governor = createQualityGovernor("high", (tier) => {
+        applySize();
+        onQualityChange?.(tier);
+    });
+
+    const applySize = () => {
+        const pixelRatio = Math.min(size.devicePixelRatio, QUALITY_SETTINGS[governor.tier].maxPixelRatio);
+        renderer.resize(size.width, size.height, pixelRatio);
+    };
+
+    /** Noise time, advanced by frame deltas so `speed` can change smoothly */
+    let time = 0;
+    let lastFrame = performance.now();
+    let cancelFrame = () => {};
+    let active = true;
+
+    const frame = (now: number) => {
+        const delta = now - lastFrame;
+        lastFrame = now;
+        governor.sample(delta);
+        const step = Math.min(delta, MAX_STEP_MS) * settings.speed;
+        time += step;
+
+        if (size.width > 0 && size.height > 0) {
+            renderer.render({
+                width: size.width,
+                height: size.height,
+                mode: settings.mode,
+                time,
+                delta: step,
+                mouseX: mouse.x,
+                mouseY: mouse.y,
+                spacing: settings.spacing,
+                scale: settings.scale,
+                influenceRadius: settings.influenceRadius,
+                noise,
+                text,
+                accent,
+                tier: governor.tier,
+            });
+        }
+
+        cancelFrame = scheduleFrame(frame);
+    };
+    cancelFrame = scheduleFrame(frame);
+
+    return {
+        get tier() {
+            return governor.tier;
+        },
+        resize(width, height, devicePixelRatio) {
+            size.width = width;
+            size.height = height;
+            size.devicePixelRatio = devicePixelRatio;
+            applySize();
+        },
+        setMouse(x, y) {
+            mouse.x = x;
+            mouse.y = y;
+        },
+        setColors(nextText, nextAccent) {
+            text = nextText;
+            accent = nextAccent;
+        },
+        setSettings(next) {
+            settings = next;
+        },
+        setSeed(seed) {
+            if (seed !== noise.seed) noise = createNoise(seed);
+        },
+        setActive(next) {
+            if (next === active) return;
+            active = next;
+            cancelFrame();
+            if (!active) return;
+            /* Count the first frame back from now, so the pause isn't a slow frame */
+            lastFrame = performance.now();
+            cancelFrame = scheduleFrame(frame);
+        },
+        dispose() {
+            cancelFrame();
+            renderer.dispose();
+        },
+    };
+}
+
+/* ==========================================================================
+ * Worker Messages
+ * ========================================================================== */
+
+/** Page → worker: `init` once with the transferred canvas, then `FieldControls`
+ * calls (disposing is `terminate()`) */
+export type FieldWorkerRequest =
+    | { type: "init"; canvas: OffscreenCanvas; init: FieldLoopInit }
+    | { type: "resize"; width: number; height: number; devicePixelRatio: number }
+    | { type: "mouse"; x: number; y: number }
+    | { type: "colors"; text: RGB; accent: RGB }
+    | { type: "settings"; settings: FieldSettings }
+    | { type: "seed"; seed: number | undefined }
+    | { type: "active"; active: boolean };
+
+/** Worker → page */
+export type FieldWorkerEvent =
+    | { type: "ready"; renderer: FieldRenderer["kind"]; tier: QualityTier }
+    | { type: "quality"; tier: QualityTier }
+    /** Neither WebGL nor 2D would start on the offscreen canvas, or the
+     * WebGL context was lost */
+    | { type: "failed" };
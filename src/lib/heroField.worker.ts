@@ -0,0 +1,60 @@
+/* ==========================================================================
+ * Hero Field Worker — KHAOTIC Portfolio
+ * ==========================================================================
+ * Runs the hero's `FieldLoop` off the main thread, on the OffscreenCanvas
+ * `heroFieldHost` transfers in. The page only posts what changed (size,
+ * cursor, colours, settings, seed, pause); every frame is drawn here, so GSAP,
+ * Lenis and the cursor trail keep the main thread to themselves.
+ * ========================================================================== */
+
+import {
+    createCanvas2DField,
+    createFieldLoop,
+    type FieldLoop,
+    type FieldWorkerEvent,
+    type FieldWorkerRequest,
+} from "./heroField";
+import { createWebGLField } from "./heroFieldGL";
+
+let loop: FieldLoop | null = null;
+
+const post = (event: FieldWorkerEvent) => self.postMessage(event);
+
+self.addEventListener("message", (e: MessageEvent<FieldWorkerRequest>) => {
+    const message = e.data;
+
+    switch (message.type) {
+        case "init": {
+            /* 2D only works here if WebGL never got a context; otherwise (a shader
+             * that won't build, or a lost context) the page takes over on a fresh
+             * canvas of its own */
+            const renderer =
+                createWebGLField(message.canvas, () => post({ type: "failed" })) ?? createCanvas2DField(message.canvas);
+            if (!renderer) {
+                post({ type: "failed" });
+                return;
+            }
+            loop = createFieldLoop(renderer, message.init, (tier) => post({ type: "quality", tier }));
+            post({ type: "ready", renderer: renderer.kind, tier: loop.tier });
+            break;
+        }
+        case "resize":
+            loop?.resize(message.width, message.height, message.devicePixelRatio);
+            break;
+        case "mouse":
+            loop?.setMouse(message.x, message.y);
+            break;
+        case "colors":
+            loop?.setColors(message.text, message.accent);
+            break;
+        case "settings":
+            loop?.setSettings(message.settings);
+            break;
+        case "seed":
+            loop?.setSeed(message.seed);
+            break;
+        case "active":
+            loop?.setActive(message.active);
+            break;
+    }
+});
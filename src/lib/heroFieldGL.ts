@@ -0,0 +1,462 @@
+/* ==========================================================================
+ * Hero Field, WebGL — KHAOTIC Portfolio
+ * ==========================================================================
+ * The hero's field as shaders. The grid modes share one fragment shader:
+ * every pixel finds its nearest grid point, samples the same 3D simplex
+ * noise the 2D renderer does (the permutation table is uploaded as a
+ * texture, so a seed draws the same field on either path) and shades
+ * whatever that point is drawn as —
+ *
+ *   • dots  — an anti-aliased disc; pixels too far from their grid point
+ *             to be inside any dot bail out before touching the noise
+ *   • flow  — an anti-aliased segment along the noise angle
+ *   • ascii — a cell of a glyph atlas, rasterised once from `ASCII_RAMP`
+ *
+ * Particles are simulated on the CPU (`createParticleSwarm`) and drawn as
+ * point sprites by a second, tiny program.
+ *
+ * WebGL 1 on purpose — it's the widest net, and nothing here needs more.
+ * ========================================================================== */
+
+import {
+    ASCII_RAMP,
+    BASE_DOT_RADIUS,
+    FIELD_MODES,
+    PARTICLE_RADIUS,
+    QUALITY_SETTINGS,
+    STROKE_REACH,
+    createParticleSwarm,
+    type FieldCanvas,
+    type FieldRenderer,
+} from "./heroField";
+import type { Noise } from "./noise";
+
+const VERTEX_SHADER = `
+attribute vec2 aPosition;
+
+void main() {
+    gl_Position = vec4(aPosition, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+uniform vec2 uResolution;      /* CSS px */
+uniform float uPixelRatio;
+uniform float uMode;           /* Index into FIELD_MODES: dots, flow, ascii */
+uniform float uTime;
+uniform vec2 uMouse;           /* CSS px, top-left origin */
+uniform float uSpacing;
+uniform float uScale;
+uniform float uInfluence;
+uniform float uTurbulence;     /* 1 = draw the cursor's second octave */
+uniform vec3 uText;            /* 0-1 */
+uniform vec3 uAccent;
+uniform sampler2D uPerm;       /* 512x1, one byte per entry */
+uniform sampler2D uGlyphs;     /* ASCII_RAMP, one square cell per glyph */
+
+const float BASE_RADIUS = ${BASE_DOT_RADIUS.toFixed(2)};
+const float STROKE_REACH = ${STROKE_REACH.toFixed(2)};
+const float GLYPH_COUNT = ${ASCII_RAMP.length.toFixed(1)};
+
+float perm(float i) {
+    return floor(texture2D(uPerm, vec2((i + 0.5) / 512.0, 0.5)).r * 255.0 + 0.5);
+}
+
+/* The 12 gradients of the CPU table, rebuilt from their index:
+ * groups of four over the xy, xz and yz planes, signs (+,+) (-,+) (+,-) (-,-) */
+vec3 grad3(float index) {
+    float group = floor(index / 4.0);
+    float r = index - group * 4.0;
+    float a = mod(r, 2.0) < 0.5 ? 1.0 : -1.0;
+    float b = r < 1.5 ? 1.0 : -1.0;
+    if (group < 0.5) return vec3(a, b, 0.0);
+    if (group < 1.5) return vec3(a, 0.0, b);
+    return vec3(0.0, a, b);
+}
+
+float corner(vec3 offset, float hash) {
+    float t = 0.6 - dot(offset, offset);
+    if (t < 0.0) return 0.0;
+    t *= t;
+    return t * t * dot(grad3(mod(hash, 12.0)), offset);
+}
+
+/* A line-for-line port of noise3() in lib/noise.ts */
+float simplex3(vec3 v) {
+    const float F3 = 1.0 / 3.0;
+    const float G3 = 1.0 / 6.0;
+
+    vec3 cell = floor(v + (v.x + v.y + v.z) * F3);
+    float t = (cell.x + cell.y + cell.z) * G3;
+    vec3 x0 = v - (cell - t);
+
+    vec3 i1;
+    vec3 i2;
+    if (x0.x >= x0.y) {
+        if (x0.y >= x0.z) { i1 = vec3(1.0, 0.0, 0.0); i2 = vec3(1.0, 1.0, 0.0); }
+        else if (x0.x >= x0.z) { i1 = vec3(1.0, 0.0, 0.0); i2 = vec3(1.0, 0.0, 1.0); }
+        else { i1 = vec3(0.0, 0.0, 1.0); i2 = vec3(1.0, 0.0, 1.0); }
+    } else {
+        if (x0.y < x0.z) { i1 = vec3(0.0, 0.0, 1.0); i2 = vec3(0.0, 1.0, 1.0); }
+        else if (x0.x < x0.z) { i1 = vec3(0.0, 1.0, 0.0); i2 = vec3(0.0, 1.0, 1.0); }
+        else { i1 = vec3(0.0, 1.0, 0.0); i2 = vec3(1.0, 1.0, 0.0); }
+    }
+
+    vec3 x1 = x0 - i1 + G3;
+    vec3 x2 = x0 - i2 + 2.0 * G3;
+    vec3 x3 = x0 - 1.0 + 3.0 * G3;
+
+    vec3 h = mod(cell, 256.0);
+    float n0 = corner(x0, perm(h.x + perm(h.y + perm(h.z))));
+    float n1 = corner(x1, perm(h.x + i1.x + perm(h.y + i1.y + perm(h.z + i1.z))));
+    float n2 = corner(x2, perm(h.x + i2.x + perm(h.y + i2.y + perm(h.z + i2.z))));
+    float n3 = corner(x3, perm(h.x + 1.0 + perm(h.y + 1.0 + perm(h.z + 1.0))));
+
+    return 32.0 * (n0 + n1 + n2 + n3);
+}
+
+/* Noise at a grid point, plus the cursor's turbulence octave */
+float fieldValue(vec2 point, float proximity) {
+    float value = simplex3(vec3(point * uScale, uTime));
+    if (uTurbulence > 0.5 && proximity > 0.0) {
+        value += simplex3(vec3(point * uScale * 3.0, uTime * 2.0)) * proximity * 0.6;
+    }
+    return value;
+}
+
+/* Premultiplied, as the canvas expects */
+vec4 shade(float proximity, float alpha, float coverage) {
+    float a = alpha * coverage;
+    return vec4(mix(uText, uAccent, proximity) * a, a);
+}
+
+vec4 drawDot(vec2 p, vec2 point, float proximity) {
+    float d = distance(p, point);
+
+    /* Largest this dot could be, plus a pixel of anti-aliasing */
+    if (d > BASE_RADIUS + 0.8 + proximity * 2.5 + 1.0 / uPixelRatio) return vec4(0.0);
+
+    float brightness = (fieldValue(point, proximity) + 1.0) * 0.5;
+    float alpha = min(1.0, 0.08 + brightness * 0.27 + proximity * proximity * 0.6);
+    float radius = BASE_RADIUS + brightness * 0.8 + proximity * 2.5;
+    return shade(proximity, alpha, clamp((radius - d) * uPixelRatio + 0.5, 0.0, 1.0));
+}
+
+vec4 drawStroke(vec2 p, vec2 point, float proximity) {
+    float value = fieldValue(point, proximity);
+    float brightness = (value + 1.0) * 0.5;
+    float angle = value * 6.2831853;
+    vec2 direction = vec2(cos(angle), sin(angle));
+    float reach = uSpacing * STROKE_REACH * (0.4 + 0.6 * brightness);
+
+    /* Distance to the segment through the grid point */
+    vec2 offset = p - point;
+    float d = distance(offset, direction * clamp(dot(offset, direction), -reach, reach));
+    float halfWidth = (0.75 + proximity * 1.25) * 0.5;
+
+    float alpha = min(1.0, 0.12 + brightness * 0.4 + proximity * proximity * 0.6);
+    return shade(proximity, alpha, clamp((halfWidth - d) * uPixelRatio + 0.5, 0.0, 1.0));
+}
+
+vec4 drawGlyph(vec2 p, vec2 point, float proximity) {
+    float brightness = (fieldValue(point, proximity) + 1.0) * 0.5;
+    float level = min(1.0, brightness + proximity * 0.5);
+    float glyph = floor(level * (GLYPH_COUNT - 1.0) + 0.5);
+
+    vec2 cell = clamp((p - point) / uSpacing + 0.5, 0.0, 1.0);
+    float ink = texture2D(uGlyphs, vec2((glyph + cell.x) / GLYPH_COUNT, cell.y)).a;
+
+    float alpha = min(1.0, 0.25 + brightness * 0.45 + proximity * proximity * 0.6);
+    return shade(proximity, alpha, ink);
+}
+
+void main() {
+    vec2 p = vec2(gl_FragCoord.x, uResolution.y * uPixelRatio - gl_FragCoord.y) / uPixelRatio;
+    vec2 point = floor(p / uSpacing + 0.5) * uSpacing;
+    float proximity = max(0.0, 1.0 - distance(point, uMouse) / uInfluence);
+
+    if (uMode < 0.5) gl_FragColor = drawDot(p, point, proximity);
+    else if (uMode < 1.5) gl_FragColor = drawStroke(p, point, proximity);
+    else gl_FragColor = drawGlyph(p, point, proximity);
+}
+`;
+
+const PARTICLE_VERTEX_SHADER = `
+attribute vec3 aParticle;      /* x, y in CSS px; alpha */
+
+uniform vec2 uResolution;
+uniform float uPixelRatio;
+uniform vec2 uMouse;
+uniform float uInfluence;
+uniform vec3 uText;
+uniform vec3 uAccent;
+
+varying vec4 vColor;
+
+const float RADIUS = ${PARTICLE_RADIUS.toFixed(2)};
+
+void main() {
+    vec2 clip = aParticle.xy / uResolution * 2.0 - 1.0;
+    gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+
+    float proximity = max(0.0, 1.0 - distance(aParticle.xy, uMouse) / uInfluence);
+    gl_PointSize = (RADIUS + proximity * 1.5) * 2.0 * uPixelRatio;
+
+    float a = min(1.0, aParticle.z * (1.0 + proximity * 2.0));
+    vColor = vec4(mix(uText, uAccent, proximity) * a, a);
+}
+`;
+
+const PARTICLE_FRAGMENT_SHADER = `
+precision mediump float;
+
+varying vec4 vColor;
+
+void main() {
+    vec2 offset = gl_PointCoord - 0.5;
+    if (dot(offset, offset) > 0.25) discard;
+    gl_FragColor = vColor;
+}
+`;
+
+/** Size (px) of one glyph's square in the atlas */
+const GLYPH_PX = 32;
+
+/** compile — One shader stage, or null if the driver rejects it */
+function compile(gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null {
+    const shader = gl.createShader(type);
+    if (!shader) return null;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        gl.deleteShader(shader);
+        return null;
+    }
+    return shader;
+}
+
+interface Program {
+    program: WebGLProgram;
+    shaders: WebGLShader[];
+    uniform: (name: string) => WebGLUniformLocation | null;
+}
+
+/**
+ * link — Build a program whose single attribute is pinned to location 0,
+ * so either program can draw without re-enabling attributes. Null if it
+ * won't build — the caller falls back to Canvas 2D.
+ */
+function link(gl: WebGLRenderingContext, vertexSource: string, fragmentSource: string, attribute: string): Program | null {
+    const vertex = compile(gl, gl.VERTEX_SHADER, vertexSource);
+    const fragment = compile(gl, gl.FRAGMENT_SHADER, fragmentSource);
+    const program = gl.createProgram();
+    if (!vertex || !fragment || !program) return null;
+
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+    gl.bindAttribLocation(program, 0, attribute);
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        gl.deleteProgram(program);
+        gl.deleteShader(vertex);
+        gl.deleteShader(fragment);
+        return null;
+    }
+
+    return { program, shaders: [vertex, fragment], uniform: (name) => gl.getUniformLocation(program, name) };
+}
+
+/**
+ * drawGlyphAtlas — `ASCII_RAMP` in white on transparent, one `GLYPH_PX`
+ * square per glyph, for the shader to sample.
+ */
+function drawGlyphAtlas(): FieldCanvas | null {
+    const width = ASCII_RAMP.length * GLYPH_PX;
+    /* A worker only gets a canvas where OffscreenCanvas exists; the page may not have it */
+    const atlas: FieldCanvas =
+        typeof OffscreenCanvas !== "undefined"
+            ? new OffscreenCanvas(width, GLYPH_PX)
+            : Object.assign(document.createElement("canvas"), { width, height: GLYPH_PX });
+    const ctx = atlas.getContext("2d") as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) return null;
+
+    ctx.font = `${GLYPH_PX}px monospace`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = "#fff";
+    [...ASCII_RAMP].forEach((glyph, i) => ctx.fillText(glyph, (i + 0.5) * GLYPH_PX, GLYPH_PX / 2));
+    return atlas;
+}
+
+/**
+ * createWebGLField — The shader renderer, or null when WebGL isn't
+ * available (or the shaders won't build), so the caller can fall back.
+ *
+ * Once WebGL has been asked for, `canvas` will never give a 2D context:
+ * when this returns null after getting one, or calls `onLost` because the
+ * context was lost, the 2D fallback needs a fresh canvas.
+ */
+export function createWebGLField(canvas: FieldCanvas, onLost?: () => void): FieldRenderer | null {
+    const gl = canvas.getContext("webgl", { premultipliedAlpha: true, antialias: false }) as WebGLRenderingContext | null;
+    if (!gl) return null;
+
+    const grid = link(gl, VERTEX_SHADER, FRAGMENT_SHADER, "aPosition");
+    const points = link(gl, PARTICLE_VERTEX_SHADER, PARTICLE_FRAGMENT_SHADER, "aParticle");
+    const atlas = drawGlyphAtlas();
+    if (!grid || !points || !atlas) return null;
+
+    gl.enableVertexAttribArray(0);
+
+    /* ---- One triangle pair covering the viewport ---- */
+    const quad = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+
+    /* ---- Particles, refilled every frame ---- */
+    const particleBuffer = gl.createBuffer();
+    const swarm = createParticleSwarm();
+
+    /** texture — A clamped texture on `unit`, left bound there */
+    const texture = (unit: number, filter: number) => {
+        const handle = gl.createTexture();
+        gl.activeTexture(unit);
+        gl.bindTexture(gl.TEXTURE_2D, handle);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        return handle;
+    };
+
+    /* ---- Glyph atlas texture ---- */
+    const glyphTexture = texture(gl.TEXTURE1, gl.LINEAR);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, atlas);
+
+    /* ---- Permutation table texture ---- */
+    const permTexture = texture(gl.TEXTURE0, gl.NEAREST);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+
+    /** The engine whose table is on the GPU — re-uploaded when it changes */
+    let uploaded: Noise | null = null;
+    const uploadPerm = (noise: Noise) => {
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.LUMINANCE, 512, 1, 0, gl.LUMINANCE, gl.UNSIGNED_BYTE, new Uint8Array(noise.perm));
+        uploaded = noise;
+    };
+
+    const u = {
+        resolution: grid.uniform("uResolution"),
+        pixelRatio: grid.uniform("uPixelRatio"),
+        mode: grid.uniform("uMode"),
+        time: grid.uniform("uTime"),
+        mouse: grid.uniform("uMouse"),
+        spacing: grid.uniform("uSpacing"),
+        scale: grid.uniform("uScale"),
+        influence: grid.uniform("uInfluence"),
+        turbulence: grid.uniform("uTurbulence"),
+        text: grid.uniform("uText"),
+        accent: grid.uniform("uAccent"),
+        perm: grid.uniform("uPerm"),
+        glyphs: grid.uniform("uGlyphs"),
+    };
+    const p = {
+        resolution: points.uniform("uResolution"),
+        pixelRatio: points.uniform("uPixelRatio"),
+        mouse: points.uniform("uMouse"),
+        influence: points.uniform("uInfluence"),
+        text: points.uniform("uText"),
+        accent: points.uniform("uAccent"),
+    };
+    gl.useProgram(grid.program);
+    gl.uniform1i(u.perm, 0);
+    gl.uniform1i(u.glyphs, 1);
+
+    /* Particles overlap, so blend them (premultiplied) */
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.clearColor(0, 0, 0, 0);
+
+    let pixelRatio = 1;
+
+    /* Not worth waiting for a restore — the owner moves on */
+    const handleContextLost = () => onLost?.();
+    canvas.addEventListener("webglcontextlost", handleContextLost);
+
+    return {
+        kind: "webgl",
+
+        resize(width, height, ratio) {
+            pixelRatio = ratio;
+            canvas.width = Math.round(width * ratio);
+            canvas.height = Math.round(height * ratio);
+            gl.viewport(0, 0, canvas.width, canvas.height);
+        },
+
+        render(frame) {
+            /* Between losing the context and `onLost` being handled */
+            if (gl.isContextLost()) return;
+
+            const [tr, tg, tb] = frame.text;
+            const [ar, ag, ab] = frame.accent;
+            gl.clear(gl.COLOR_BUFFER_BIT);
+
+            /* ---- Particles ---- */
+            if (frame.mode === "particles") {
+                const particles = swarm.step(frame);
+
+                gl.useProgram(points.program);
+                gl.uniform2f(p.resolution, frame.width, frame.height);
+                gl.uniform1f(p.pixelRatio, pixelRatio);
+                gl.uniform2f(p.mouse, frame.mouseX, frame.mouseY);
+                gl.uniform1f(p.influence, frame.influenceRadius);
+                gl.uniform3f(p.text, tr / 255, tg / 255, tb / 255);
+                gl.uniform3f(p.accent, ar / 255, ag / 255, ab / 255);
+
+                gl.bindBuffer(gl.ARRAY_BUFFER, particleBuffer);
+                gl.bufferData(gl.ARRAY_BUFFER, particles, gl.DYNAMIC_DRAW);
+                gl.vertexAttribPointer(0, 3, gl.FLOAT, false, 0, 0);
+                gl.drawArrays(gl.POINTS, 0, swarm.count);
+                return;
+            }
+
+            /* ---- Grid modes ---- */
+            if (frame.noise !== uploaded) uploadPerm(frame.noise);
+
+            const { turbulence, spacingFactor } = QUALITY_SETTINGS[frame.tier];
+
+            gl.useProgram(grid.program);
+            gl.uniform2f(u.resolution, frame.width, frame.height);
+            gl.uniform1f(u.pixelRatio, pixelRatio);
+            gl.uniform1f(u.mode, FIELD_MODES.indexOf(frame.mode));
+            gl.uniform1f(u.time, frame.time);
+            gl.uniform2f(u.mouse, frame.mouseX, frame.mouseY);
+            gl.uniform1f(u.spacing, frame.spacing * spacingFactor);
+            gl.uniform1f(u.scale, frame.scale);
+            gl.uniform1f(u.influence, frame.influenceRadius);
+            gl.uniform1f(u.turbulence, turbulence ? 1 : 0);
+            gl.uniform3f(u.text, tr / 255, tg / 255, tb / 255);
+            gl.uniform3f(u.accent, ar / 255, ag / 255, ab / 255);
+
+            gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+            gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+            gl.drawArrays(gl.TRIANGLES, 0, 6);
+        },
+
+        dispose() {
+            canvas.removeEventListener("webglcontextlost", handleContextLost);
+            gl.deleteTexture(permTexture);
+            gl.deleteTexture(glyphTexture);
+            gl.deleteBuffer(quad);
+            gl.deleteBuffer(particleBuffer);
+            for (const { program, shaders } of [grid, points]) {
+                gl.deleteProgram(program);
+                shaders.forEach((shader) => gl.deleteShader(shader));
+            }
+        },
+    };
+}
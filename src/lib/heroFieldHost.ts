@@ -0,0 +1,179 @@
+/* ==========================================================================
+ * Hero Field Host — KHAOTIC Portfolio
+ * ==========================================================================
+ * Decides where the hero's field runs and hides the difference:
+ *
+ *   1. Worker — the canvas is handed over with `transferControlToOffscreen`
+ *      and `heroField.worker.ts` draws every frame; the page just posts
+ *      size, cursor, colour and settings changes
+ *   2. Main thread — where OffscreenCanvas or module workers aren't
+ *      supported, or the worker fails to start, the same `FieldLoop` runs
+ *      in-thread
+ *
+ * A transferred canvas can't be drawn from the page again, and a canvas
+ * that has handed out a WebGL context won't give a 2D one, so every
+ * fallback swaps in a fresh canvas and replays the latest state onto it.
+ * That includes a lost WebGL context, which carries on in 2D.
+ * ========================================================================== */
+
+import type { RGB } from "./color";
+import {
+    createCanvas2DField,
+    createFieldLoop,
+    type FieldControls,
+    type FieldLoopInit,
+    type FieldRenderer,
+    type FieldWorkerEvent,
+    type FieldWorkerRequest,
+    type QualityTier,
+} from "./heroField";
+import { createWebGLField } from "./heroFieldGL";
+
+/** Where the field ended up, for `data-*` attributes and debugging */
+export interface FieldStatus {
+    renderer: FieldRenderer["kind"];
+    thread: "worker" | "main";
+    tier: QualityTier;
+}
+
+/** mountCanvas — A full-bleed canvas appended to `container` */
+function mountCanvas(container: HTMLElement): HTMLCanvasElement {
+    const canvas = document.createElement("canvas");
+    canvas.className = "absolute inset-0 w-full h-full";
+    canvas.style.display = "block";
+    container.appendChild(canvas);
+    return canvas;
+}
+
+/**
+ * createFieldHost — Start the field in `container` (worker first) and
+ * return the controls the page drives it with.
+ */
+export function createFieldHost(
+    container: HTMLElement,
+    init: FieldLoopInit,
+    onStatus: (status: FieldStatus) => void
+): FieldControls {
+    /* Latest state, replayed if the field has to restart in-thread */
+    let state: FieldLoopInit = { ...init };
+    let size: [number, number, number] | null = null;
+    let mouse: [number, number] = [-9999, -9999];
+    let active = true;
+    let disposed = false;
+
+    let canvas = mountCanvas(container);
+    let target: FieldControls | null = null;
+
+    const remountCanvas = () => {
+        canvas.remove();
+        canvas = mountCanvas(container);
+    };
+
+    /* ---- Main thread ---- */
+    const runInThread = (renderer: FieldRenderer): FieldControls => {
+        const loop = createFieldLoop(renderer, state, (tier) =>
+            onStatus({ renderer: renderer.kind, thread: "main", tier })
+        );
+        if (size) loop.resize(...size);
+        loop.setMouse(...mouse);
+        loop.setActive(active);
+        onStatus({ renderer: renderer.kind, thread: "main", tier: loop.tier });
+        return loop;
+    };
+
+    const startCanvas2D = (): FieldControls | null => {
+        remountCanvas();
+        const renderer = createCanvas2DField(canvas);
+        return renderer ? runInThread(renderer) : null;
+    };
+
+    const startInThread = (): FieldControls | null => {
+        const renderer = createWebGLField(canvas, () => {
+            target?.dispose();
+            target = disposed ? null : startCanvas2D();
+        });
+        return renderer ? runInThread(renderer) : startCanvas2D();
+    };
+
+    /* ---- Worker ---- */
+    const startInWorker = (): FieldControls | null => {
+        if (typeof Worker === "undefined" || typeof canvas.transferControlToOffscreen !== "function") return null;
+
+        let worker: Worker;
+        try {
+            worker = new Worker(new URL("./heroField.worker.ts", import.meta.url), { type: "module" });
+        } catch {
+            return null;
+        }
+
+        const fallBack = () => {
+            worker.terminate();
+            if (disposed) return;
+            remountCanvas();
+            target = startInThread();
+        };
+
+        let renderer: FieldRenderer["kind"] = "2d";
+        worker.addEventListener("message", (e: MessageEvent<FieldWorkerEvent>) => {
+            const event = e.data;
+            if (event.type === "failed") {
+                fallBack();
+                return;
+            }
+            if (event.type === "ready") renderer = event.renderer;
+            onStatus({ renderer, thread: "worker", tier: event.tier });
+        });
+        /* A worker that won't load (e.g. no module worker support) errors here */
+        worker.addEventListener("error", fallBack);
+
+        const send = (message: FieldWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+        const offscreen = canvas.transferControlToOffscreen();
+        send({ type: "init", canvas: offscreen, init: state }, [offscreen]);
+
+        return {
+            resize: (width, height, devicePixelRatio) => send({ type: "resize", width, height, devicePixelRatio }),
+            setMouse: (x, y) => send({ type: "mouse", x, y }),
+            setColors: (text, accent) => send({ type: "colors", text, accent }),
+            setSettings: (settings) => send({ type: "settings", settings }),
+            setSeed: (seed) => send({ type: "seed", seed }),
+            setActive: (next) => send({ type: "active", active: next }),
+            dispose: () => worker.terminate(),
+        };
+    };
+
+    target = startInWorker() ?? startInThread();
+
+    return {
+        resize(width, height, devicePixelRatio) {
+            size = [width, height, devicePixelRatio];
+            target?.resize(width, height, devicePixelRatio);
+        },
+        setMouse(x, y) {
+            mouse = [x, y];
+            target?.setMouse(x, y);
+        },
+        setColors(text: RGB, accent: RGB) {
+            state = { ...state, text, accent };
+            target?.setColors(text, accent);
+        },
+        setSettings(settings) {
+            state = { ...state, settings };
+            target?.setSettings(settings);
+        },
+        setSeed(seed) {
+            state = { ...state, seed };
+            target?.setSeed(seed);
+        },
+        setActive(next) {
+            active = next;
+            target?.setActive(next);
+        },
+        dispose() {
+            disposed = true;
+            target?.dispose();
+            target = null;
+            canvas.remove();
+        },
+    };
+}
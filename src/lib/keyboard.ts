@@ -0,0 +1,22 @@
+/* ==========================================================================
+ * Keyboard — KHAOTIC Portfolio
+ * ==========================================================================
+ * Helpers for the site's single-key shortcuts (M for moods, F for the
+ * hero's field panel), which must stay out of the way of typing.
+ * ========================================================================== */
+
+/** isTyping — Whether a key press belongs to a form field */
+export function isTyping(target: EventTarget | null): boolean {
+    return (
+        target instanceof HTMLElement &&
+        (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+    );
+}
+
+/**
+ * isShortcut — Whether `e` is a bare press of `key` (no modifiers) outside
+ * a form field.
+ */
+export function isShortcut(e: KeyboardEvent, key: string): boolean {
+    return e.key.toLowerCase() === key && !e.metaKey && !e.ctrlKey && !e.altKey && !isTyping(e.target);
+}
@@ -0,0 +1,25 @@
+/* ==========================================================================
+ * Mood Signals — KHAOTIC Portfolio
+ * ==========================================================================
+ * Live readings the auto mood listens to. The components that already
+ * measure these (Lenis in `App`, the trail loop in `CustomCursor`) write
+ * here every frame; the auto mood loop reads. Plain mutable state on
+ * purpose — it changes 60 times a second and nothing should re-render.
+ * ========================================================================== */
+
+export const moodSignals = {
+    /** How far down the page we are, 0 (top) – 1 (bottom) */
+    scrollProgress: 0,
+    /** Cursor speed in px per frame, as eased by the custom cursor */
+    cursorSpeed: 0,
+};
+
+/** reportScroll — Called with Lenis' `progress` on every scroll */
+export function reportScroll(progress: number): void {
+    moodSignals.scrollProgress = Number.isFinite(progress) ? Math.min(1, Math.max(0, progress)) : 0;
+}
+
+/** reportCursorSpeed — Called from the cursor's animation loop */
+export function reportCursorSpeed(speed: number): void {
+    moodSignals.cursorSpeed = speed;
+}
@@ -0,0 +1,69 @@
+/* ==========================================================================
+ * Mood Transition — KHAOTIC Portfolio
+ * ==========================================================================
+ * The wipe played when the mood changes from the picker: a disc of the
+ * incoming background grows out of the swatch that was clicked (or the
+ * middle of the screen, for the keyboard shortcut) until it covers the
+ * page, the mood is swapped underneath, and the disc fades away.
+ *
+ * The overlay is a bare DOM node rather than React state so a transition
+ * survives whichever component started it re-rendering or unmounting.
+ * Visitors who prefer reduced motion get the swap without the wipe.
+ * ========================================================================== */
+
+import gsap from "gsap";
+import { formatRGBA, type RGBA } from "./color";
+
+/** Sits above the menu overlay (z-500) but under the custom cursor (z-9998) */
+const OVERLAY_Z_INDEX = "9000";
+
+/** The transition in flight, if any — a new one finishes it first */
+let current: gsap.core.Timeline | null = null;
+
+/**
+ * wipeToMood — Cover the page in `background`, call `apply` once it's
+ * hidden, then reveal. `origin` is in viewport pixels.
+ */
+export function wipeToMood(background: RGBA, origin: { x: number; y: number } | null, apply: () => void): void {
+    /* Jump any running wipe to its end so its mood lands before ours */
+    current?.progress(1);
+
+    if (window.matchMedia("(prefers-reduced-motion: reduce)").matches) {
+        apply();
+        return;
+    }
+
+    const x = origin?.x ?? window.innerWidth / 2;
+    const y = origin?.y ?? window.innerHeight / 2;
+    /* Far enough to reach the furthest corner */
+    const radius = Math.hypot(Math.max(x, window.innerWidth - x), Math.max(y, window.innerHeight - y));
+
+    const overlay = document.createElement("div");
+    Object.assign(overlay.style, {
+        position: "fixed",
+        inset: "0",
+        zIndex: OVERLAY_Z_INDEX,
+        pointerEvents: "none",
+        background: formatRGBA(background),
+    });
+    overlay.setAttribute("aria-hidden", "true");
+    document.body.appendChild(overlay);
+
+    const timeline = gsap.timeline({
+        onComplete: () => {
+            overlay.remove();
+            if (current === timeline) current = null;
+        },
+    });
+
+    timeline
+        .fromTo(
+            overlay,
+            { clipPath: `circle(0px at ${x}px ${y}px)` },
+            { clipPath: `circle(${radius}px at ${x}px ${y}px)`, duration: 0.55, ease: "power3.inOut" }
+        )
+        .add(apply)
+        .to(overlay, { opacity: 0, duration: 0.45, ease: "power2.out" }, "+=0.05");
+
+    current = timeline;
+}
@@ -0,0 +1,422 @@
+/* ==========================================================================
+ * Simplex Noise — KHAOTIC Portfolio
+ * ==========================================================================
+ * 2D, 3D and 4D simplex noise, plus fractal (fBm) and curl helpers, all
+ * producing smooth pseudo-random values for any input.
+ *
+ * Based on Stefan Gustavson's paper "Simplex noise demystified".
+ * The extra dimension is usually "time": 3D noise animates a 2D field,
+ * 4D noise animates a 3D one (or loops a 2D one).
+ *
+ * `createNoise(seed)` builds an engine around its own permutation table,
+ * so the same seed always produces the same field — handy for "same seed,
+ * same pattern" pieces and for testing. Without a seed it uses the classic
+ * table from Ken Perlin's reference implementation, which is what the
+ * shared `simplex3` export (and so the hero, before it took a seed) uses.
+ * ========================================================================== */
+
+import { createRandom } from "./random";
+
+/** Gradient vectors for 2D/3D simplex noise — 12 directions */
+const GRAD3: number[][] = [
+    [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+    [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+    [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+];
+
+/** Gradient vectors for 4D simplex noise — the 32 edge midpoints of a tesseract */
+const GRAD4: number[][] = [
+    [0, 1, 1, 1], [0, 1, 1, -1], [0, 1, -1, 1], [0, 1, -1, -1],
+    [0, -1, 1, 1], [0, -1, 1, -1], [0, -1, -1, 1], [0, -1, -1, -1],
+    [1, 0, 1, 1], [1, 0, 1, -1], [1, 0, -1, 1], [1, 0, -1, -1],
+    [-1, 0, 1, 1], [-1, 0, 1, -1], [-1, 0, -1, 1], [-1, 0, -1, -1],
+    [1, 1, 0, 1], [1, 1, 0, -1], [1, -1, 0, 1], [1, -1, 0, -1],
+    [-1, 1, 0, 1], [-1, 1, 0, -1], [-1, -1, 0, 1], [-1, -1, 0, -1],
+    [1, 1, 1, 0], [1, 1, -1, 0], [1, -1, 1, 0], [1, -1, -1, 0],
+    [-1, 1, 1, 0], [-1, 1, -1, 0], [-1, -1, 1, 0], [-1, -1, -1, 0],
+];
+
+/* Skewing and unskewing factors */
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+const F3 = 1.0 / 3.0;
+const G3 = 1.0 / 6.0;
+const F4 = (Math.sqrt(5) - 1) / 4;
+const G4 = (5 - Math.sqrt(5)) / 20;
+
+/** Step used to differentiate the field for curl noise */
+const CURL_EPSILON = 0.0001;
+
+/** Classic permutation table — shuffled integers 0-255, doubled for wrapping */
+const CLASSIC_PERM: number[] = (() => {
+    const p = [
+        151, 160, 137, 91, 90, 15, 131, 13, 201, 95, 96, 53, 194, 233, 7, 225,
+        140, 36, 103, 30, 69, 142, 8, 99, 37, 240, 21, 10, 23, 190, 6, 148,
+        247, 120, 234, 75, 0, 26, 197, 62, 94, 252, 219, 203, 117, 35, 11, 32,
+        57, 177, 33, 88, 237, 149, 56, 87, 174, 20, 125, 136, 171, 168, 68, 175,
+        74, 165, 71, 134, 139, 48, 27, 166, 77, 146, 158, 231, 83, 111, 229, 122,
+        60, 211, 133, 230, 220, 105, 92, 41, 55, 46, 245, 40, 244, 102, 143, 54,
+        65, 25, 63, 161, 1, 216, 80, 73, 209, 76, 132, 187, 208, 89, 18, 169,
+        200, 196, 135, 130, 116, 188, 159, 86, 164, 100, 109, 198, 173, 186, 3, 64,
+        52, 217, 226, 250, 124, 123, 5, 202, 38, 147, 118, 126, 255, 82, 85, 212,
+        207, 206, 59, 227, 47, 16, 58, 17, 182, 189, 28, 42, 223, 183, 170, 213,
+        119, 248, 152, 2, 44, 154, 163, 70, 221, 153, 101, 155, 167, 43, 172, 9,
+        129, 22, 39, 253, 19, 98, 108, 110, 79, 113, 224, 232, 178, 185, 112, 104,
+        218, 246, 97, 228, 251, 34, 242, 193, 238, 210, 144, 12, 191, 179, 162, 241,
+        81, 51, 145, 235, 249, 14, 239, 107, 49, 192, 214, 31, 181, 199, 106, 157,
+        184, 84, 204, 176, 115, 121, 50, 45, 127, 4, 150, 254, 138, 236, 205, 93,
+        222, 114, 67, 29, 24, 72, 243, 141, 128, 195, 78, 66, 215, 61, 156, 180,
+    ];
+    /* Double the table to avoid modular indexing */
+    return [...p, ...p];
+})();
+
+/**
+ * shuffledPerm — A permutation of 0-255 shuffled by `seed` (Fisher–Yates),
+ * doubled for wrapping like the classic table.
+ */
+function shuffledPerm(seed: number): number[] {
+    const random = createRandom(seed);
+    const p = Array.from({ length: 256 }, (_, i) => i);
+    for (let i = p.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [p[i], p[j]] = [p[j], p[i]];
+    }
+    return [...p, ...p];
+}
+
+/**
+ * dot2 / dot3 / dot4 — Dot product of a gradient vector and a corner offset.
+ * Used to project the simplex corner contribution onto the gradient.
+ */
+function dot2(g: number[], x: number, y: number): number {
+    return g[0] * x + g[1] * y;
+}
+
+function dot3(g: number[], x: number, y: number, z: number): number {
+    return g[0] * x + g[1] * y + g[2] * z;
+}
+
+function dot4(g: number[], x: number, y: number, z: number, w: number): number {
+    return g[0] * x + g[1] * y + g[2] * z + g[3] * w;
+}
+
+/**
+ * noise2 — 2D simplex noise at (xin, yin) over the permutation `perm`.
+ *
+ * @returns A value in the range [-1, 1].
+ */
+function noise2(perm: number[], xin: number, yin: number): number {
+    /* Skew the input space to determine which simplex cell we're in */
+    const s = (xin + yin) * F2;
+    const i = Math.floor(xin + s);
+    const j = Math.floor(yin + s);
+    const t = (i + j) * G2;
+
+    /* Distances from the (unskewed) cell origin */
+    const x0 = xin - (i - t);
+    const y0 = yin - (j - t);
+
+    /* Lower or upper triangle of the cell */
+    const i1 = x0 > y0 ? 1 : 0;
+    const j1 = x0 > y0 ? 0 : 1;
+
+    /* Offsets for the remaining corners */
+    const x1 = x0 - i1 + G2;
+    const y1 = y0 - j1 + G2;
+    const x2 = x0 - 1.0 + 2.0 * G2;
+    const y2 = y0 - 1.0 + 2.0 * G2;
+
+    const ii = i & 255;
+    const jj = j & 255;
+
+    /* Calculate contributions from each corner */
+    let n0 = 0, n1 = 0, n2 = 0;
+
+    let t0 = 0.5 - x0 * x0 - y0 * y0;
+    if (t0 >= 0) {
+        t0 *= t0;
+        n0 = t0 * t0 * dot2(GRAD3[perm[ii + perm[jj]] % 12], x0, y0);
+    }
+
+    let t1 = 0.5 - x1 * x1 - y1 * y1;
+    if (t1 >= 0) {
+        t1 *= t1;
+        n1 = t1 * t1 * dot2(GRAD3[perm[ii + i1 + perm[jj + j1]] % 12], x1, y1);
+    }
+
+    let t2 = 0.5 - x2 * x2 - y2 * y2;
+    if (t2 >= 0) {
+        t2 *= t2;
+        n2 = t2 * t2 * dot2(GRAD3[perm[ii + 1 + perm[jj + 1]] % 12], x2, y2);
+    }
+
+    /* Scale result to [-1, 1] */
+    return 70.0 * (n0 + n1 + n2);
+}
+
+/**
+ * noise3 — 3D simplex noise at (xin, yin, zin) over the permutation `perm`.
+ *
+ * @returns A value in the range [-1, 1].
+ */
+function noise3(perm: number[], xin: number, yin: number, zin: number): number {
+    /* Skew the input space to determine which simplex cell we're in */
+    const s = (xin + yin + zin) * F3;
+    const i = Math.floor(xin + s);
+    const j = Math.floor(yin + s);
+    const k = Math.floor(zin + s);
+
+    const t = (i + j + k) * G3;
+
+    /* Unskew the cell origin back to (x,y,z) space */
+    const X0 = i - t;
+    const Y0 = j - t;
+    const Z0 = k - t;
+
+    /* Distances from cell origin */
+    const x0 = xin - X0;
+    const y0 = yin - Y0;
+    const z0 = zin - Z0;
+
+    /* Determine which simplex we are in (3D has 6 possible simplices) */
+    let i1: number, j1: number, k1: number;
+    let i2: number, j2: number, k2: number;
+
+    if (x0 >= y0) {
+        if (y0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+        else if (x0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 0; k2 = 1; }
+        else { i1 = 0; j1 = 0; k1 = 1; i2 = 1; j2 = 0; k2 = 1; }
+    } else {
+        if (y0 < z0) { i1 = 0; j1 = 0; k1 = 1; i2 = 0; j2 = 1; k2 = 1; }
+        else if (x0 < z0) { i1 = 0; j1 = 1; k1 = 0; i2 = 0; j2 = 1; k2 = 1; }
+        else { i1 = 0; j1 = 1; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+    }
+
+    /* Offsets for the remaining corners */
+    const x1 = x0 - i1 + G3;
+    const y1 = y0 - j1 + G3;
+    const z1 = z0 - k1 + G3;
+    const x2 = x0 - i2 + 2.0 * G3;
+    const y2 = y0 - j2 + 2.0 * G3;
+    const z2 = z0 - k2 + 2.0 * G3;
+    const x3 = x0 - 1.0 + 3.0 * G3;
+    const y3 = y0 - 1.0 + 3.0 * G3;
+    const z3 = z0 - 1.0 + 3.0 * G3;
+
+    /* Permutation table indices for hashing */
+    const ii = i & 255;
+    const jj = j & 255;
+    const kk = k & 255;
+
+    /* Calculate contributions from each corner */
+    let n0 = 0, n1 = 0, n2 = 0, n3 = 0;
+
+    let t0 = 0.6 - x0 * x0 - y0 * y0 - z0 * z0;
+    if (t0 >= 0) {
+        t0 *= t0;
+        const gi0 = perm[ii + perm[jj + perm[kk]]] % 12;
+        n0 = t0 * t0 * dot3(GRAD3[gi0], x0, y0, z0);
+    }
+
+    let t1 = 0.6 - x1 * x1 - y1 * y1 - z1 * z1;
+    if (t1 >= 0) {
+        t1 *= t1;
+        const gi1 = perm[ii + i1 + perm[jj + j1 + perm[kk + k1]]] % 12;
+        n1 = t1 * t1 * dot3(GRAD3[gi1], x1, y1, z1);
+    }
+
+    let t2 = 0.6 - x2 * x2 - y2 * y2 - z2 * z2;
+    if (t2 >= 0) {
+        t2 *= t2;
+        const gi2 = perm[ii + i2 + perm[jj + j2 + perm[kk + k2]]] % 12;
+        n2 = t2 * t2 * dot3(GRAD3[gi2], x2, y2, z2);
+    }
+
+    let t3 = 0.6 - x3 * x3 - y3 * y3 - z3 * z3;
+    if (t3 >= 0) {
+        t3 *= t3;
+        const gi3 = perm[ii + 1 + perm[jj + 1 + perm[kk + 1]]] % 12;
+        n3 = t3 * t3 * dot3(GRAD3[gi3], x3, y3, z3);
+    }
+
+    /* Scale result to [-1, 1] */
+    return 32.0 * (n0 + n1 + n2 + n3);
+}
+
+/**
+ * noise4 — 4D simplex noise at (x, y, z, w) over the permutation `perm`.
+ *
+ * @returns A value in the range [-1, 1].
+ */
+function noise4(perm: number[], x: number, y: number, z: number, w: number): number {
+    /* Skew the input space to determine which simplex cell we're in */
+    const s = (x + y + z + w) * F4;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const k = Math.floor(z + s);
+    const l = Math.floor(w + s);
+    const t = (i + j + k + l) * G4;
+
+    /* Distances from the (unskewed) cell origin */
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+    const z0 = z - (k - t);
+    const w0 = w - (l - t);
+
+    /* Rank the coordinates by magnitude — the ranking picks which of the
+     * 24 simplices we're in, and so the order the corners are visited */
+    let rankX = 0, rankY = 0, rankZ = 0, rankW = 0;
+    if (x0 > y0) rankX++; else rankY++;
+    if (x0 > z0) rankX++; else rankZ++;
+    if (x0 > w0) rankX++; else rankW++;
+    if (y0 > z0) rankY++; else rankZ++;
+    if (y0 > w0) rankY++; else rankW++;
+    if (z0 > w0) rankZ++; else rankW++;
+
+    const i1 = rankX >= 3 ? 1 : 0, j1 = rankY >= 3 ? 1 : 0, k1 = rankZ >= 3 ? 1 : 0, l1 = rankW >= 3 ? 1 : 0;
+    const i2 = rankX >= 2 ? 1 : 0, j2 = rankY >= 2 ? 1 : 0, k2 = rankZ >= 2 ? 1 : 0, l2 = rankW >= 2 ? 1 : 0;
+    const i3 = rankX >= 1 ? 1 : 0, j3 = rankY >= 1 ? 1 : 0, k3 = rankZ >= 1 ? 1 : 0, l3 = rankW >= 1 ? 1 : 0;
+
+    /* Offsets for the remaining corners */
+    const x1 = x0 - i1 + G4, y1 = y0 - j1 + G4, z1 = z0 - k1 + G4, w1 = w0 - l1 + G4;
+    const x2 = x0 - i2 + 2 * G4, y2 = y0 - j2 + 2 * G4, z2 = z0 - k2 + 2 * G4, w2 = w0 - l2 + 2 * G4;
+    const x3 = x0 - i3 + 3 * G4, y3 = y0 - j3 + 3 * G4, z3 = z0 - k3 + 3 * G4, w3 = w0 - l3 + 3 * G4;
+    const x4 = x0 - 1 + 4 * G4, y4 = y0 - 1 + 4 * G4, z4 = z0 - 1 + 4 * G4, w4 = w0 - 1 + 4 * G4;
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const kk = k & 255;
+    const ll = l & 255;
+
+    /* Calculate contributions from each corner */
+    let n0 = 0, n1 = 0, n2 = 0, n3 = 0, n4 = 0;
+
+    let t0 = 0.6 - x0 * x0 - y0 * y0 - z0 * z0 - w0 * w0;
+    if (t0 >= 0) {
+        t0 *= t0;
+        const gi0 = perm[ii + perm[jj + perm[kk + perm[ll]]]] % 32;
+        n0 = t0 * t0 * dot4(GRAD4[gi0], x0, y0, z0, w0);
+    }
+
+    let t1 = 0.6 - x1 * x1 - y1 * y1 - z1 * z1 - w1 * w1;
+    if (t1 >= 0) {
+        t1 *= t1;
+        const gi1 = perm[ii + i1 + perm[jj + j1 + perm[kk + k1 + perm[ll + l1]]]] % 32;
+        n1 = t1 * t1 * dot4(GRAD4[gi1], x1, y1, z1, w1);
+    }
+
+    let t2 = 0.6 - x2 * x2 - y2 * y2 - z2 * z2 - w2 * w2;
+    if (t2 >= 0) {
+        t2 *= t2;
+        const gi2 = perm[ii + i2 + perm[jj + j2 + perm[kk + k2 + perm[ll + l2]]]] % 32;
+        n2 = t2 * t2 * dot4(GRAD4[gi2], x2, y2, z2, w2);
+    }
+
+    let t3 = 0.6 - x3 * x3 - y3 * y3 - z3 * z3 - w3 * w3;
+    if (t3 >= 0) {
+        t3 *= t3;
+        const gi3 = perm[ii + i3 + perm[jj + j3 + perm[kk + k3 + perm[ll + l3]]]] % 32;
+        n3 = t3 * t3 * dot4(GRAD4[gi3], x3, y3, z3, w3);
+    }
+
+    let t4 = 0.6 - x4 * x4 - y4 * y4 - z4 * z4 - w4 * w4;
+    if (t4 >= 0) {
+        t4 *= t4;
+        const gi4 = perm[ii + 1 + perm[jj + 1 + perm[kk + 1 + perm[ll + 1]]]] % 32;
+        n4 = t4 * t4 * dot4(GRAD4[gi4], x4, y4, z4, w4);
+    }
+
+    /* Scale result to [-1, 1] */
+    return 27.0 * (n0 + n1 + n2 + n3 + n4);
+}
+
+/* ==========================================================================
+ * Engine
+ * ========================================================================== */
+
+/** Shape of a fractal sum — each octave is `lacunarity`× finer, `gain`× fainter */
+export interface FbmOptions {
+    /** Layers summed (default 4) */
+    octaves?: number;
+    /** Frequency multiplier per octave (default 2) */
+    lacunarity?: number;
+    /** Amplitude multiplier per octave (default 0.5) */
+    gain?: number;
+}
+
+export interface Noise {
+    /** The seed the table was shuffled with (undefined = classic table) */
+    seed: number | undefined;
+    /** The doubled (512-entry) permutation table, for ports of the field to shaders */
+    perm: readonly number[];
+    simplex2: (x: number, y: number) => number;
+    simplex3: (x: number, y: number, z: number) => number;
+    simplex4: (x: number, y: number, z: number, w: number) => number;
+    /** Fractal 2D noise, normalised back to [-1, 1] */
+    fbm2: (x: number, y: number, options?: FbmOptions) => number;
+    /** Fractal 3D noise, normalised back to [-1, 1] */
+    fbm3: (x: number, y: number, z: number, options?: FbmOptions) => number;
+    /**
+     * Divergence-free 2D flow at (x, y), animated by `z` — the curl of the
+     * 3D field. Particles following it swirl without bunching up.
+     */
+    curl2: (x: number, y: number, z: number) => [number, number];
+}
+
+/**
+ * fbm — Sum `octaves` layers of `sample`, each finer and fainter than the
+ * last, and divide by the total amplitude so the result stays in [-1, 1].
+ */
+function fbm(sample: (frequency: number) => number, { octaves = 4, lacunarity = 2, gain = 0.5 }: FbmOptions = {}): number {
+    let sum = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let total = 0;
+
+    for (let octave = 0; octave < octaves; octave++) {
+        sum += sample(frequency) * amplitude;
+        total += amplitude;
+        amplitude *= gain;
+        frequency *= lacunarity;
+    }
+
+    return total > 0 ? sum / total : 0;
+}
+
+/**
+ * createNoise — A noise engine over its own permutation table. The same
+ * `seed` always gives the same field; omit it for the classic table.
+ */
+export function createNoise(seed?: number): Noise {
+    const perm = seed === undefined ? CLASSIC_PERM : shuffledPerm(seed);
+
+    const simplex3 = (x: number, y: number, z: number) => noise3(perm, x, y, z);
+
+    return {
+        seed,
+        perm,
+        simplex2: (x, y) => noise2(perm, x, y),
+        simplex3,
+        simplex4: (x, y, z, w) => noise4(perm, x, y, z, w),
+        fbm2: (x, y, options) => fbm((f) => noise2(perm, x * f, y * f), options),
+        fbm3: (x, y, z, options) => fbm((f) => noise3(perm, x * f, y * f, z * f), options),
+        curl2: (x, y, z) => {
+            /* Central differences of the potential; the curl is its gradient
+             * rotated a quarter turn */
+            const dx = (simplex3(x + CURL_EPSILON, y, z) - simplex3(x - CURL_EPSILON, y, z)) / (2 * CURL_EPSILON);
+            const dy = (simplex3(x, y + CURL_EPSILON, z) - simplex3(x, y - CURL_EPSILON, z)) / (2 * CURL_EPSILON);
+            return [dy, -dx];
+        },
+    };
+}
+
+/** The classic-table engine, shared by anything that doesn't need a seed */
+const classicNoise = createNoise();
+
+/**
+ * simplex3 — 3D simplex noise on the classic table.
+ *
+ * @returns A value in the range [-1, 1].
+ */
+export const simplex3 = classicNoise.simplex3;
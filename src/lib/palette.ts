@@ -0,0 +1,152 @@
+/* ==========================================================================
+ * Mood Palettes — KHAOTIC Portfolio
+ * ==========================================================================
+ * A mood is seven raw CSS variables (`--bg`, `--accent`, …). The preset
+ * moods define them in `[data-mood]` rules in index.css, with a light and
+ * a dark variant picked by `[data-scheme]`; anything built at
+ * runtime — the auto blend, custom palettes — writes them inline on <html>
+ * and <body> instead, which beats the stylesheet until cleared.
+ *
+ * Also here: a compact string form for sharing palettes in URLs, and the
+ * WCAG contrast maths the mood builder warns with.
+ * ========================================================================== */
+
+import type { Mood, Scheme } from "../context/MoodContext";
+import { formatRGBA, mixRGBA, parseRGBA, type RGBA } from "./color";
+
+/** The raw palette variables every mood defines */
+export const MOOD_VARS = ["--bg", "--surface", "--accent", "--secondary", "--text", "--text-dim", "--border"] as const;
+
+export type MoodVar = (typeof MOOD_VARS)[number];
+
+export type MoodPalette = Record<MoodVar, RGBA>;
+
+/** The scheme currently applied to the page */
+function currentScheme(): Scheme {
+    return document.body.getAttribute("data-scheme") === "light" ? "light" : "dark";
+}
+
+/**
+ * readMoodPalette — Resolve a mood's variables by rendering a hidden probe
+ * with that `data-mood` (and `data-scheme`, the page's unless given).
+ */
+export function readMoodPalette(mood: Mood, scheme: Scheme = currentScheme()): MoodPalette {
+    const probe = document.createElement("div");
+    probe.setAttribute("data-mood", mood);
+    probe.setAttribute("data-scheme", scheme);
+    probe.style.display = "none";
+    document.body.appendChild(probe);
+
+    const style = getComputedStyle(probe);
+    const palette = Object.fromEntries(
+        MOOD_VARS.map((name) => [name, parseRGBA(style.getPropertyValue(name))])
+    ) as MoodPalette;
+
+    probe.remove();
+    return palette;
+}
+
+/** mixPalettes — Blend every variable from `a` (t = 0) to `b` (t = 1) */
+export function mixPalettes(a: MoodPalette, b: MoodPalette, t: number): MoodPalette {
+    return Object.fromEntries(
+        MOOD_VARS.map((name) => [name, mixRGBA(a[name], b[name], t)])
+    ) as MoodPalette;
+}
+
+/** paletteStyle — The palette as inline custom properties, for scoped previews */
+export function paletteStyle(palette: MoodPalette): Record<string, string> {
+    return Object.fromEntries(MOOD_VARS.map((name) => [name, formatRGBA(palette[name])]));
+}
+
+/** applyPalette — Write a palette inline, overriding the stylesheet */
+export function applyPalette(palette: MoodPalette): void {
+    for (const target of [document.documentElement, document.body]) {
+        for (const name of MOOD_VARS) target.style.setProperty(name, formatRGBA(palette[name]));
+    }
+}
+
+/** clearPalette — Drop the inline overrides so `[data-mood]` rules apply again */
+export function clearPalette(): void {
+    for (const target of [document.documentElement, document.body]) {
+        for (const name of MOOD_VARS) target.style.removeProperty(name);
+    }
+}
+
+/* ---- Sharing ---- */
+
+const hexByte = (value: number) => Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, "0");
+
+/**
+ * encodePalette — Eight hex digits (rrggbbaa) per variable, in `MOOD_VARS`
+ * order: 56 URL-safe characters.
+ */
+export function encodePalette(palette: MoodPalette): string {
+    return MOOD_VARS.map((name) => {
+        const [r, g, b, a] = palette[name];
+        return hexByte(r) + hexByte(g) + hexByte(b) + hexByte(a * 255);
+    }).join("");
+}
+
+/** decodePalette — The reverse of `encodePalette`; null for anything malformed */
+export function decodePalette(encoded: string): MoodPalette | null {
+    if (!/^[0-9a-f]+$/i.test(encoded) || encoded.length !== MOOD_VARS.length * 8) return null;
+
+    return Object.fromEntries(
+        MOOD_VARS.map((name, i) => {
+            const chunk = encoded.slice(i * 8, i * 8 + 8);
+            const [r, g, b, a] = [0, 2, 4, 6].map((offset) => parseInt(chunk.slice(offset, offset + 2), 16));
+            return [name, [r, g, b, a / 255] as RGBA];
+        })
+    ) as MoodPalette;
+}
+
+/* ---- Contrast ---- */
+
+/** Flatten a translucent colour onto an opaque backdrop */
+function composite([r, g, b, a]: RGBA, [br, bg, bb]: RGBA): RGBA {
+    return [r * a + br * (1 - a), g * a + bg * (1 - a), b * a + bb * (1 - a), 1];
+}
+
+/** WCAG relative luminance */
+function luminance([r, g, b]: RGBA): number {
+    const [lr, lg, lb] = [r, g, b].map((channel) => {
+        const c = channel / 255;
+        return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/**
+ * contrastRatio — WCAG contrast (1–21) of `foreground` drawn on
+ * `background`, accounting for the foreground's alpha.
+ */
+export function contrastRatio(foreground: RGBA, background: RGBA): number {
+    const a = luminance(composite(foreground, background));
+    const b = luminance(background);
+    return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+export interface ContrastWarning {
+    /** Human description of the pair, e.g. "Text on background" */
+    pair: string;
+    ratio: number;
+    /** The ratio the pair should reach */
+    minimum: number;
+}
+
+/** Pairs worth checking, and the WCAG AA minimum each should meet */
+const CONTRAST_CHECKS: { pair: string; foreground: MoodVar; background: MoodVar; minimum: number }[] = [
+    { pair: "Text on background", foreground: "--text", background: "--bg", minimum: 4.5 },
+    { pair: "Text on surface", foreground: "--text", background: "--surface", minimum: 4.5 },
+    { pair: "Dim text on background", foreground: "--text-dim", background: "--bg", minimum: 3 },
+    { pair: "Accent on background", foreground: "--accent", background: "--bg", minimum: 3 },
+];
+
+/** getContrastWarnings — Every checked pair that falls short */
+export function getContrastWarnings(palette: MoodPalette): ContrastWarning[] {
+    return CONTRAST_CHECKS.map(({ pair, foreground, background, minimum }) => ({
+        pair,
+        minimum,
+        ratio: contrastRatio(palette[foreground], palette[background]),
+    })).filter(({ ratio, minimum }) => ratio < minimum);
+}
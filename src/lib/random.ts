@@ -0,0 +1,27 @@
+/* ==========================================================================
+ * Seeded Randomness — KHAOTIC Portfolio
+ * ==========================================================================
+ * `Math.random()` can't be replayed, so generative pieces that promise
+ * "same seed, same pattern" draw from these instead.
+ * ========================================================================== */
+
+/**
+ * createRandom — A mulberry32 generator. Returns a function yielding
+ * floats in [0, 1); the same seed always yields the same sequence.
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** randomSeed — A fresh six-digit seed, short enough to read out loud */
+export function randomSeed(): number {
+    return 100000 + Math.floor(Math.random() * 900000);
+}
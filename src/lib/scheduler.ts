@@ -0,0 +1,186 @@
+/* ==========================================================================
+ * Animation Scheduler — KHAOTIC Portfolio
+ * ==========================================================================
+ * One place for every continuous animation loop on the site. A loop is
+ * suspended while:
+ *
+ *   • its element (if it names one) is outside the viewport, or
+ *   • the tab is hidden (`document.hidden`)
+ *
+ * and resumes where it left off: each loop keeps its own clock that only
+ * advances while it's running, so the first frame back is a zero-length
+ * step rather than a jump over the pause.
+ *
+ * Loops that draw in-thread pass `tick` and share a single
+ * requestAnimationFrame; loops that run elsewhere (the hero's worker) pass
+ * `onActiveChange` and pause themselves. Either way they show up in
+ * `getLoopStates()` — the data behind the `?debug=loops` readout.
+ * ========================================================================== */
+
+/** Why a loop is or isn't running */
+export type LoopState = "running" | "off-screen" | "hidden";
+
+export interface LoopOptions {
+    /** Shown in the debug readout */
+    name: string;
+    /** Suspend while this element doesn't intersect the viewport */
+    element?: Element | null;
+    /** Called every frame while running. `time` is the loop's own clock (ms),
+     * which stands still while it's suspended */
+    tick?: (delta: number, time: number) => void;
+    /** Called when the loop is suspended (`false`) or resumed (`true`) */
+    onActiveChange?: (active: boolean) => void;
+}
+
+export interface LoopHandle {
+    dispose: () => void;
+}
+
+export interface LoopStatus {
+    name: string;
+    state: LoopState;
+}
+
+interface Loop {
+    options: LoopOptions;
+    intersecting: boolean;
+    active: boolean;
+    /** Loop clock, ms */
+    time: number;
+    /** Timestamp of the last tick, or null if the next tick is the first back */
+    last: number | null;
+}
+
+/* ---- Module State ---- */
+const loops = new Set<Loop>();
+const listeners = new Set<() => void>();
+let statuses: LoopStatus[] = [];
+let frameId = 0;
+let observer: IntersectionObserver | null = null;
+let hidden = typeof document !== "undefined" && document.hidden;
+
+/** stateOf — What a loop should be doing right now */
+function stateOf(loop: Loop): LoopState {
+    if (hidden) return "hidden";
+    return loop.intersecting ? "running" : "off-screen";
+}
+
+/** publish — Rebuild the status snapshot and tell subscribers */
+function publish() {
+    statuses = [...loops].map((loop) => ({ name: loop.options.name, state: stateOf(loop) }));
+    listeners.forEach((listener) => listener());
+}
+
+/* ---- Shared Frame ---- */
+function frame(now: number) {
+    frameId = 0;
+    for (const loop of loops) {
+        if (!loop.active || !loop.options.tick) continue;
+        const delta = loop.last === null ? 0 : now - loop.last;
+        loop.last = now;
+        loop.time += delta;
+        loop.options.tick(delta, loop.time);
+    }
+    requestFrame();
+}
+
+/** requestFrame — Keep the shared frame going while anything needs it */
+function requestFrame() {
+    if (frameId) return;
+    for (const loop of loops) {
+        if (loop.active && loop.options.tick) {
+            frameId = requestAnimationFrame(frame);
+            return;
+        }
+    }
+}
+
+/** update — Bring a loop's running state in line with `stateOf` */
+function update(loop: Loop) {
+    const active = stateOf(loop) === "running";
+    if (active === loop.active) return;
+    loop.active = active;
+    /* The next tick after a resume is measured from itself, not the pause */
+    loop.last = null;
+    loop.options.onActiveChange?.(active);
+}
+
+function updateAll() {
+    loops.forEach(update);
+    requestFrame();
+    publish();
+}
+
+/* ---- Watchers ---- */
+function handleVisibilityChange() {
+    hidden = document.hidden;
+    updateAll();
+}
+
+function getObserver(): IntersectionObserver {
+    observer ??= new IntersectionObserver((entries) => {
+        for (const entry of entries) {
+            for (const loop of loops) {
+                if (loop.options.element === entry.target) loop.intersecting = entry.isIntersecting;
+            }
+        }
+        updateAll();
+    });
+    return observer;
+}
+
+/**
+ * registerLoop — Add a loop to the scheduler. It starts running straight
+ * away (if the tab is visible) and is suspended once its element is seen
+ * to be off-screen.
+ */
+export function registerLoop(options: LoopOptions): LoopHandle {
+    if (loops.size === 0) {
+        hidden = document.hidden;
+        document.addEventListener("visibilitychange", handleVisibilityChange);
+    }
+
+    /* An element that's already observed gets no fresh callback, so take
+     * its visibility from the loop that's watching it */
+    const sibling = options.element ? [...loops].find((other) => other.options.element === options.element) : undefined;
+    const intersecting = sibling?.intersecting ?? true;
+
+    const loop: Loop = { options, intersecting, active: !hidden && intersecting, time: 0, last: null };
+    loops.add(loop);
+    if (!loop.active) options.onActiveChange?.(false);
+    if (options.element && typeof IntersectionObserver !== "undefined") getObserver().observe(options.element);
+    requestFrame();
+    publish();
+
+    return {
+        dispose() {
+            if (!loops.delete(loop)) return;
+
+            const element = options.element;
+            const shared = element && [...loops].some((other) => other.options.element === element);
+            if (element && observer && !shared) observer.unobserve(element);
+
+            if (loops.size === 0) {
+                document.removeEventListener("visibilitychange", handleVisibilityChange);
+                observer?.disconnect();
+                observer = null;
+                cancelAnimationFrame(frameId);
+                frameId = 0;
+            }
+            publish();
+        },
+    };
+}
+
+/** getLoopStates — Every registered loop and whether it's running */
+export function getLoopStates(): LoopStatus[] {
+    return statuses;
+}
+
+/** subscribeLoops — Be told whenever a loop is added, removed, paused or resumed */
+export function subscribeLoops(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -16,7 +16,9 @@ import { createRoot } from "react-dom/client";
 
 import "./index.css";
 import { BrowserRouter } from "react-router-dom";
+import { AmbientSoundProvider } from "./context/AmbientSoundContext";
 import { MoodProvider } from "./context/MoodContext";
+import { ProjectsProvider } from "./context/ProjectsContext";
 import App from "./App";
 
 /* Mount the React app into the #root element defined in index.html */
@@ -24,7 +26,11 @@ createRoot(document.getElementById("root")!).render(
     <StrictMode>
         <BrowserRouter>
             <MoodProvider>
-                <App />
+                <ProjectsProvider>
+                    <AmbientSoundProvider>
+                        <App />
+                    </AmbientSoundProvider>
+                </ProjectsProvider>
             </MoodProvider>
         </BrowserRouter>
     </StrictMode>
@@ -0,0 +1,158 @@
+/* ==========================================================================
+ * Contact Submitters — KHAOTIC Portfolio
+ * ==========================================================================
+ * Where the contact form sends its messages. The form only talks to the
+ * `ContactSubmitter` interface, so swapping Formspree for a serverless
+ * function (or anything else that accepts JSON) is a config change.
+ *
+ * Adapters:
+ *   • HTTP   — POSTs the submission as JSON to an endpoint.
+ *   • Mailto — Opens the visitor's mail client with the message pre-filled.
+ *              Used in production builds when no endpoint is configured.
+ *              Nothing is sent until the visitor hits send there, so it
+ *              reports a hand-off rather than a delivery.
+ *
+ * Selection (see `resolveContactSubmitter`):
+ *   1. `VITE_CONTACT_URL` when set
+ *   2. The dev server's stub at `/__mock__/contact` during `npm run dev`
+ *   3. Mailto otherwise
+ * ========================================================================== */
+
+import type { ContactFieldErrors, ContactSubmission } from "../data/contactSchema";
+
+/**
+ * ContactDelivery — What became of a submission that didn't fail:
+ *   • "sent"       — delivered to an endpoint
+ *   • "handed-off" — passed to the visitor's mail client, still unsent
+ */
+export type ContactDelivery = "sent" | "handed-off";
+
+/**
+ * ContactSubmitter — Anything that can deliver a contact submission.
+ *
+ * @property id     - Short label for debugging.
+ * @property submit - Resolves with how the message left once it has;
+ *                    rejects with `ContactSubmitError` otherwise.
+ */
+export interface ContactSubmitter {
+    readonly id: string;
+    submit(submission: ContactSubmission): Promise<ContactDelivery>;
+}
+
+/**
+ * ContactSubmitError — The message didn't get through.
+ *
+ * @property status      - HTTP status code, when the server answered.
+ * @property fieldErrors - Per-field problems the server reported (422).
+ */
+export class ContactSubmitError extends Error {
+    readonly status?: number;
+    readonly fieldErrors?: ContactFieldErrors;
+
+    constructor(message: string, status?: number, fieldErrors?: ContactFieldErrors) {
+        super(message);
+        this.name = "ContactSubmitError";
+        this.status = status;
+        this.fieldErrors = fieldErrors;
+    }
+}
+
+/** The dev server's stub endpoint (`plugins/mockApi.ts`) */
+export const MOCK_CONTACT_URL = "/__mock__/contact";
+
+/* --------------------------------------------------------------------------
+ * HTTP adapter
+ * -------------------------------------------------------------------------- */
+
+/**
+ * createHttpSubmitter — POST the submission as JSON.
+ *
+ * A 422 response may carry `{ errors: { field: message } }`; those are
+ * passed through on the error so the form can show them inline.
+ */
+export function createHttpSubmitter(url: string): ContactSubmitter {
+    return {
+        id: `http:${url}`,
+        async submit(submission) {
+            let response: Response;
+            try {
+                response = await fetch(url, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json", Accept: "application/json" },
+                    body: JSON.stringify(submission),
+                });
+            } catch {
+                throw new ContactSubmitError(`Could not reach ${url}`);
+            }
+
+            if (!response.ok) {
+                const fieldErrors = response.status === 422
+                    ? await response.json().then((body: { errors?: ContactFieldErrors }) => body.errors, () => undefined)
+                    : undefined;
+                throw new ContactSubmitError(`${url} responded with ${response.status}`, response.status, fieldErrors);
+            }
+            return "sent";
+        },
+    };
+}
+
+/* --------------------------------------------------------------------------
+ * Mailto adapter
+ * -------------------------------------------------------------------------- */
+
+/** Longest mailto URL we trust every browser and mail client to pass on */
+const MAILTO_MAX_LENGTH = 2000;
+
+/** Appended to a message that had to be cut to fit */
+const TRUNCATED_NOTE = "…\n\n[Shortened to fit a mail link.]";
+
+/**
+ * buildMailtoUrl — The pre-filled mailto link, with the message cut short
+ * (on a character boundary) if the whole thing would be too long.
+ */
+function buildMailtoUrl(address: string, subject: string, message: string, signature: string): string {
+    const chars = [...message];
+    let keep = chars.length;
+
+    for (;;) {
+        const text = keep < chars.length ? `${chars.slice(0, keep).join("")}${TRUNCATED_NOTE}` : message;
+        const url = `mailto:${address}?subject=${encodeURIComponent(subject)}` +
+            `&body=${encodeURIComponent(`${text}\n\n—\n${signature}`)}`;
+        if (url.length <= MAILTO_MAX_LENGTH || keep === 0) return url;
+
+        /* A character encodes to at most 12 URL characters, so this never cuts too much */
+        keep = Math.max(0, keep - Math.max(1, Math.floor((url.length - MAILTO_MAX_LENGTH) / 12)));
+    }
+}
+
+/**
+ * createMailtoSubmitter — Hand the message to the visitor's mail client.
+ * Resolves "handed-off" as soon as the client has been asked to open —
+ * whether one exists, and whether they send, is out of our hands.
+ */
+export function createMailtoSubmitter(address: string): ContactSubmitter {
+    return {
+        id: `mailto:${address}`,
+        submit({ name, email, projectType, budget, message }) {
+            const subject = `${projectType} — ${name}`;
+            window.location.href = buildMailtoUrl(address, subject, message, `${name} <${email}>\nBudget: ${budget}`);
+            return Promise.resolve("handed-off");
+        },
+    };
+}
+
+/* --------------------------------------------------------------------------
+ * Configuration
+ * -------------------------------------------------------------------------- */
+
+/**
+ * resolveContactSubmitter — Pick the adapter for this build.
+ *
+ * @param fallbackAddress - Email used by the mailto fallback.
+ */
+export function resolveContactSubmitter(fallbackAddress: string): ContactSubmitter {
+    const url = import.meta.env.VITE_CONTACT_URL;
+    if (url) return createHttpSubmitter(url);
+    if (import.meta.env.DEV) return createHttpSubmitter(MOCK_CONTACT_URL);
+    return createMailtoSubmitter(fallbackAddress);
+}
@@ -0,0 +1,209 @@
+/* ==========================================================================
+ * Project Sources — KHAOTIC Portfolio
+ * ==========================================================================
+ * A small adapter layer between the app and wherever stories come from.
+ * Everything above this module (context, views) only sees `Project[]`.
+ *
+ * Adapters:
+ *   • Static — wraps the build-time `PROJECTS` array (the default).
+ *   • HTTP   — fetches JSON from a CMS/API, validates every record with
+ *              `validateProject`, and caches the result in memory and in
+ *              `sessionStorage` for `cacheTtlMs`.
+ *
+ * Which adapter is used is decided by `VITE_PROJECTS_URL` (see
+ * `resolveProjectSource`). Point it at `/__mock__/projects.json` to run
+ * against the local fixture served by the dev server.
+ * ========================================================================== */
+
+import { PROJECTS } from "../data/projects";
+import { validateProject } from "../data/projectSchema";
+import type { Project } from "../types";
+
+/**
+ * ProjectSource — Anything that can produce the list of projects.
+ *
+ * @property id        - Short label for debugging / cache keys.
+ * @property getCached - Projects available synchronously (no loading state
+ *                       needed), or `null` if a fetch is required.
+ * @property load      - Resolve the projects, hitting the network if needed.
+ */
+export interface ProjectSource {
+    readonly id: string;
+    getCached(): Project[] | null;
+    load(options?: { force?: boolean }): Promise<Project[]>;
+}
+
+/**
+ * ProjectSourceError — A source failed to produce usable projects
+ * (network failure, non-2xx status, malformed payload).
+ *
+ * @property status - HTTP status code, when the server answered.
+ */
+export class ProjectSourceError extends Error {
+    readonly status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = "ProjectSourceError";
+        this.status = status;
+    }
+}
+
+/* --------------------------------------------------------------------------
+ * Static adapter
+ * -------------------------------------------------------------------------- */
+
+/**
+ * createStaticSource — Serve a fixed array (today's Markdown collection).
+ */
+export function createStaticSource(projects: Project[]): ProjectSource {
+    return {
+        id: "static",
+        getCached: () => projects,
+        load: () => Promise.resolve(projects),
+    };
+}
+
+/* --------------------------------------------------------------------------
+ * HTTP adapter
+ * -------------------------------------------------------------------------- */
+
+interface HttpSourceOptions {
+    /** Endpoint returning `Project[]` or `{ projects: Project[] }` */
+    url: string;
+    /** How long a successful response stays fresh (ms). Defaults to 5 min. */
+    cacheTtlMs?: number;
+}
+
+interface CacheEntry {
+    savedAt: number;
+    projects: Project[];
+}
+
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * parsePayload — Accept either a bare array or a `{ projects }` envelope
+ * and validate every record, reporting the index of the bad one.
+ */
+function parsePayload(payload: unknown, url: string): Project[] {
+    const list = Array.isArray(payload)
+        ? payload
+        : (payload as { projects?: unknown } | null)?.projects;
+
+    if (!Array.isArray(list)) {
+        throw new ProjectSourceError(`${url} did not return a list of projects`);
+    }
+
+    return list.map((item, i) => validateProject(item, `${url} [${i}]`));
+}
+
+/**
+ * createHttpSource — Fetch projects as JSON over HTTP.
+ *
+ * Concurrent `load()` calls share one request (callers that unmount should
+ * ignore the result rather than abort it), and a fresh cache entry
+ * (memory first, then `sessionStorage`) short-circuits the network
+ * entirely unless `force` is passed.
+ */
+export function createHttpSource({ url, cacheTtlMs = DEFAULT_CACHE_TTL_MS }: HttpSourceOptions): ProjectSource {
+    const storageKey = `khaotic-projects:${url}`;
+    let memory: CacheEntry | null = null;
+    let inFlight: Promise<Project[]> | null = null;
+
+    const isFresh = (entry: CacheEntry | null): entry is CacheEntry =>
+        entry !== null && Date.now() - entry.savedAt < cacheTtlMs;
+
+    /** Read the session cache, re-validating it (it may predate a schema change) */
+    const readStorage = (): CacheEntry | null => {
+        try {
+            const raw = sessionStorage.getItem(storageKey);
+            if (!raw) return null;
+            const entry = JSON.parse(raw) as CacheEntry;
+            return { savedAt: entry.savedAt, projects: parsePayload(entry.projects, url) };
+        } catch {
+            /* Drop a corrupt entry — unless storage itself is what threw */
+            try {
+                sessionStorage.removeItem(storageKey);
+            } catch {
+                /* Storage blocked — there's nothing cached to drop */
+            }
+            return null;
+        }
+    };
+
+    const writeCache = (projects: Project[]) => {
+        memory = { savedAt: Date.now(), projects };
+        try {
+            sessionStorage.setItem(storageKey, JSON.stringify(memory));
+        } catch {
+            /* Storage full or disabled — the memory cache still works */
+        }
+    };
+
+    const getCached = () => {
+        if (isFresh(memory)) return memory.projects;
+
+        const stored = readStorage();
+        if (isFresh(stored)) {
+            memory = stored;
+            return stored.projects;
+        }
+        return null;
+    };
+
+    const fetchProjects = async () => {
+        let response: Response;
+        try {
+            response = await fetch(url, { headers: { Accept: "application/json" } });
+        } catch {
+            throw new ProjectSourceError(`Could not reach ${url}`);
+        }
+
+        if (!response.ok) {
+            throw new ProjectSourceError(`${url} responded with ${response.status}`, response.status);
+        }
+
+        let payload: unknown;
+        try {
+            payload = await response.json();
+        } catch {
+            throw new ProjectSourceError(`${url} did not return valid JSON`);
+        }
+
+        const projects = parsePayload(payload, url);
+        writeCache(projects);
+        return projects;
+    };
+
+    return {
+        id: `http:${url}`,
+        getCached,
+        load({ force = false } = {}) {
+            if (!force) {
+                const cached = getCached();
+                if (cached) return Promise.resolve(cached);
+            }
+
+            if (!inFlight) {
+                inFlight = fetchProjects().finally(() => {
+                    inFlight = null;
+                });
+            }
+            return inFlight;
+        },
+    };
+}
+
+/* --------------------------------------------------------------------------
+ * Configuration
+ * -------------------------------------------------------------------------- */
+
+/**
+ * resolveProjectSource — HTTP when `VITE_PROJECTS_URL` is set, otherwise
+ * the static Markdown collection bundled at build time.
+ */
+export function resolveProjectSource(): ProjectSource {
+    const url = import.meta.env.VITE_PROJECTS_URL;
+    return url ? createHttpSource({ url }) : createStaticSource(PROJECTS);
+}
@@ -17,30 +17,231 @@ export interface Credit {
     name: string;
 }
 
+/**
+ * ProjectSpec — One key/value row in a project's "Tech Specs" panel.
+ *
+ * @property label - The spec name (e.g. "Stack", "Client", "Year").
+ * @property value - The spec value shown beside the label.
+ * @property href  - Optional URL; when set the value renders as a link.
+ * @property icon  - Optional Iconify icon name (e.g. "simple-icons:react").
+ */
+export interface ProjectSpec {
+    label: string;
+    value: string;
+    href?: string;
+    icon?: string;
+}
+
+/**
+ * GalleryMediaBase — Fields shared by every gallery entry.
+ *
+ * @property src         - URL of the image or video file.
+ * @property alt         - Accessible description of the media.
+ * @property caption     - Optional handwritten caption shown under the still.
+ * @property aspectRatio - CSS aspect ratio of the tile (e.g. "4/5", "16/9").
+ *                         Defaults to "4/5" when omitted.
+ */
+interface GalleryMediaBase {
+    src: string;
+    alt: string;
+    caption?: string;
+    aspectRatio?: string;
+}
+
+/** GalleryImage — A still image in a project gallery. */
+export interface GalleryImage extends GalleryMediaBase {
+    type: "image";
+}
+
+/**
+ * GalleryVideo — A video clip in a project gallery.
+ *
+ * @property poster - Optional still shown before the clip loads.
+ */
+export interface GalleryVideo extends GalleryMediaBase {
+    type: "video";
+    poster?: string;
+}
+
+/**
+ * GalleryItem — One piece of additional media shown in the project modal.
+ * Discriminated on `type` so renderers can switch between <img> and <video>.
+ */
+export type GalleryItem = GalleryImage | GalleryVideo;
+
+/**
+ * ProjectFilters — The home feed's current narrowing, mirrored in the URL
+ * query string (`?category=…&tag=…&q=…`).
+ *
+ * @property category - Exact `category` to keep, or `null` for all.
+ * @property tag      - Tag every result must carry, or `null` for all.
+ * @property query    - Free text matched against title, subtitle and description.
+ */
+export interface ProjectFilters {
+    category: string | null;
+    tag: string | null;
+    query: string;
+}
+
 /**
  * Project — Represents one portfolio project displayed in the main feed
  * and in the detail modal when clicked.
  *
+ * @property slug        - Stable URL identifier used by the `/stories/:slug` route.
  * @property title       - The project headline shown on the card overlay.
  * @property subtitle    - A short descriptor shown in the modal (e.g. "Director's Cut • 2023").
  * @property category    - Category label shown under the card image (e.g. "Campaign").
+ * @property tags        - Optional free-form keywords for the home feed filter (e.g. "analog", "code").
  * @property techDetails - Camera/film tech shown under the card image (e.g. "Sony Venice 2 • Anamorphic").
  * @property cardImage   - URL of the image used on the main-feed card.
  * @property modalImage  - URL of the larger hero image used in the modal view.
- * @property description - Long-form descriptive paragraph shown in the modal.
+ * @property description - Plain-text story. Shown in the modal when there is no `bodyHtml`,
+ *                         and used anywhere rich text doesn't fit (search, meta tags).
+ * @property bodyHtml    - Optional rich-text story rendered from the project's Markdown body.
  * @property credits     - Array of Credit entries for the modal sidebar.
  * @property rotation    - CSS rotation applied to the card for a tilted film-still look (e.g. "-2deg").
+ * @property gallery     - Optional extra images/videos shown in the modal gallery and lightbox.
+ * @property specs       - Optional structured "Tech Specs" rows (stack, dates, client, deliverables…).
  */
 export interface Project {
+    slug: string;
     title: string;
     subtitle: string;
     category: string;
+    tags?: string[];
     techDetails: string;
     cardImage: string;
     modalImage: string;
     description: string;
+    bodyHtml?: string;
     credits: Credit[];
     rotation: string;
     /** Optional video URL that plays on card hover (Phase 2A) */
     hoverVideo?: string;
+    gallery?: GalleryItem[];
+    specs?: ProjectSpec[];
+}
+
+/**
+ * TimelineEntryBase — Fields shared by every entry on the Work timeline.
+ *
+ * Dates are ISO-style strings at year (`"2022"`) or month (`"2024-03"`)
+ * precision. A missing `end` means the entry is ongoing.
+ *
+ * @property id         - Stable key (e.g. "nexlink").
+ * @property start      - When it began.
+ * @property end        - When it ended (or is expected to end).
+ * @property summary    - One-paragraph description in the site's voice.
+ * @property highlights - Optional bullet points (wins, responsibilities).
+ * @property skills     - Optional skill tags shown as chips.
+ * @property url        - Optional link to the company / institution.
+ * @property location   - Optional place (e.g. "Vanderbijlpark, SA").
+ */
+interface TimelineEntryBase {
+    id: string;
+    start: string;
+    end?: string;
+    summary: string;
+    highlights?: string[];
+    skills?: string[];
+    url?: string;
+    location?: string;
+}
+
+/**
+ * Experience — A job or freelance engagement.
+ *
+ * @property company - Who it was for.
+ * @property role    - The position held.
+ */
+export interface Experience extends TimelineEntryBase {
+    kind: "experience";
+    company: string;
+    role: string;
+}
+
+/**
+ * Education — A course of study.
+ *
+ * @property institution   - Where it was studied.
+ * @property qualification - What was studied / awarded.
+ */
+export interface Education extends TimelineEntryBase {
+    kind: "education";
+    institution: string;
+    qualification: string;
+}
+
+/**
+ * TimelineEntry — Anything the Work timeline can render.
+ * Discriminated on `kind`.
+ */
+export type TimelineEntry = Experience | Education;
+
+/**
+ * ContactLink — One way to reach Harry (Contact page, CV header).
+ *
+ * @property label - Channel name (e.g. "Email", "GitHub").
+ * @property value - What's shown to the visitor (address / handle).
+ * @property icon  - Iconify icon name.
+ * @property href  - Where the link goes (`mailto:` or https URL).
+ */
+export interface ContactLink {
+    label: string;
+    value: string;
+    icon: string;
+    href: string;
+}
+
+/** Where an experiment is in its life */
+export type ExperimentStatus = "WIP" | "LIVE" | "ARCHIVED";
+
+/**
+ * ExperimentFilters — The Lab page's current narrowing, mirrored in the URL
+ * query string (`?status=…&tag=…`).
+ *
+ * @property status - Status to keep, or `null` for all.
+ * @property tag    - Tag every result must carry, or `null` for all.
+ */
+export interface ExperimentFilters {
+    status: ExperimentStatus | null;
+    tag: string | null;
+}
+
+/**
+ * ExperimentLink — An outbound link from an experiment page.
+ *
+ * @property label - Link text (e.g. "Source", "Write-up").
+ * @property href  - Destination URL.
+ * @property icon  - Optional Iconify icon name.
+ */
+export interface ExperimentLink {
+    label: string;
+    href: string;
+    icon?: string;
+}
+
+/**
+ * Experiment — One entry in The Lab.
+ *
+ * @property slug        - Stable URL identifier for `/lab/:slug`.
+ * @property title       - Display name.
+ * @property description - One or two sentences for the card and page intro.
+ * @property status      - WIP, LIVE or ARCHIVED (drives the badge colour).
+ * @property tags        - Free-form keywords (tech, technique, mood).
+ * @property date        - When it started, `"YYYY"` or `"YYYY-MM"`.
+ * @property thumbnail   - Image URL for the card and page hero.
+ * @property links       - Optional outbound links (source, write-up…).
+ * @property featured    - Whether it appears in the home page's Lab section.
+ */
+export interface Experiment {
+    slug: string;
+    title: string;
+    description: string;
+    status: ExperimentStatus;
+    tags: string[];
+    date: string;
+    thumbnail: string;
+    links?: ExperimentLink[];
+    featured?: boolean;
 }
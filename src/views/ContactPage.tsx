@@ -1,11 +1,7 @@
 import React from "react";
 import { Icon } from "@iconify/react";
-
-const CONTACT_LINKS = [
-    { label: "Email", value: "mofokaharry@gmail.com", icon: "simple-icons:gmail", href: "mailto:mofokaharry@gmail.com" },
-    { label: "Instagram", value: "@kalm.harry", icon: "simple-icons:instagram", href: "https://www.instagram.com/kalm.harry/" },
-    { label: "GitHub", value: "HarryMofoka", icon: "simple-icons:github", href: "https://github.com/HarryMofoka" }
-];
+import ContactForm from "../components/ContactForm";
+import { CONTACT_LINKS } from "../data/contact";
 
 const ContactPage: React.FC = () => {
     return (
@@ -53,6 +49,15 @@ const ContactPage: React.FC = () => {
                     </div>
                 </section>
             </div>
+
+            {/* Contact form — for when a one-line email won't cut it */}
+            <section className="max-w-7xl mx-auto w-full mt-32 pt-16 border-t border-[var(--color-border)]">
+                <div className="mb-16 flex flex-col gap-4">
+                    <span className="font-mono text-[10px] uppercase tracking-[0.5em] text-[var(--color-accent)]">Or Skip the Small Talk</span>
+                    <h2 className="font-display text-4xl md:text-6xl text-[var(--color-text)] -rotate-1">Send a Signal</h2>
+                </div>
+                <ContactForm />
+            </section>
         </main>
     );
 };
@@ -0,0 +1,166 @@
+/* ==========================================================================
+ * CvPage — /cv
+ * ==========================================================================
+ * A plain, recruiter-friendly résumé assembled from the same data the rest
+ * of the site uses:
+ *
+ *   • Work + education → `data/work.ts` (the Work page timeline)
+ *   • Skills           → `data/skills.ts` (About marquee) + the Arsenal
+ *   • Contact          → `data/contact.ts` (Contact page)
+ *
+ * `App` hides the site chrome on this route — no noise overlay, custom
+ * cursor, ambient sound, loader or Lenis — so it scrolls and prints like a
+ * normal document. "Download CV" opens the browser's print dialog; the print
+ * rules in `index.css` (section 17) hide the toolbar, set A4 margins and
+ * keep each entry on a single page.
+ * ========================================================================== */
+
+import React, { useEffect, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { Icon } from "@iconify/react";
+import { CONTACT_LINKS } from "../data/contact";
+import { SKILLS } from "../data/skills";
+import { ARSENAL, EDUCATION, EXPERIENCE, formatDateRange, isCurrent, sortTimeline } from "../data/work";
+import type { TimelineEntry } from "../types";
+
+/** Becomes the suggested file name in most print-to-PDF dialogs */
+const CV_DOCUMENT_TITLE = "Harry Mofoka — CV";
+
+/** "https://www.instagram.com/kalm.harry/" → "instagram.com/kalm.harry" */
+const printableHref = (href: string) =>
+    href.replace(/^mailto:/, "").replace(/^https?:\/\/(www\.)?/, "").replace(/\/$/, "");
+
+/**
+ * CvEntry — One role or course of study.
+ */
+const CvEntry: React.FC<{ entry: TimelineEntry }> = ({ entry }) => {
+    const heading = entry.kind === "experience" ? entry.role : entry.qualification;
+    const organisation = entry.kind === "experience" ? entry.company : entry.institution;
+
+    return (
+        <article className="cv-entry py-4 border-b border-neutral-200 last:border-b-0">
+            <header className="flex flex-wrap items-baseline justify-between gap-x-6 gap-y-1">
+                <h3 className="text-base font-semibold text-neutral-900">
+                    {heading}
+                    <span className="font-normal text-neutral-500"> · {organisation}</span>
+                </h3>
+                <span className="font-mono text-xs text-neutral-500">
+                    {formatDateRange(entry)}
+                    {isCurrent(entry) && entry.end && " (expected)"}
+                </span>
+            </header>
+            {(entry.location || entry.url) && (
+                <p className="mt-1 text-xs text-neutral-500">
+                    {[entry.location, entry.url && printableHref(entry.url)].filter(Boolean).join(" · ")}
+                </p>
+            )}
+            <p className="mt-2 text-sm leading-relaxed text-neutral-700">{entry.summary}</p>
+            {entry.highlights && entry.highlights.length > 0 && (
+                <ul className="mt-2 list-disc pl-5 text-sm text-neutral-700 space-y-1">
+                    {entry.highlights.map((highlight) => (
+                        <li key={highlight}>{highlight}</li>
+                    ))}
+                </ul>
+            )}
+            {entry.skills && entry.skills.length > 0 && (
+                <p className="mt-2 text-xs text-neutral-500">{entry.skills.join(" · ")}</p>
+            )}
+        </article>
+    );
+};
+
+/**
+ * CvSection — Titled block; the title never gets stranded at a page end.
+ */
+const CvSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section className="cv-section mt-8">
+        <h2 className="cv-section-title text-xs font-semibold uppercase tracking-[0.3em] text-neutral-500 border-b border-neutral-900 pb-2">
+            {title}
+        </h2>
+        {children}
+    </section>
+);
+
+const CvPage: React.FC = () => {
+    const experience = useMemo(() => sortTimeline(EXPERIENCE), []);
+    const education = useMemo(() => sortTimeline(EDUCATION), []);
+
+    /* One de-duplicated list: the broad skill set, then the daily Arsenal */
+    const skills = useMemo(() => [...new Set([...SKILLS, ...ARSENAL])], []);
+
+    /* The headline role — whatever job is current, else the latest one */
+    const headline = experience[0]?.role;
+
+    /* Give the print-to-PDF file a sensible name */
+    useEffect(() => {
+        const previousTitle = document.title;
+        document.title = CV_DOCUMENT_TITLE;
+        return () => {
+            document.title = previousTitle;
+        };
+    }, []);
+
+    return (
+        <div className="cv-shell min-h-screen bg-neutral-200 py-10 px-4 font-sans text-neutral-900">
+            {/* ---- Toolbar (screen only) ---- */}
+            <div className="cv-toolbar max-w-[210mm] mx-auto mb-6 flex items-center justify-between">
+                <Link
+                    to="/work"
+                    className="inline-flex items-center gap-2 text-xs uppercase tracking-[0.2em] text-neutral-600 hover:text-neutral-900 transition-colors"
+                >
+                    <Icon icon="lucide:arrow-left" />
+                    Back to the chaos
+                </Link>
+                <button
+                    type="button"
+                    onClick={() => window.print()}
+                    className="inline-flex items-center gap-2 px-5 py-2.5 rounded-full bg-neutral-900 text-white text-xs uppercase tracking-[0.2em] hover:bg-[#ff3d00] transition-colors"
+                >
+                    <Icon icon="lucide:download" />
+                    Download CV
+                </button>
+            </div>
+
+            {/* ---- The document ---- */}
+            <main className="cv-page max-w-[210mm] mx-auto bg-white shadow-xl px-[16mm] py-[14mm]">
+                <header className="flex flex-wrap items-end justify-between gap-6 pb-6 border-b-4 border-neutral-900">
+                    <div>
+                        <h1 className="font-display text-4xl leading-none">Harry Mofoka</h1>
+                        {headline && <p className="mt-3 text-sm uppercase tracking-[0.2em] text-neutral-600">{headline}</p>}
+                        <p className="mt-1 text-xs text-neutral-500">De Deur, South Africa</p>
+                    </div>
+                    <ul className="text-xs text-neutral-700 space-y-1 text-right">
+                        {CONTACT_LINKS.map((link) => (
+                            <li key={link.label}>
+                                <a href={link.href} className="inline-flex items-center gap-2 hover:underline">
+                                    {printableHref(link.href)}
+                                    <Icon icon={link.icon} width={12} />
+                                </a>
+                            </li>
+                        ))}
+                    </ul>
+                </header>
+
+                <CvSection title="Experience">
+                    {experience.map((entry) => <CvEntry key={entry.id} entry={entry} />)}
+                </CvSection>
+
+                <CvSection title="Education">
+                    {education.map((entry) => <CvEntry key={entry.id} entry={entry} />)}
+                </CvSection>
+
+                <CvSection title="Skills">
+                    <ul className="cv-entry flex flex-wrap gap-2 pt-4">
+                        {skills.map((skill) => (
+                            <li key={skill} className="px-2.5 py-1 border border-neutral-300 rounded text-xs text-neutral-700">
+                                {skill}
+                            </li>
+                        ))}
+                    </ul>
+                </CvSection>
+            </main>
+        </div>
+    );
+};
+
+export default CvPage;
@@ -0,0 +1,158 @@
+import React, { Suspense, lazy, useEffect, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import gsap from "gsap";
+import { Icon } from "@iconify/react";
+import NotFoundPage from "./NotFoundPage";
+import DemoErrorBoundary from "../components/DemoErrorBoundary";
+import { getExperimentBySlug, STATUS_COLOURS } from "../data/experiments";
+import { EXPERIMENT_DEMOS, type DemoLoader } from "../experiments";
+import { formatPartialDate } from "../lib/dates";
+
+/** One lazy component per demo, so revisits don't suspend again */
+const lazyDemos = new Map<DemoLoader, React.LazyExoticComponent<React.ComponentType>>();
+
+/** getLazyDemo — The demo's lazy component, created on first use */
+function getLazyDemo(load: DemoLoader): React.LazyExoticComponent<React.ComponentType> {
+    let demo = lazyDemos.get(load);
+    if (!demo) {
+        demo = lazy(load);
+        lazyDemos.set(load, demo);
+    }
+    return demo;
+}
+
+/**
+ * DemoFallback — Shown while a lazy demo chunk downloads.
+ */
+const DemoFallback: React.FC = () => (
+    <div className="w-full aspect-[16/9] flex items-center justify-center border border-dashed border-[var(--color-border)] rounded-sm">
+        <span className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)] animate-pulse">
+            Warming up the lab…
+        </span>
+    </div>
+);
+
+/**
+ * ExperimentPage — `/lab/:slug`. The experiment's write-up, plus its live
+ * demo when one is registered in `src/experiments`.
+ */
+const ExperimentPage: React.FC = () => {
+    const { slug = "" } = useParams();
+    const experiment = getExperimentBySlug(slug);
+    const loadDemo = EXPERIMENT_DEMOS[slug];
+
+    const Demo = loadDemo ? getLazyDemo(loadDemo) : null;
+
+    /* A lazy component remembers its failure, so a retry drops it and re-renders */
+    const [, setAttempt] = useState(0);
+    const retryDemo = () => {
+        if (loadDemo) lazyDemos.delete(loadDemo);
+        setAttempt((n) => n + 1);
+    };
+
+    const headerRef = useRef<HTMLElement>(null);
+
+    /* Stagger the header in on arrival / when moving between experiments */
+    useEffect(() => {
+        const items = headerRef.current?.querySelectorAll(".experiment-reveal");
+        if (!items || items.length === 0) return;
+
+        const tween = gsap.fromTo(
+            items,
+            { opacity: 0, y: 30 },
+            { opacity: 1, y: 0, duration: 0.8, stagger: 0.08, ease: "power3.out" }
+        );
+
+        return () => {
+            tween.kill();
+        };
+    }, [slug]);
+
+    if (!experiment) {
+        return <NotFoundPage message="That experiment never made it out of the notebook." />;
+    }
+
+    return (
+        <main className="relative z-10 w-full min-h-screen pt-40 pb-32 px-6 md:px-12">
+            <div className="max-w-6xl mx-auto">
+                {/* ---- Header ---- */}
+                <header ref={headerRef} className="mb-16">
+                    <Link
+                        to="/lab"
+                        className="experiment-reveal group inline-flex items-center gap-3 font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-text-dim)] hover:text-[var(--color-accent)] transition-colors nav-link mb-12"
+                    >
+                        <Icon icon="lucide:arrow-left" className="group-hover:-translate-x-1 transition-transform" />
+                        <span>Back to the Lab</span>
+                    </Link>
+
+                    <div className="experiment-reveal flex flex-wrap items-center gap-4 mb-6">
+                        <span className={`inline-block px-2 py-0.5 text-[10px] uppercase tracking-wider rounded-full border ${STATUS_COLOURS[experiment.status]}`}>
+                            {experiment.status}
+                        </span>
+                        <time dateTime={experiment.date} className="font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-dim)]">
+                            {formatPartialDate(experiment.date)}
+                        </time>
+                    </div>
+
+                    <h1 className="experiment-reveal font-display text-5xl md:text-8xl text-[var(--color-text)] leading-tight -rotate-1">
+                        {experiment.title}
+                    </h1>
+
+                    <p className="experiment-reveal font-sans text-lg md:text-xl text-[var(--color-text-dim)] max-w-2xl leading-relaxed mt-8">
+                        {experiment.description}
+                    </p>
+
+                    <div className="experiment-reveal flex flex-wrap items-center gap-x-8 gap-y-4 mt-8">
+                        <div className="flex flex-wrap gap-2">
+                            {experiment.tags.map((tag) => (
+                                <span
+                                    key={tag}
+                                    className="font-mono text-[10px] text-[var(--color-text-dim)] border border-[var(--color-border)] px-2 py-0.5 rounded-full"
+                                >
+                                    {tag}
+                                </span>
+                            ))}
+                        </div>
+                        {experiment.links?.map((link) => (
+                            <a
+                                key={link.href}
+                                href={link.href}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center gap-2 font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors nav-link"
+                            >
+                                {link.icon && <Icon icon={link.icon} width={14} />}
+                                {link.label}
+                                <Icon icon="lucide:arrow-up-right" width={12} />
+                            </a>
+                        ))}
+                    </div>
+                </header>
+
+                {/* ---- Live demo, or the cover image when there isn't one yet ---- */}
+                {Demo ? (
+                    <section aria-label={`${experiment.title} demo`} className="border-t border-[var(--color-border)] pt-12">
+                        <DemoErrorBoundary key={slug} onRetry={retryDemo}>
+                            <Suspense fallback={<DemoFallback />}>
+                                <Demo />
+                            </Suspense>
+                        </DemoErrorBoundary>
+                    </section>
+                ) : (
+                    <figure className="film-card p-4 bg-[var(--color-surface)] rounded-sm -rotate-1">
+                        <img
+                            src={experiment.thumbnail}
+                            alt={experiment.title}
+                            className="w-full aspect-[16/9] object-cover grayscale-[30%] contrast-110 border border-[var(--color-border)]"
+                        />
+                        <figcaption className="font-display text-xs text-[var(--color-text-dim)] pt-4 px-1">
+                            No live demo yet — this one's still on the workbench.
+                        </figcaption>
+                    </figure>
+                )}
+            </div>
+        </main>
+    );
+};
+
+export default ExperimentPage;
@@ -1,16 +1,110 @@
-import React from "react";
+import React, { useCallback, useLayoutEffect, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import gsap from "gsap";
+import { Flip } from "gsap/Flip";
+import { ScrollTrigger } from "gsap/ScrollTrigger";
+import { Icon } from "@iconify/react";
 import HeroCanvas from "../components/HeroCanvas";
 import ProjectCard from "../components/ProjectCard";
 import TheLab from "../components/TheLab";
 import AboutCreator from "../components/AboutCreator";
 import Annotations from "../components/Annotations";
-import { PROJECTS } from "../data/projects";
+import ProjectFeedStatus from "../components/ProjectFeedStatus";
+import StoryFilterBar from "../components/StoryFilterBar";
+import { useProjects } from "../context/ProjectsContext";
+import { filterProjects, getProjectFacets } from "../data/projects";
+import { FEATURED_EXPERIMENTS } from "../data/experiments";
+import type { ProjectFilters } from "../types";
+
+gsap.registerPlugin(Flip, ScrollTrigger);
 
 interface HomeViewProps {
-    onProjectOpen: (index: number) => void;
+    /** Opens the story modal for the given project slug */
+    onProjectOpen: (slug: string) => void;
+}
+
+/**
+ * filtersToParams — Serialise filters into the query string, leaving out
+ * anything inactive so an unfiltered feed keeps a clean `/` URL.
+ */
+function filtersToParams({ category, tag, query }: ProjectFilters): URLSearchParams {
+    const params = new URLSearchParams();
+    if (category) params.set("category", category);
+    if (tag) params.set("tag", tag);
+    if (query) params.set("q", query);
+    return params;
 }
 
 const HomeView: React.FC<HomeViewProps> = ({ onProjectOpen }) => {
+    const { projects, status, error, reload } = useProjects();
+
+    /* -------------------------------------------------------------------------
+     * Filters — the URL query string is the source of truth, so a filtered
+     * feed can be shared, bookmarked, and restored when a story closes.
+     * ----------------------------------------------------------------------- */
+    const [searchParams, setSearchParams] = useSearchParams();
+
+    const filters = useMemo<ProjectFilters>(() => ({
+        category: searchParams.get("category"),
+        tag: searchParams.get("tag"),
+        query: searchParams.get("q") ?? "",
+    }), [searchParams]);
+
+    const facets = useMemo(() => getProjectFacets(projects), [projects]);
+    const visibleProjects = useMemo(() => filterProjects(projects, filters), [projects, filters]);
+
+    /* -------------------------------------------------------------------------
+     * Animated re-layout (GSAP Flip)
+     *
+     * The slots' positions are recorded just before the filters change;
+     * once React has re-rendered, surviving cards glide from the recorded
+     * spot to their new one and newcomers rise in. Changes that don't go
+     * through the filter bar (back/forward) simply snap.
+     * ----------------------------------------------------------------------- */
+    const feedRef = useRef<HTMLDivElement>(null);
+    const flipStateRef = useRef<Flip.FlipState | null>(null);
+
+    const handleFiltersChange = useCallback((next: ProjectFilters) => {
+        const slots = feedRef.current?.querySelectorAll(".story-slot");
+        if (slots && slots.length > 0) {
+            flipStateRef.current = Flip.getState(slots);
+        }
+        /* Replace, so typing a search doesn't leave one history entry per key */
+        setSearchParams(filtersToParams(next), { replace: true });
+    }, [setSearchParams]);
+
+    useLayoutEffect(() => {
+        const state = flipStateRef.current;
+        flipStateRef.current = null;
+
+        if (!state || !feedRef.current) {
+            ScrollTrigger.refresh();
+            return;
+        }
+
+        const timeline = Flip.from(state, {
+            targets: feedRef.current.querySelectorAll(".story-slot"),
+            duration: 0.7,
+            ease: "power3.inOut",
+            onEnter: (elements) =>
+                gsap.fromTo(
+                    elements,
+                    { opacity: 0, y: 60 },
+                    { opacity: 1, y: 0, duration: 0.6, stagger: 0.08, ease: "power3.out" }
+                ),
+            /* Card parallax triggers were measured against the old layout */
+            onComplete: () => ScrollTrigger.refresh(),
+        });
+
+        return () => {
+            timeline.kill();
+        };
+    }, [visibleProjects]);
+
+    const clearFilters = useCallback(() => {
+        handleFiltersChange({ category: null, tag: null, query: "" });
+    }, [handleFiltersChange]);
+
     return (
         <main className="relative z-10 w-full flex flex-col items-center pb-32">
             {/* Handwritten annotations — scattered on desktop only */}
@@ -29,18 +123,63 @@ const HomeView: React.FC<HomeViewProps> = ({ onProjectOpen }) => {
                 </p>
             </div>
 
-            {/* Render one ProjectCard per entry in the data array */}
-            {PROJECTS.map((project, index) => (
-                <ProjectCard
-                    key={project.title}
-                    project={project}
-                    index={index}
-                    onClick={() => onProjectOpen(index)}
-                />
-            ))}
+            {/* Skeleton while a remote source loads, apology + retry if it fails */}
+            <ProjectFeedStatus status={status} error={error} onRetry={reload} />
+
+            {status === "ready" && (
+                <>
+                    {/* Search + category/tag chips, synced to the query string */}
+                    <StoryFilterBar
+                        filters={filters}
+                        categories={facets.categories}
+                        tags={facets.tags}
+                        resultCount={visibleProjects.length}
+                        onChange={handleFiltersChange}
+                    />
+
+                    {/* Render one ProjectCard per matching entry. The slot wrapper is
+                        what Flip moves, leaving the card's own parallax transform alone. */}
+                    <div ref={feedRef} className="w-full flex flex-col items-center">
+                        {visibleProjects.map((project) => (
+                            <div key={project.slug} className="story-slot w-full" data-flip-id={project.slug}>
+                                <ProjectCard
+                                    project={project}
+                                    index={projects.indexOf(project)}
+                                    onClick={() => onProjectOpen(project.slug)}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Empty result — nothing survived the filters */}
+                    {visibleProjects.length === 0 && (
+                        <div className="w-full max-w-xl px-6 mb-[15vh] flex flex-col items-center text-center">
+                            <h3 className="font-display text-3xl md:text-5xl text-[var(--color-text)] rotate-1 select-none">
+                                Nothing but static.
+                            </h3>
+                            <p className="font-sans text-base md:text-lg text-[var(--color-text-dim)] leading-relaxed mt-6">
+                                {filters.query
+                                    ? `No story answers to "${filters.query}" — not yet, anyway.`
+                                    : "No story fits that combination — not yet, anyway."}
+                            </p>
+                            <p className="font-sans text-[10px] uppercase tracking-[0.4em] text-[var(--color-text-dim)]/40 mt-4">
+                                Even controlled chaos needs something to work with.
+                            </p>
+                            <button
+                                type="button"
+                                onClick={clearFilters}
+                                className="group mt-10 inline-flex items-center gap-3 font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors duration-300 nav-link"
+                            >
+                                <Icon icon="lucide:x" className="group-hover:rotate-90 transition-transform duration-300" />
+                                <span>Clear the filters</span>
+                            </button>
+                        </div>
+                    )}
+                </>
+            )}
 
             {/* Phase 3A — The Lab experiments section */}
-            <TheLab />
+            <TheLab experiments={FEATURED_EXPERIMENTS} showCatalogueLink />
 
             {/* Phase 3C — About: The Creator */}
             <AboutCreator />
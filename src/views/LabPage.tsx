@@ -1,7 +1,89 @@
-import React from "react";
+import React, { useCallback, useLayoutEffect, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import gsap from "gsap";
+import { Flip } from "gsap/Flip";
+import { ScrollTrigger } from "gsap/ScrollTrigger";
 import TheLab from "../components/TheLab";
+import LabFilterBar from "../components/LabFilterBar";
+import { EXPERIMENTS, filterExperiments, isExperimentStatus } from "../data/experiments";
+import type { ExperimentFilters } from "../types";
+
+gsap.registerPlugin(Flip, ScrollTrigger);
+
+/**
+ * filtersToParams — Serialise Lab filters, omitting inactive ones.
+ */
+function filtersToParams({ status, tag }: ExperimentFilters): URLSearchParams {
+    const params = new URLSearchParams();
+    if (status) params.set("status", status);
+    if (tag) params.set("tag", tag);
+    return params;
+}
 
 const LabPage: React.FC = () => {
+    /* -------------------------------------------------------------------------
+     * Filters — kept in the query string (`?status=WIP&tag=canvas`)
+     * ----------------------------------------------------------------------- */
+    const [searchParams, setSearchParams] = useSearchParams();
+
+    const filters = useMemo<ExperimentFilters>(() => {
+        const status = searchParams.get("status");
+        return {
+            status: isExperimentStatus(status) ? status : null,
+            tag: searchParams.get("tag"),
+        };
+    }, [searchParams]);
+
+    const visibleExperiments = useMemo(() => filterExperiments(EXPERIMENTS, filters), [filters]);
+
+    /* -------------------------------------------------------------------------
+     * Flip reflow — same approach as the home feed: record the cards before
+     * the filters change, then animate them from there once React re-renders.
+     * ----------------------------------------------------------------------- */
+    const gridRef = useRef<HTMLDivElement>(null);
+    const flipStateRef = useRef<Flip.FlipState | null>(null);
+
+    const handleFiltersChange = useCallback((next: ExperimentFilters) => {
+        const cards = gridRef.current?.querySelectorAll(".lab-card");
+        if (cards && cards.length > 0) {
+            flipStateRef.current = Flip.getState(cards);
+        }
+        setSearchParams(filtersToParams(next), { replace: true });
+    }, [setSearchParams]);
+
+    useLayoutEffect(() => {
+        const state = flipStateRef.current;
+        flipStateRef.current = null;
+        if (!state || !gridRef.current) return;
+
+        const cards = gsap.utils.toArray<HTMLElement>(gridRef.current.querySelectorAll(".lab-card"));
+
+        /* The cards' CSS `transition-all` would smear every Flip frame */
+        cards.forEach((card) => (card.style.transition = "none"));
+
+        const timeline = Flip.from(state, {
+            targets: cards,
+            duration: 0.6,
+            ease: "power3.inOut",
+            stagger: 0.03,
+            onEnter: (elements) =>
+                gsap.fromTo(
+                    elements,
+                    { opacity: 0, scale: 0.9 },
+                    { opacity: 1, scale: 1, duration: 0.5, stagger: 0.05, ease: "back.out(1.4)" }
+                ),
+            onComplete: () => {
+                cards.forEach((card) => (card.style.transition = ""));
+                ScrollTrigger.refresh();
+            },
+        });
+
+        return () => {
+            timeline.kill();
+            cards.forEach((card) => (card.style.transition = ""));
+        };
+    }, [visibleExperiments]);
+
     return (
         <main className="pt-32 pb-24 px-6 md:px-12 bg-[var(--color-bg)] min-h-screen">
             <div className="max-w-7xl mx-auto">
@@ -17,18 +99,32 @@ const LabPage: React.FC = () => {
                     </div>
                 </header>
 
-                {/* Main Lab Content */}
-                <TheLab />
-
-                {/* Experimental Grid - Future Content Stubs */}
-                <div className="mt-32 grid grid-cols-1 md:grid-cols-3 gap-8">
-                    {[1, 2, 3].map((i) => (
-                        <div key={i} className="aspect-square border border-[var(--color-border)] rounded-lg flex flex-col items-center justify-center p-8 group hover:border-[var(--color-accent)] transition-all duration-500 overflow-hidden relative">
-                            <div className="absolute inset-0 bg-[var(--color-accent)] opacity-0 group-hover:opacity-5 transition-opacity duration-700" />
-                            <span className="font-display text-4xl text-[var(--color-text-dim)] group-hover:text-[var(--color-accent)] transition-colors duration-500">?</span>
-                            <span className="mt-4 font-mono text-[10px] uppercase tracking-widest text-[var(--color-border)] group-hover:text-[var(--color-accent)] group-hover:blur-[0.5px] transition-all">Coming Soon</span>
-                        </div>
-                    ))}
+                {/* The full catalogue, filterable */}
+                <div ref={gridRef}>
+                    <TheLab
+                        experiments={visibleExperiments}
+                        toolbar={
+                            <LabFilterBar
+                                experiments={EXPERIMENTS}
+                                filters={filters}
+                                onChange={handleFiltersChange}
+                            />
+                        }
+                        emptyState={
+                            <div className="py-16 flex flex-col items-start gap-6">
+                                <p className="font-display text-2xl md:text-4xl text-[var(--color-text)] -rotate-1">
+                                    Nothing on the workbench like that.
+                                </p>
+                                <button
+                                    type="button"
+                                    onClick={() => handleFiltersChange({ status: null, tag: null })}
+                                    className="font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors nav-link"
+                                >
+                                    Show everything →
+                                </button>
+                            </div>
+                        }
+                    />
                 </div>
             </div>
         </main>
@@ -0,0 +1,39 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Icon } from "@iconify/react";
+
+interface NotFoundPageProps {
+    /** Optional override for the small status line under the headline */
+    message?: string;
+}
+
+const NotFoundPage: React.FC<NotFoundPageProps> = ({
+    message = "This page got lost in the noise.",
+}) => {
+    return (
+        <main className="relative z-10 w-full min-h-screen pt-40 pb-32 px-6 md:px-12 flex flex-col items-center justify-center text-center">
+            <span className="font-mono text-[10px] uppercase tracking-[0.5em] text-[var(--color-accent)] mb-8">
+                Error 404 — Signal Lost
+            </span>
+            <h1 className="font-display text-7xl md:text-[12rem] text-[var(--color-text)] leading-none -rotate-2 select-none glitch-text" data-text="404">
+                404
+            </h1>
+            <p className="font-sans text-lg md:text-2xl text-[var(--color-text-dim)] max-w-md leading-relaxed mt-12">
+                {message}
+            </p>
+            <p className="font-sans text-[10px] uppercase tracking-[0.4em] text-[var(--color-text-dim)]/40 mt-4">
+                Even controlled chaos has its limits.
+            </p>
+
+            <Link
+                to="/"
+                className="group mt-16 inline-flex items-center gap-3 font-sans text-xs uppercase tracking-[0.2em] text-[var(--color-accent)] hover:text-[var(--color-text)] transition-colors duration-300 nav-link"
+            >
+                <Icon icon="lucide:arrow-left" className="group-hover:-translate-x-1 transition-transform" />
+                <span>Back to the Index</span>
+            </Link>
+        </main>
+    );
+};
+
+export default NotFoundPage;
@@ -0,0 +1,49 @@
+import React, { useCallback } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import ProjectDetail from "../components/ProjectDetail";
+import NotFoundPage from "./NotFoundPage";
+import ProjectFeedStatus from "../components/ProjectFeedStatus";
+import { getProjectBySlug } from "../data/projects";
+import { useProjects } from "../context/ProjectsContext";
+import type { Project } from "../types";
+
+/**
+ * StoryPage — Standalone project detail, rendered when a `/stories/:slug`
+ * URL is loaded directly (refresh, bookmark or shared link) instead of
+ * being opened from a card.
+ */
+const StoryPage: React.FC = () => {
+    const { slug = "" } = useParams();
+    const navigate = useNavigate();
+    const { projects, status, error, reload } = useProjects();
+    const project = getProjectBySlug(projects, slug);
+
+    const handleNavigate = useCallback((target: Project) => {
+        navigate(`/stories/${target.slug}`);
+    }, [navigate]);
+
+    /* Don't call a slug missing until the list has actually arrived */
+    if (status !== "ready") {
+        return (
+            <main className="relative z-10 w-full min-h-screen pt-40 flex flex-col items-center">
+                <ProjectFeedStatus status={status} error={error} onRetry={reload} count={1} />
+            </main>
+        );
+    }
+
+    if (!project) {
+        return <NotFoundPage message="That story hasn't been written yet." />;
+    }
+
+    return (
+        <main className="relative z-10 w-full min-h-screen bg-[var(--color-bg)]">
+            <ProjectDetail
+                project={project}
+                onNavigate={handleNavigate}
+                revealDelay={0.2}
+            />
+        </main>
+    );
+};
+
+export default StoryPage;
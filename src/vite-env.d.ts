@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    /** JSON endpoint for projects; unset = bundled Markdown collection */
+    readonly VITE_PROJECTS_URL?: string;
+    /** Contact form endpoint; unset = dev stub in dev, mailto in production */
+    readonly VITE_CONTACT_URL?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}
+
+/* Project Markdown files, compiled by `plugins/projectContent.ts` */
+declare module "*.md" {
+    const project: import("./types").Project;
+    export default project;
+}
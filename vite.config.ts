@@ -1,8 +1,10 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
+import { projectContent } from "./plugins/projectContent";
+import { mockApi } from "./plugins/mockApi";
 
 // https://vite.dev/config/
 export default defineConfig({
-    plugins: [react(), tailwindcss()],
+    plugins: [projectContent(), mockApi(), react(), tailwindcss()],
 });